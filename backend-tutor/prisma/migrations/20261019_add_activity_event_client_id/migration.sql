@@ -0,0 +1,6 @@
+-- Client-supplied event ids let the telemetry ingest endpoint drop retried batches
+ALTER TABLE "learner_activity_events"
+  ADD COLUMN IF NOT EXISTS "client_event_id" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_learner_activity_client_event"
+  ON "learner_activity_events" ("user_id", "client_event_id");
@@ -0,0 +1,7 @@
+-- Tutors can pin one exemplary top-level answer per prompt and cohort
+ALTER TABLE cold_call_messages
+  ADD COLUMN IF NOT EXISTS pinned_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_cold_call_message_pinned
+  ON cold_call_messages(prompt_id, cohort_id)
+  WHERE pinned_at IS NOT NULL;
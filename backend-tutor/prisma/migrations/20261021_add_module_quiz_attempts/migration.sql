@@ -0,0 +1,43 @@
+CREATE TABLE "module_quiz_attempts" (
+    "attempt_id" uuid NOT NULL DEFAULT gen_random_uuid(),
+    "user_id" uuid NOT NULL,
+    "course_id" uuid NOT NULL,
+    "module_no" integer NOT NULL,
+    "attempt_number" integer NOT NULL,
+    "score" integer NULL,
+    "passed" boolean NOT NULL DEFAULT false,
+    "answers" jsonb NOT NULL DEFAULT '[]'::jsonb,
+    "started_at" timestamptz NULL,
+    "submitted_at" timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT "module_quiz_attempts_pkey" PRIMARY KEY ("attempt_id"),
+    CONSTRAINT "module_quiz_attempts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("user_id") ON DELETE CASCADE,
+    CONSTRAINT "module_quiz_attempts_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE,
+    CONSTRAINT "module_quiz_attempts_score_check" CHECK ("score" IS NULL OR ("score" >= 0 AND "score" <= 100))
+);
+
+CREATE UNIQUE INDEX "uq_module_quiz_attempts_user_module_attempt"
+    ON "module_quiz_attempts" ("user_id", "course_id", "module_no", "attempt_number");
+CREATE INDEX "idx_module_quiz_attempts_course_module" ON "module_quiz_attempts" ("course_id", "module_no");
+CREATE INDEX "idx_module_quiz_attempts_course_submitted" ON "module_quiz_attempts" ("course_id", "submitted_at");
+
+-- Carry legacy module_progress rows over as attempts. Their scores and answers were never stored.
+DO $$
+BEGIN
+  IF to_regclass('module_progress') IS NOT NULL THEN
+    INSERT INTO "module_quiz_attempts" ("user_id", "course_id", "module_no", "attempt_number", "passed", "started_at", "submitted_at")
+    SELECT
+      mp."user_id"::uuid,
+      mp."course_id"::uuid,
+      mp."module_no",
+      ROW_NUMBER() OVER (
+        PARTITION BY mp."user_id", mp."course_id", mp."module_no"
+        ORDER BY COALESCE(mp."passed_at", mp."updated_at") ASC
+      ),
+      COALESCE(mp."quiz_passed", false),
+      mp."unlocked_at",
+      COALESCE(mp."passed_at", mp."completed_at", mp."updated_at", now())
+    FROM "module_progress" mp
+    JOIN "users" u ON u."user_id" = mp."user_id"::uuid
+    JOIN "courses" c ON c."course_id" = mp."course_id"::uuid;
+  END IF;
+END $$;
@@ -0,0 +1,35 @@
+CREATE TABLE "cp_tutor_copilot_conversations" (
+  "conversation_id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" uuid NOT NULL,
+  "course_id" uuid NOT NULL,
+  "title" text NOT NULL,
+  "summary" text,
+  "summary_message_count" integer NOT NULL DEFAULT 0,
+  "summary_updated_at" timestamptz,
+  "last_message_at" timestamptz,
+  "created_at" timestamptz NOT NULL DEFAULT now(),
+  "updated_at" timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT "cp_tutor_copilot_conversations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("user_id") ON DELETE CASCADE,
+  CONSTRAINT "cp_tutor_copilot_conversations_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE
+);
+
+CREATE INDEX "idx_cp_tutor_copilot_conversation_user_course"
+  ON "cp_tutor_copilot_conversations" ("user_id", "course_id", "last_message_at" DESC);
+CREATE INDEX "idx_cp_tutor_copilot_conversation_course" ON "cp_tutor_copilot_conversations" ("course_id");
+
+CREATE TABLE "cp_tutor_copilot_messages" (
+  "message_id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "conversation_id" uuid NOT NULL,
+  "user_id" uuid NOT NULL,
+  "role" "RagChatRole" NOT NULL,
+  "content" text NOT NULL,
+  "cohort_id" uuid,
+  "trace" jsonb,
+  "created_at" timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT "cp_tutor_copilot_messages_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "cp_tutor_copilot_conversations" ("conversation_id") ON DELETE CASCADE,
+  CONSTRAINT "cp_tutor_copilot_messages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("user_id") ON DELETE CASCADE
+);
+
+CREATE INDEX "idx_cp_tutor_copilot_message_conversation_created"
+  ON "cp_tutor_copilot_messages" ("conversation_id", "created_at");
+CREATE INDEX "idx_cp_tutor_copilot_message_user" ON "cp_tutor_copilot_messages" ("user_id");
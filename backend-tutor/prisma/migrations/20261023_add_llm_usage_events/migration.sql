@@ -0,0 +1,28 @@
+CREATE TABLE "llm_usage_events" (
+    "usage_id" uuid NOT NULL DEFAULT gen_random_uuid(),
+    "feature" text NOT NULL,
+    "operation" text NOT NULL,
+    "provider" text NOT NULL,
+    "model" text NOT NULL,
+    "prompt_tokens" integer NOT NULL DEFAULT 0,
+    "completion_tokens" integer NOT NULL DEFAULT 0,
+    "total_tokens" integer NOT NULL DEFAULT 0,
+    "latency_ms" integer NOT NULL,
+    "status" text NOT NULL,
+    "error_message" text NULL,
+    "estimated_cost_usd" numeric(12, 6) NOT NULL DEFAULT 0,
+    "user_id" uuid NULL,
+    "course_id" uuid NULL,
+    "cohort_id" uuid NULL,
+    "created_at" timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT "llm_usage_events_pkey" PRIMARY KEY ("usage_id"),
+    CONSTRAINT "llm_usage_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("user_id") ON DELETE SET NULL,
+    CONSTRAINT "llm_usage_events_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE SET NULL,
+    CONSTRAINT "llm_usage_events_cohort_id_fkey" FOREIGN KEY ("cohort_id") REFERENCES "cohorts" ("cohort_id") ON DELETE SET NULL,
+    CONSTRAINT "llm_usage_events_operation_check" CHECK ("operation" IN ('chat', 'embedding')),
+    CONSTRAINT "llm_usage_events_status_check" CHECK ("status" IN ('success', 'error'))
+);
+
+CREATE INDEX "idx_llm_usage_events_created" ON "llm_usage_events" ("created_at");
+CREATE INDEX "idx_llm_usage_events_course_created" ON "llm_usage_events" ("course_id", "created_at");
+CREATE INDEX "idx_llm_usage_events_user_created" ON "llm_usage_events" ("user_id", "created_at");
@@ -0,0 +1,15 @@
+CREATE TABLE "course_llm_budgets" (
+    "course_id" uuid NOT NULL,
+    "monthly_limit_usd" numeric(10, 2) NOT NULL,
+    "soft_limit_percent" integer NOT NULL DEFAULT 80,
+    "hard_limit_percent" integer NOT NULL DEFAULT 100,
+    "created_at" timestamptz NOT NULL DEFAULT now(),
+    "updated_at" timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT "course_llm_budgets_pkey" PRIMARY KEY ("course_id"),
+    CONSTRAINT "course_llm_budgets_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE,
+    CONSTRAINT "course_llm_budgets_limit_check" CHECK ("monthly_limit_usd" >= 0),
+    CONSTRAINT "course_llm_budgets_thresholds_check" CHECK (
+        "soft_limit_percent" BETWEEN 1 AND 100
+        AND "hard_limit_percent" BETWEEN "soft_limit_percent" AND 200
+    )
+);
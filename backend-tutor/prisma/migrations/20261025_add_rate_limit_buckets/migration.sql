@@ -0,0 +1,9 @@
+CREATE TABLE "rate_limit_buckets" (
+    "bucket_key" text NOT NULL,
+    "window_start" timestamptz NOT NULL,
+    "hits" integer NOT NULL DEFAULT 0,
+    "expires_at" timestamptz NOT NULL,
+    CONSTRAINT "rate_limit_buckets_pkey" PRIMARY KEY ("bucket_key", "window_start")
+);
+
+CREATE INDEX "idx_rate_limit_buckets_expires" ON "rate_limit_buckets" ("expires_at");
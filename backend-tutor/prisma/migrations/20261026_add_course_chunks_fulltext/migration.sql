@@ -0,0 +1,7 @@
+-- Keyword side of hybrid retrieval; generated so every existing and future chunk is indexed
+ALTER TABLE course_chunks
+  ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_course_chunks_content_tsv
+  ON course_chunks USING GIN (content_tsv);
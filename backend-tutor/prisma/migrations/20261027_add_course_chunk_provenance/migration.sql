@@ -0,0 +1,12 @@
+ALTER TABLE course_chunks
+  ADD COLUMN IF NOT EXISTS source_document TEXT,
+  ADD COLUMN IF NOT EXISTS source_page INTEGER,
+  ADD COLUMN IF NOT EXISTS topic_id UUID REFERENCES topics (topic_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS module_no INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_course_chunks_course_topic
+  ON course_chunks (course_id, topic_id);
+
+-- Chunks each assistant answer cited, so tutors can trace an answer back to the material
+ALTER TABLE cp_rag_chat_messages
+  ADD COLUMN IF NOT EXISTS citations JSONB;
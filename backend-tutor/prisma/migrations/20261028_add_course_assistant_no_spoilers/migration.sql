@@ -0,0 +1,3 @@
+-- When set, the learner assistant never draws on modules after the learner's current one
+ALTER TABLE "courses"
+  ADD COLUMN "assistant_no_spoilers" boolean NOT NULL DEFAULT false;
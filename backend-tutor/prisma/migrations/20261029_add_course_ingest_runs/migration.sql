@@ -0,0 +1,19 @@
+CREATE TABLE "course_ingest_runs" (
+    "run_id" uuid NOT NULL DEFAULT gen_random_uuid(),
+    "course_id" uuid NOT NULL,
+    "triggered_by" uuid,
+    "source" text NOT NULL,
+    "status" text NOT NULL DEFAULT 'running',
+    "documents" jsonb NOT NULL DEFAULT '[]'::jsonb,
+    "chunk_count" integer NOT NULL DEFAULT 0,
+    "error_message" text,
+    "started_at" timestamptz NOT NULL DEFAULT now(),
+    "finished_at" timestamptz,
+    CONSTRAINT "course_ingest_runs_pkey" PRIMARY KEY ("run_id"),
+    CONSTRAINT "course_ingest_runs_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE,
+    CONSTRAINT "course_ingest_runs_triggered_by_fkey" FOREIGN KEY ("triggered_by") REFERENCES "users" ("user_id") ON DELETE SET NULL,
+    CONSTRAINT "course_ingest_runs_source_check" CHECK ("source" IN ('cli', 'upload')),
+    CONSTRAINT "course_ingest_runs_status_check" CHECK ("status" IN ('running', 'succeeded', 'failed'))
+);
+
+CREATE INDEX "idx_course_ingest_runs_course_started" ON "course_ingest_runs" ("course_id", "started_at" DESC);
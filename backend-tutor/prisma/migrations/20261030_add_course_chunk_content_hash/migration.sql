@@ -0,0 +1,18 @@
+-- Lets re-ingest skip chunks whose text is already embedded
+ALTER TABLE course_chunks
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+UPDATE course_chunks
+SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_course_chunks_course_hash
+  ON course_chunks (course_id, content_hash);
+
+CREATE INDEX IF NOT EXISTS idx_course_chunks_course_source
+  ON course_chunks (course_id, source_document);
+
+ALTER TABLE course_ingest_runs
+  ADD COLUMN IF NOT EXISTS added_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS removed_count INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,21 @@
+CREATE TABLE "faq_clusters" (
+    "cluster_id" uuid NOT NULL DEFAULT gen_random_uuid(),
+    "course_id" uuid NOT NULL,
+    "topic_id" uuid NOT NULL,
+    "representative_question" text NOT NULL,
+    "sample_questions" jsonb NOT NULL DEFAULT '[]'::jsonb,
+    "question_count" integer NOT NULL,
+    "learner_count" integer NOT NULL,
+    "first_asked_at" timestamptz NOT NULL,
+    "last_asked_at" timestamptz NOT NULL,
+    "promoted_suggestion_id" uuid,
+    "promoted_at" timestamptz,
+    "computed_at" timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT "faq_clusters_pkey" PRIMARY KEY ("cluster_id"),
+    CONSTRAINT "faq_clusters_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE,
+    CONSTRAINT "faq_clusters_topic_id_fkey" FOREIGN KEY ("topic_id") REFERENCES "topics" ("topic_id") ON DELETE CASCADE,
+    CONSTRAINT "faq_clusters_promoted_suggestion_id_fkey" FOREIGN KEY ("promoted_suggestion_id") REFERENCES "topic_prompt_suggestions" ("suggestion_id") ON DELETE SET NULL
+);
+
+CREATE INDEX "idx_faq_clusters_course_count" ON "faq_clusters" ("course_id", "question_count" DESC);
+CREATE INDEX "idx_faq_clusters_topic" ON "faq_clusters" ("topic_id");
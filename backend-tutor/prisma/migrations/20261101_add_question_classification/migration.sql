@@ -0,0 +1,15 @@
+-- Cached embedding of each suggested prompt, with the text it was computed from so edits invalidate it
+ALTER TABLE topic_prompt_suggestions
+  ADD COLUMN IF NOT EXISTS prompt_embedding VECTOR(1536),
+  ADD COLUMN IF NOT EXISTS prompt_embedding_text TEXT;
+
+-- Whether a learner question picked up a suggested prompt, decided once when it is written.
+-- NULL means not classified yet.
+ALTER TABLE cp_rag_chat_messages
+  ADD COLUMN IF NOT EXISTS is_predefined BOOLEAN,
+  ADD COLUMN IF NOT EXISTS matched_suggestion_id UUID REFERENCES topic_prompt_suggestions (suggestion_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS match_score REAL;
+
+CREATE INDEX IF NOT EXISTS idx_cp_rag_chat_message_unclassified
+  ON cp_rag_chat_messages (created_at)
+  WHERE role = 'user' AND is_predefined IS NULL;
@@ -0,0 +1,34 @@
+-- Contexts the answer was generated from, so a poorly rated answer can be reviewed against them
+ALTER TABLE cp_rag_chat_messages
+  ADD COLUMN IF NOT EXISTS retrieved_contexts JSONB;
+
+CREATE TABLE "assistant_answer_feedback" (
+    "feedback_id" uuid NOT NULL DEFAULT gen_random_uuid(),
+    "message_id" uuid NOT NULL,
+    "user_id" uuid NOT NULL,
+    "course_id" uuid NOT NULL,
+    "topic_id" uuid NOT NULL,
+    "rating" text NOT NULL,
+    "reason" text,
+    "review_status" text,
+    "resolution_note" text,
+    "resolved_suggestion_id" uuid,
+    "reviewed_by" uuid,
+    "reviewed_at" timestamptz,
+    "created_at" timestamptz NOT NULL DEFAULT now(),
+    "updated_at" timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT "assistant_answer_feedback_pkey" PRIMARY KEY ("feedback_id"),
+    CONSTRAINT "assistant_answer_feedback_message_id_key" UNIQUE ("message_id"),
+    CONSTRAINT "assistant_answer_feedback_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "cp_rag_chat_messages" ("message_id") ON DELETE CASCADE,
+    CONSTRAINT "assistant_answer_feedback_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("user_id") ON DELETE CASCADE,
+    CONSTRAINT "assistant_answer_feedback_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE,
+    CONSTRAINT "assistant_answer_feedback_topic_id_fkey" FOREIGN KEY ("topic_id") REFERENCES "topics" ("topic_id") ON DELETE CASCADE,
+    CONSTRAINT "assistant_answer_feedback_resolved_suggestion_id_fkey" FOREIGN KEY ("resolved_suggestion_id") REFERENCES "topic_prompt_suggestions" ("suggestion_id") ON DELETE SET NULL,
+    CONSTRAINT "assistant_answer_feedback_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "users" ("user_id") ON DELETE SET NULL,
+    CONSTRAINT "assistant_answer_feedback_rating_check" CHECK ("rating" IN ('up', 'down')),
+    CONSTRAINT "assistant_answer_feedback_review_status_check" CHECK (
+        "review_status" IN ('open', 'curated_answer', 'missing_material', 'dismissed')
+    )
+);
+
+CREATE INDEX "idx_assistant_answer_feedback_review" ON "assistant_answer_feedback" ("course_id", "review_status", "created_at" DESC);
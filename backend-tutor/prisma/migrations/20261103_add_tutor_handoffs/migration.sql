@@ -0,0 +1,35 @@
+-- Messages a tutor writes into a learner's assistant conversation after a handoff
+ALTER TYPE "RagChatRole" ADD VALUE IF NOT EXISTS 'tutor';
+
+CREATE TABLE "tutor_handoffs" (
+    "handoff_id" uuid NOT NULL DEFAULT gen_random_uuid(),
+    "session_id" uuid NOT NULL,
+    "course_id" uuid NOT NULL,
+    "learner_id" uuid NOT NULL,
+    "status" text NOT NULL DEFAULT 'open',
+    "escalated_at" timestamptz NOT NULL DEFAULT now(),
+    "last_message_at" timestamptz NOT NULL DEFAULT now(),
+    "learner_read_at" timestamptz,
+    "tutor_read_at" timestamptz,
+    "resolved_by" uuid,
+    "resolved_at" timestamptz,
+    "created_at" timestamptz NOT NULL DEFAULT now(),
+    "updated_at" timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT "tutor_handoffs_pkey" PRIMARY KEY ("handoff_id"),
+    CONSTRAINT "tutor_handoffs_session_id_key" UNIQUE ("session_id"),
+    CONSTRAINT "tutor_handoffs_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "cp_rag_chat_sessions" ("session_id") ON DELETE CASCADE,
+    CONSTRAINT "tutor_handoffs_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE,
+    CONSTRAINT "tutor_handoffs_learner_id_fkey" FOREIGN KEY ("learner_id") REFERENCES "users" ("user_id") ON DELETE CASCADE,
+    CONSTRAINT "tutor_handoffs_resolved_by_fkey" FOREIGN KEY ("resolved_by") REFERENCES "users" ("user_id") ON DELETE SET NULL,
+    CONSTRAINT "tutor_handoffs_status_check" CHECK ("status" IN ('open', 'resolved'))
+);
+
+CREATE INDEX "idx_tutor_handoffs_inbox" ON "tutor_handoffs" ("course_id", "status", "last_message_at" DESC);
+
+-- Set on the learner and tutor messages exchanged during a handoff
+ALTER TABLE cp_rag_chat_messages
+  ADD COLUMN IF NOT EXISTS handoff_id uuid REFERENCES tutor_handoffs (handoff_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cp_rag_chat_message_handoff
+  ON cp_rag_chat_messages (handoff_id, created_at)
+  WHERE handoff_id IS NOT NULL;
@@ -0,0 +1,18 @@
+CREATE TABLE "learner_risk_scores" (
+    "risk_score_id" uuid NOT NULL DEFAULT gen_random_uuid(),
+    "user_id" uuid NOT NULL,
+    "course_id" uuid NOT NULL,
+    "score" integer NOT NULL,
+    "level" text NOT NULL,
+    "factors" jsonb NOT NULL DEFAULT '[]'::jsonb,
+    "signals" jsonb NOT NULL DEFAULT '{}'::jsonb,
+    "computed_at" timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT "learner_risk_scores_pkey" PRIMARY KEY ("risk_score_id"),
+    CONSTRAINT "learner_risk_scores_user_course_key" UNIQUE ("user_id", "course_id"),
+    CONSTRAINT "learner_risk_scores_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("user_id") ON DELETE CASCADE,
+    CONSTRAINT "learner_risk_scores_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE,
+    CONSTRAINT "learner_risk_scores_score_check" CHECK ("score" BETWEEN 0 AND 100),
+    CONSTRAINT "learner_risk_scores_level_check" CHECK ("level" IN ('low', 'medium', 'high'))
+);
+
+CREATE INDEX "idx_learner_risk_scores_course_score" ON "learner_risk_scores" ("course_id", "score" DESC);
@@ -0,0 +1,16 @@
+CREATE TABLE "module_quiz_answer_keys" (
+    "course_id" uuid NOT NULL,
+    "module_no" integer NOT NULL,
+    "question_id" text NOT NULL,
+    "correct_option_id" text NOT NULL,
+    "updated_at" timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT "module_quiz_answer_keys_pkey" PRIMARY KEY ("course_id", "module_no", "question_id"),
+    CONSTRAINT "module_quiz_answer_keys_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses" ("course_id") ON DELETE CASCADE
+);
+
+ALTER TABLE "module_quiz_attempts" ADD COLUMN "self_reported" boolean NOT NULL DEFAULT false;
+
+-- Attempts submitted before answer keys existed were scored from the client's own correctness claims.
+-- They keep counting and are regraded when their module gets a key; rows carried over from
+-- module_progress have no answers to regrade.
+UPDATE "module_quiz_attempts" SET "self_reported" = true WHERE "answers" <> '[]'::jsonb;
@@ -0,0 +1,28 @@
+import { classifyPendingMessages } from "../src/services/questionClassificationService";
+import { prisma } from "../src/services/prisma";
+
+// Usage: npm run chat:classify
+// Classifies learner questions stored before classification happened at write time, so the
+// chatbot stats count them as predefined or custom. Safe to re-run; it only picks up
+// questions that have no classification yet.
+async function main() {
+  let total = 0;
+  for (;;) {
+    const classified = await classifyPendingMessages();
+    if (classified === 0) {
+      break;
+    }
+    total += classified;
+    console.log(`[chat] classified ${total} question(s)`);
+  }
+  console.log(`[chat] done: ${total} question(s) classified`);
+}
+
+main()
+  .catch((error) => {
+    console.error("[chat] classification failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,113 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { prisma } from "../src/services/prisma";
+import { createEmbedding } from "../src/rag/openAiClient";
+import { retrieveCourseContexts, type RetrievalMode } from "../src/rag/ragService";
+
+// Labelled question set: a JSON array of { courseId, question, relevantChunkIds }
+type LabelledQuestion = {
+  courseId: string;
+  question: string;
+  relevantChunkIds: string[];
+};
+
+type Variant = {
+  label: string;
+  mode: RetrievalMode;
+  rerank: boolean;
+};
+
+const DEFAULT_K = 5;
+
+function parseQuestions(payload: unknown): LabelledQuestion[] {
+  if (!Array.isArray(payload)) {
+    throw new Error("Question set must be a JSON array.");
+  }
+
+  return payload.map((row, index) => {
+    const record = row as Partial<LabelledQuestion>;
+    if (typeof record.courseId !== "string" || !record.courseId.trim()) {
+      throw new Error(`Missing courseId for question at index ${index}.`);
+    }
+    if (typeof record.question !== "string" || !record.question.trim()) {
+      throw new Error(`Missing question at index ${index}.`);
+    }
+    if (!Array.isArray(record.relevantChunkIds) || record.relevantChunkIds.length === 0) {
+      throw new Error(`Question at index ${index} needs at least one relevant chunk id.`);
+    }
+    return {
+      courseId: record.courseId.trim(),
+      question: record.question.trim(),
+      relevantChunkIds: record.relevantChunkIds.map(String),
+    };
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const filePath = args.find((arg) => !arg.startsWith("--"));
+  if (!filePath) {
+    throw new Error("Usage: npm run rag:eval -- <questions.json> [--k=5] [--rerank]");
+  }
+  const k = Number(args.find((arg) => arg.startsWith("--k="))?.slice(4) ?? DEFAULT_K);
+  const variants: Variant[] = [
+    { label: "vector", mode: "vector", rerank: false },
+    { label: "keyword", mode: "keyword", rerank: false },
+    { label: "hybrid", mode: "hybrid", rerank: false },
+    ...(args.includes("--rerank") ? [{ label: "hybrid+rerank", mode: "hybrid" as const, rerank: true }] : []),
+  ];
+
+  const raw = await fs.readFile(path.resolve(process.cwd(), filePath), "utf-8");
+  const questions = parseQuestions(JSON.parse(raw) as unknown);
+  console.log(`[rag] evaluating ${questions.length} questions at k=${k}`);
+
+  const totals = new Map(variants.map((variant) => [variant.label, { recall: 0, hits: 0, reciprocalRank: 0, empty: 0 }]));
+  for (const item of questions) {
+    const embedding = await createEmbedding(item.question, { feature: "eval", courseId: item.courseId });
+    const relevant = new Set(item.relevantChunkIds);
+
+    for (const variant of variants) {
+      const contexts = await retrieveCourseContexts({
+        courseId: item.courseId,
+        question: item.question,
+        embedding,
+        mode: variant.mode,
+        rerank: variant.rerank,
+        limit: k,
+        scope: { courseId: item.courseId },
+      });
+      const retrieved = contexts.map((context) => context.chunkId);
+      const found = retrieved.filter((chunkId) => relevant.has(chunkId)).length;
+      const firstHit = retrieved.findIndex((chunkId) => relevant.has(chunkId));
+
+      const total = totals.get(variant.label)!;
+      total.recall += found / relevant.size;
+      total.hits += firstHit === -1 ? 0 : 1;
+      total.reciprocalRank += firstHit === -1 ? 0 : 1 / (firstHit + 1);
+      total.empty += contexts.length === 0 ? 1 : 0;
+    }
+  }
+
+  const count = questions.length || 1;
+  console.table(
+    variants.map((variant) => {
+      const total = totals.get(variant.label)!;
+      return {
+        variant: variant.label,
+        [`recall@${k}`]: Number((total.recall / count).toFixed(3)),
+        [`hit@${k}`]: Number((total.hits / count).toFixed(3)),
+        mrr: Number((total.reciprocalRank / count).toFixed(3)),
+        "no context": total.empty,
+      };
+    }),
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("[rag] eval failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
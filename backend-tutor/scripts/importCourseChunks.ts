@@ -9,6 +9,10 @@ type ExportedChunk = {
   position: number;
   content: string;
   embedding: number[];
+  sourceDocument?: string | null;
+  sourcePage?: number | null;
+  topicId?: string | null;
+  moduleNo?: number | null;
 };
 
 const DEFAULT_JSON_PATH = path.resolve(process.cwd(), "../neo4j_query_table_data_2025-12-24.json");
@@ -51,6 +55,11 @@ function parseChunks(payload: unknown): ExportedChunk[] {
       position,
       content,
       embedding,
+      // Provenance is optional in exports and only kept when well-formed
+      sourceDocument: typeof record.sourceDocument === "string" && record.sourceDocument.trim() ? record.sourceDocument.trim() : null,
+      sourcePage: Number.isInteger(record.sourcePage) ? record.sourcePage : null,
+      topicId: typeof record.topicId === "string" && record.topicId.trim() ? record.topicId.trim() : null,
+      moduleNo: Number.isInteger(record.moduleNo) ? record.moduleNo : null,
     };
   });
 }
@@ -1,84 +1,102 @@
 import fs from "node:fs";
 import path from "node:path";
-import { PDFParse } from "pdf-parse";
-import { chunkText } from "../src/rag/textChunker";
-import { createEmbedding } from "../src/rag/openAiClient";
-import { replaceCourseChunks } from "../src/rag/ragService";
+import { SUPPORTED_DOCUMENT_EXTENSIONS, detectDocumentFormat } from "../src/rag/documentParsers";
+import { createIngestRun, executeIngestRun, resolveCourseId } from "../src/services/courseIngestionService";
+import { prisma } from "../src/services/prisma";
 
-const DEFAULT_PDF_PATH = path.resolve(process.cwd(), "../Web Dev using AI Course Content.pdf");
-const DEFAULT_COURSE_ID = "ai-in-web-development";
-const DEFAULT_COURSE_TITLE = "AI in Web Development";
+const USAGE = `Usage: npm run rag:ingest -- --course <course id or slug> [--topics] <file> [<file> ...]
 
-const sanitizePdfText = (text: string): string => {
-  if (!text) {
-    return "";
-  }
+Indexes PDF, DOCX, Markdown and PPTX files into the course assistant. Each file is synced with
+the chunks previously indexed under the same file name, so only new or changed text is embedded.
+--topics also indexes the lesson text stored on the course's topics.
 
-  let result = "";
-  for (let index = 0; index < text.length; index += 1) {
-    const code = text.charCodeAt(index);
-    if (code === 0) {
-      continue;
-    }
-    if (code >= 0xd800 && code <= 0xdbff) {
-      const next = text.charCodeAt(index + 1);
-      if (next >= 0xdc00 && next <= 0xdfff) {
-        result += text[index] + text[index + 1];
-        index += 1;
-      }
-      continue;
-    }
-    if (code >= 0xdc00 && code <= 0xdfff) {
-      continue;
+Supported extensions: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")}`;
+
+function parseArgs(argv: string[]) {
+  let course: string | null = null;
+  let includeTopicText = false;
+  const files: string[] = [];
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--course") {
+      course = argv[++index] ?? null;
+    } else if (arg === "--topics") {
+      includeTopicText = true;
+    } else if (arg === "--help" || arg === "-h") {
+      return null;
+    } else {
+      files.push(path.resolve(process.cwd(), arg));
     }
-    result += text[index];
   }
-  return result;
-};
-
-const sanitizeChunkContent = (content: string): string => {
-  const cleaned = sanitizePdfText(content);
-  return cleaned.replace(/\\u(?![0-9a-fA-F]{4})/g, "u");
-};
+  if (!course || (files.length === 0 && !includeTopicText)) {
+    return null;
+  }
+  return { course, includeTopicText, files };
+}
 
 async function main() {
-  const pdfPath = path.resolve(process.cwd(), process.argv[2] ?? DEFAULT_PDF_PATH);
-  const courseId = process.argv[3] ?? DEFAULT_COURSE_ID;
-  const courseTitle = process.argv[4] ?? DEFAULT_COURSE_TITLE;
-
-  console.log(`[rag] ingesting ${pdfPath} for course ${courseId}`);
-
-  const pdfBuffer = await fs.promises.readFile(pdfPath);
-  const parser = new PDFParse({ data: pdfBuffer });
-  const pdfData = await parser.getText();
-  await parser.destroy();
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.log(USAGE);
+    process.exitCode = 1;
+    return;
+  }
 
-  const sanitizedText = sanitizePdfText(pdfData.text ?? "");
-  const chunks = chunkText(sanitizedText).map((chunk) => sanitizeChunkContent(chunk));
-  if (chunks.length === 0) {
-    throw new Error("No content extracted from the PDF.");
+  const unsupported = args.files.filter((file) => !detectDocumentFormat(file));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported file type: ${unsupported.join(", ")}`);
   }
 
-  const payload = [];
-  for (let index = 0; index < chunks.length; index += 1) {
-    const content = chunks[index];
-    const embedding = await createEmbedding(content);
-    payload.push({
-      chunkId: `${courseId}-${index + 1}`,
-      content,
-      courseId,
-      position: index,
-      embedding,
-    });
-    console.log(`[rag] embedded chunk ${index + 1}/${chunks.length}`);
+  const courseId = await resolveCourseId(args.course);
+  if (!courseId) {
+    throw new Error(`Course not found: ${args.course}`);
   }
 
-  await replaceCourseChunks(courseTitle, payload);
-  console.log("[rag] ingest complete");
+  const documents = await Promise.all(
+    args.files.map(async (file) => ({ fileName: path.basename(file), data: await fs.promises.readFile(file) })),
+  );
+
+  console.log(`[rag] ingesting ${documents.length} file(s)${args.includeTopicText ? " and topic text" : ""} for course ${courseId}`);
+  const run = await createIngestRun({
+    courseId,
+    source: "cli",
+    fileNames: documents.map((document) => document.fileName),
+    includeTopicText: args.includeTopicText,
+  });
+  const finished = await executeIngestRun(run.runId, { courseId, documents, includeTopicText: args.includeTopicText });
+
+  const results = finished.documents as Array<{
+    fileName: string;
+    sections: number;
+    chunks: number;
+    added: number;
+    updated: number;
+    removed: number;
+    embedded: number;
+    error: string | null;
+  }>;
+  results.forEach((result) => {
+    console.log(
+      result.error
+        ? `[rag]   ${result.fileName}: failed - ${result.error}`
+        : `[rag]   ${result.fileName}: ${result.sections} section(s), ${result.chunks} chunk(s); ` +
+            `${result.added} added, ${result.updated} updated, ${result.removed} removed, ${result.embedded} embedded`,
+    );
+  });
+  if (finished.status !== "succeeded") {
+    throw new Error(finished.errorMessage ?? "Ingest failed");
+  }
+  console.log(
+    `[rag] ingest complete: ${finished.chunkCount} chunk(s), ${finished.addedCount} added, ` +
+      `${finished.updatedCount} updated, ${finished.removedCount} removed (run ${finished.runId})`,
+  );
 }
 
 main()
   .catch((error) => {
     console.error("[rag] ingest failed", error);
     process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
   });
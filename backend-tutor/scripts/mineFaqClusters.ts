@@ -0,0 +1,35 @@
+import { resolveCourseId } from "../src/services/courseIngestionService";
+import { DEFAULT_FAQ_WINDOW_DAYS, refreshFaqClusters } from "../src/services/faqMiningService";
+import { prisma } from "../src/services/prisma";
+
+// Usage: npm run faq:mine -- [course id or slug ...]
+// Re-mines recurring learner questions for the given courses, or every course when none are
+// given. Meant to run nightly from cron; tutors can also refresh from the dashboard.
+async function main() {
+  const identifiers = process.argv.slice(2);
+  const courseIds = identifiers.length
+    ? await Promise.all(
+        identifiers.map(async (identifier) => {
+          const courseId = await resolveCourseId(identifier);
+          if (!courseId) {
+            throw new Error(`Course not found: ${identifier}`);
+          }
+          return courseId;
+        }),
+      )
+    : (await prisma.course.findMany({ select: { courseId: true } })).map((course) => course.courseId);
+
+  for (const courseId of courseIds) {
+    const clusters = await refreshFaqClusters(courseId, DEFAULT_FAQ_WINDOW_DAYS);
+    console.log(`[faq] ${courseId}: ${clusters.length} open cluster(s)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("[faq] mining failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,36 @@
+import { resolveCourseId } from "../src/services/courseIngestionService";
+import { refreshCourseRiskScores } from "../src/services/learnerRiskService";
+import { prisma } from "../src/services/prisma";
+
+// Usage: npm run risk:score -- [course id or slug ...]
+// Recomputes the stored learner risk scores for the given courses, or every course when none
+// are given. The API already rescores every RISK_SCORE_INTERVAL_MINUTES; this is for a one-off
+// run, or for cron when that schedule is turned off.
+async function main() {
+  const identifiers = process.argv.slice(2);
+  const courseIds = identifiers.length
+    ? await Promise.all(
+        identifiers.map(async (identifier) => {
+          const courseId = await resolveCourseId(identifier);
+          if (!courseId) {
+            throw new Error(`Course not found: ${identifier}`);
+          }
+          return courseId;
+        }),
+      )
+    : (await prisma.course.findMany({ select: { courseId: true } })).map((course) => course.courseId);
+
+  for (const courseId of courseIds) {
+    const scored = await refreshCourseRiskScores(courseId);
+    console.log(`[risk] ${courseId}: scored ${scored} learner(s)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("[risk] scoring failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
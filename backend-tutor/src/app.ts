@@ -13,6 +13,8 @@ import { env } from "./config/env";
 import { tutorsRouter } from "./routes/tutors";
 import { adminRouter } from "./routes/admin";
 import { activityRouter } from "./routes/activity";
+import { assistantRouter } from "./routes/assistant";
+import { coldCallRouter } from "./routes/coldCall";
 
 export function createApp(): Express {
   const app = express();
@@ -28,6 +30,8 @@ export function createApp(): Express {
     credentials: true,
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     allowedHeaders: ["Content-Type", "Authorization"],
+    // Lets the frontend read the remaining quota and when to retry
+    exposedHeaders: ["Retry-After", "RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "RateLimit-Policy"],
   };
 
   app.use(cors(corsOptions));
@@ -51,6 +55,8 @@ export function createApp(): Express {
   app.use("/tutors", tutorsRouter);
   app.use("/admin", adminRouter);
   app.use("/activity", activityRouter);
+  app.use("/assistant", assistantRouter);
+  app.use("/cold-call", coldCallRouter);
 
   const apiRouter = express.Router();
   apiRouter.use("/health", healthRouter);
@@ -63,6 +69,8 @@ export function createApp(): Express {
   apiRouter.use("/tutors", tutorsRouter);
   apiRouter.use("/admin", adminRouter);
   apiRouter.use("/activity", activityRouter);
+  apiRouter.use("/assistant", assistantRouter);
+  apiRouter.use("/cold-call", coldCallRouter);
 
   app.use("/api", apiRouter);
 
@@ -17,11 +17,37 @@ const envSchema = z.object({
   FRONTEND_APP_URLS: z.string().default("http://localhost:5173"),
   GOOGLE_STATE_COOKIE_NAME: z.string().min(1).default("cp_oauth_state"),
   GOOGLE_STATE_MAX_AGE_SECONDS: z.coerce.number().int().positive().default(600),
-  OPENAI_API_KEY: z.string().min(1, { message: "OPENAI_API_KEY is required" }),
+  LLM_PROVIDER: z.enum(["openai", "openai-compatible", "fake"]).default("openai"),
+  OPENAI_API_KEY: z.string().min(1).optional(),
+  LLM_BASE_URL: z.string().url({ message: "LLM_BASE_URL must be a valid URL" }).optional(),
+  LLM_API_KEY: z.string().min(1).optional(),
+  LLM_FAKE_SCRIPT_PATH: z.string().min(1).optional(),
   LLM_MODEL: z.string().min(1, { message: "LLM_MODEL is required" }).default("gpt-3.5-turbo"),
   EMBEDDING_MODEL: z.string().min(1, { message: "EMBEDDING_MODEL is required" }).default("text-embedding-3-small"),
+  RAG_MIN_VECTOR_SCORE: z.coerce.number().min(0).max(1).default(0.3),
+  RAG_MIN_KEYWORD_SCORE: z.coerce.number().min(0).max(1).default(0.05),
+  RAG_RERANK: z.enum(["true", "false"]).default("false"),
+  COPILOT_MAX_ITERATIONS: z.coerce.number().int().positive().default(5),
+  COPILOT_MAX_TOOL_CALLS: z.coerce.number().int().positive().default(12),
+  COPILOT_MAX_TOKENS: z.coerce.number().int().positive().default(24000),
+  RATE_LIMIT_ASSISTANT_MAX: z.coerce.number().int().positive().default(8),
+  RATE_LIMIT_ASSISTANT_WINDOW_SECONDS: z.coerce.number().int().positive().default(60),
+  RATE_LIMIT_ASSISTANT_COURSE_MAX: z.coerce.number().int().positive().default(120),
+  RATE_LIMIT_ASSISTANT_COURSE_WINDOW_SECONDS: z.coerce.number().int().positive().default(60),
+  RATE_LIMIT_COPILOT_MAX: z.coerce.number().int().positive().default(20),
+  RATE_LIMIT_COPILOT_WINDOW_SECONDS: z.coerce.number().int().positive().default(60),
+  RATE_LIMIT_EMAIL_MAX: z.coerce.number().int().positive().default(5),
+  RATE_LIMIT_EMAIL_WINDOW_SECONDS: z.coerce.number().int().positive().default(60),
+  RISK_SCORE_INTERVAL_MINUTES: z.coerce.number().int().min(0).default(240),
   PLATFORM_EMAIL: z.string().email({ message: "PLATFORM_EMAIL must be a valid email" }),
   PLATFORM_EMAIL_PASSWORD: z.string().min(1, { message: "PLATFORM_EMAIL_PASSWORD is required" }),
+}).superRefine((data, ctx) => {
+  if (data.LLM_PROVIDER === "openai" && !data.OPENAI_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["OPENAI_API_KEY"], message: "OPENAI_API_KEY is required when LLM_PROVIDER is openai" });
+  }
+  if (data.LLM_PROVIDER === "openai-compatible" && !data.LLM_BASE_URL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["LLM_BASE_URL"], message: "LLM_BASE_URL is required when LLM_PROVIDER is openai-compatible" });
+  }
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -49,9 +75,30 @@ export const env = {
   frontendAppUrls,
   googleStateCookieName: parsed.data.GOOGLE_STATE_COOKIE_NAME,
   googleStateMaxAgeMs: parsed.data.GOOGLE_STATE_MAX_AGE_SECONDS * 1000,
+  llmProvider: parsed.data.LLM_PROVIDER,
   openAiApiKey: parsed.data.OPENAI_API_KEY,
+  llmBaseUrl: parsed.data.LLM_BASE_URL,
+  llmApiKey: parsed.data.LLM_API_KEY,
+  llmFakeScriptPath: parsed.data.LLM_FAKE_SCRIPT_PATH,
   llmModel: parsed.data.LLM_MODEL,
   embeddingModel: parsed.data.EMBEDDING_MODEL,
+  ragMinVectorScore: parsed.data.RAG_MIN_VECTOR_SCORE,
+  ragMinKeywordScore: parsed.data.RAG_MIN_KEYWORD_SCORE,
+  ragRerank: parsed.data.RAG_RERANK === "true",
+  copilotMaxIterations: parsed.data.COPILOT_MAX_ITERATIONS,
+  copilotMaxToolCalls: parsed.data.COPILOT_MAX_TOOL_CALLS,
+  copilotMaxTokens: parsed.data.COPILOT_MAX_TOKENS,
+  rateLimits: {
+    assistant: { max: parsed.data.RATE_LIMIT_ASSISTANT_MAX, windowMs: parsed.data.RATE_LIMIT_ASSISTANT_WINDOW_SECONDS * 1000 },
+    assistantCourse: {
+      max: parsed.data.RATE_LIMIT_ASSISTANT_COURSE_MAX,
+      windowMs: parsed.data.RATE_LIMIT_ASSISTANT_COURSE_WINDOW_SECONDS * 1000,
+    },
+    copilot: { max: parsed.data.RATE_LIMIT_COPILOT_MAX, windowMs: parsed.data.RATE_LIMIT_COPILOT_WINDOW_SECONDS * 1000 },
+    email: { max: parsed.data.RATE_LIMIT_EMAIL_MAX, windowMs: parsed.data.RATE_LIMIT_EMAIL_WINDOW_SECONDS * 1000 },
+  },
+  // 0 disables the in-process risk scoring schedule
+  riskScoreIntervalMinutes: parsed.data.RISK_SCORE_INTERVAL_MINUTES,
   platformEmail: parsed.data.PLATFORM_EMAIL,
   platformEmailPassword: parsed.data.PLATFORM_EMAIL_PASSWORD,
 };
@@ -0,0 +1,18 @@
+import express from "express";
+import { z } from "zod";
+import { SUPPORTED_DOCUMENT_EXTENSIONS, detectDocumentFormat } from "../rag/documentParsers";
+
+// ?filename=week-1.pdf names the uploaded file; its extension picks the parser
+export const contentUploadQuerySchema = z.object({
+  filename: z
+    .string()
+    .trim()
+    .min(1)
+    .max(255)
+    .refine((name) => detectDocumentFormat(name) !== null, {
+      message: `Supported file types: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")}`,
+    }),
+});
+
+// Uploads arrive as the raw file body; the global JSON parser leaves them alone
+export const contentUploadParser = express.raw({ type: () => true, limit: "25mb" });
@@ -0,0 +1,69 @@
+import type { Request, Response, NextFunction } from "express";
+import type { AuthenticatedRequest } from "./requireAuth";
+import { prisma } from "../services/prisma";
+import { consumeRateLimit, type RateLimitRule } from "../services/rateLimitStore";
+
+export type RateLimitKeyResolver = (req: Request) => string | null | Promise<string | null>;
+
+export const rateLimitKeys = {
+  user: (req: Request) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    return auth ? `user:${auth.userId}` : null;
+  },
+  tutor: async (req: Request) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      return null;
+    }
+    const tutor = await prisma.tutor.findUnique({ where: { userId: auth.userId }, select: { tutorId: true } });
+    return tutor ? `tutor:${tutor.tutorId}` : null;
+  },
+} satisfies Record<string, RateLimitKeyResolver>;
+
+type RateLimitOptions = { name: string; rule: RateLimitRule; message: string };
+
+/**
+ * Counts one request against `key` and sets the RateLimit-* headers. Over the limit it sends the
+ * 429 itself, adding Retry-After, and returns false. A store outage lets the request through.
+ */
+export async function enforceRateLimit(res: Response, options: RateLimitOptions, key: string): Promise<boolean> {
+  let result;
+  try {
+    result = await consumeRateLimit(`${options.name}:${key}`, options.rule);
+  } catch (error) {
+    console.error(`Rate limit check failed for ${options.name}`, error);
+    return true;
+  }
+
+  res.setHeader("RateLimit-Policy", `${options.rule.max};w=${Math.round(options.rule.windowMs / 1000)}`);
+  res.setHeader("RateLimit-Limit", String(result.limit));
+  res.setHeader("RateLimit-Remaining", String(result.remaining));
+  res.setHeader("RateLimit-Reset", String(result.retryAfterSeconds));
+
+  if (!result.allowed) {
+    res.setHeader("Retry-After", String(result.retryAfterSeconds));
+    res.status(429).json({ message: options.message, retryAfterSeconds: result.retryAfterSeconds });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Limits a route per resolved key using the shared Postgres store. Requests without a key pass
+ * through. Limits keyed on request data belong after validation, through enforceRateLimit.
+ */
+export function rateLimitBy(options: RateLimitOptions & { key: RateLimitKeyResolver }) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let key;
+    try {
+      key = await options.key(req);
+    } catch (error) {
+      console.error(`Rate limit check failed for ${options.name}`, error);
+      next();
+      return;
+    }
+    if (!key || (await enforceRateLimit(res, options, key))) {
+      next();
+    }
+  };
+}
@@ -0,0 +1,177 @@
+import path from "node:path";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+
+export type DocumentFormat = "pdf" | "docx" | "markdown" | "pptx";
+
+export type DocumentSection = {
+  heading: string | null;
+  text: string;
+  // PDF page or PPTX slide number
+  page: number | null;
+};
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".pptx": "pptx",
+};
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION);
+
+export function detectDocumentFormat(fileName: string): DocumentFormat | null {
+  return FORMAT_BY_EXTENSION[path.extname(fileName).toLowerCase()] ?? null;
+}
+
+/**
+ * Drops NUL characters and unpaired surrogates, which PDF extraction produces and Postgres rejects.
+ */
+export function sanitizeExtractedText(text: string): string {
+  let result = "";
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index);
+    if (code === 0) {
+      continue;
+    }
+    if (code >= 0xd800 && code <= 0xdbff) {
+      const next = text.charCodeAt(index + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        result += text[index] + text[index + 1];
+        index += 1;
+      }
+      continue;
+    }
+    if (code >= 0xdc00 && code <= 0xdfff) {
+      continue;
+    }
+    result += text[index];
+  }
+  return result;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(br|\/p|\/li|\/tr|\/h[1-6]|\/div)\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function parsePdf(data: Buffer): Promise<DocumentSection[]> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    return result.pages.map((page) => ({ heading: null, text: page.text ?? "", page: page.num }));
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function parseDocx(data: Buffer): Promise<DocumentSection[]> {
+  const { value: html } = await mammoth.convertToHtml({ buffer: data });
+  const sections: DocumentSection[] = [];
+  const headingPattern = /<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi;
+
+  let heading: string | null = null;
+  let cursor = 0;
+  for (const match of html.matchAll(headingPattern)) {
+    sections.push({ heading, text: htmlToText(html.slice(cursor, match.index)), page: null });
+    heading = htmlToText(match[1]) || null;
+    cursor = (match.index ?? 0) + match[0].length;
+  }
+  sections.push({ heading, text: htmlToText(html.slice(cursor)), page: null });
+  return sections;
+}
+
+function parseMarkdown(data: Buffer): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let heading: string | null = null;
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of data.toString("utf8").split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const match = inFence ? null : /^#{1,6}\s+(.*?)\s*#*\s*$/.exec(line);
+    if (match) {
+      sections.push({ heading, text: lines.join("\n"), page: null });
+      heading = match[1] || null;
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  sections.push({ heading, text: lines.join("\n"), page: null });
+  return sections;
+}
+
+/**
+ * Reads the text runs of every slide in order; the first paragraph is taken as the slide title.
+ */
+async function parsePptx(data: Buffer): Promise<DocumentSection[]> {
+  const zip = await JSZip.loadAsync(data);
+  const slides = Object.keys(zip.files)
+    .map((name) => ({ name, number: Number(/^ppt\/slides\/slide(\d+)\.xml$/.exec(name)?.[1]) }))
+    .filter((slide) => Number.isInteger(slide.number))
+    .sort((a, b) => a.number - b.number);
+
+  const sections: DocumentSection[] = [];
+  for (const slide of slides) {
+    const xml = await zip.files[slide.name].async("string");
+    const paragraphs = xml
+      .split(/<\/a:p>/)
+      .map((paragraph) =>
+        decodeEntities(Array.from(paragraph.matchAll(/<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>/g), (run) => run[1]).join("")).trim(),
+      )
+      .filter(Boolean);
+    if (paragraphs.length > 0) {
+      sections.push({ heading: paragraphs[0], text: paragraphs.join("\n"), page: slide.number });
+    }
+  }
+  return sections;
+}
+
+/**
+ * Splits a document into its natural sections (pages, headings or slides) with clean text.
+ */
+export async function parseDocument(fileName: string, data: Buffer): Promise<{ format: DocumentFormat; sections: DocumentSection[] }> {
+  const format = detectDocumentFormat(fileName);
+  if (!format) {
+    throw new Error(`Unsupported document type: ${fileName}`);
+  }
+
+  const parsed =
+    format === "pdf"
+      ? await parsePdf(data)
+      : format === "docx"
+        ? await parseDocx(data)
+        : format === "pptx"
+          ? await parsePptx(data)
+          : parseMarkdown(data);
+
+  const sections = parsed
+    .map((section) => ({
+      ...section,
+      heading: section.heading ? sanitizeExtractedText(section.heading).trim() || null : null,
+      text: sanitizeExtractedText(section.text).trim(),
+    }))
+    .filter((section) => section.text.length > 0);
+  return { format, sections };
+}
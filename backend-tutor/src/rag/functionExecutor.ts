@@ -5,6 +5,7 @@ import {
     compareCohorts,
     getActiveLearners,
     getAtRiskLearners,
+    getLearnerRiskScore,
     findLearnerCohort,
     searchLearnersByPartialName,
     getLearnerByAnyIdentifier,
@@ -134,9 +135,18 @@ export async function executeTutorFunction(
             return await getAtRiskLearners({
                 courseId,
                 cohortId: args.cohort_id,
-                thresholdPercent: args.threshold_percent || 50,
+                minLevel: args.min_level === "high" ? "high" : "medium",
             });
 
+        case "get_learner_risk_score": {
+            const res = await resolveIdentifier(courseId, args.identifier || args.learner_email);
+            if ('error' in res) return res;
+            return await getLearnerRiskScore({
+                courseId,
+                learnerEmail: res.email,
+            });
+        }
+
         case "find_learner_cohort":
             return await findLearnerCohort({
                 courseId,
@@ -568,6 +578,7 @@ export async function executeTutorFunction(
             return await getCohortPerformanceFactors({
                 courseId,
                 cohortId: args.cohort_id,
+                days: args.days,
             });
 
         case "get_progress_blockers": {
@@ -92,7 +92,7 @@ export const tutorFunctionSchemas = [
     },
     {
         name: "get_at_risk_learners",
-        description: "Get learners who are at risk of dropping out (low completion percentage). Use this for questions about struggling learners or learners who need help.",
+        description: "Get learners by their risk score (0-100), highest first, with the reasons behind each score (inactivity, failed quizzes, friction signals, assistant struggles, pace against peers). Use this for questions about at-risk learners or learners who need attention.",
         parameters: {
             type: "object",
             properties: {
@@ -100,12 +100,23 @@ export const tutorFunctionSchemas = [
                     type: "string",
                     description: "Optional cohort ID to filter by",
                 },
-                threshold_percent: {
-                    type: "number",
-                    description: "Completion percentage threshold. Learners below this are considered at risk (e.g., 50 for learners below 50%)",
+                min_level: {
+                    type: "string",
+                    enum: ["medium", "high"],
+                    description: "Lowest risk level to include. Defaults to 'medium'; use 'high' for only the most urgent learners",
                 },
             },
-            required: ["threshold_percent"],
+        },
+    },
+    {
+        name: "get_learner_risk_score",
+        description: "Explain one learner's risk score: the points each factor contributed and the measurements behind them. Use this for 'Why is [name] at risk?' or 'How at risk is [name]?'",
+        parameters: {
+            type: "object",
+            properties: {
+                identifier: { type: "string", description: "Name, email, or ID of the learner" },
+            },
+            required: ["identifier"],
         },
     },
     {
@@ -275,7 +286,7 @@ export const tutorFunctionSchemas = [
     },
     {
         name: "get_estimated_completion_date",
-        description: "Predict when a learner will finish the course based on their current rate.",
+        description: "Forecast when a learner will finish the course from the pace of their module completions and recent activity. Returns an estimated date with an earliest/latest range, a confidence level, and whether they are projected to miss their cohort's end date.",
         parameters: {
             type: "object",
             properties: {
@@ -585,7 +596,7 @@ export const tutorFunctionSchemas = [
     },
     {
         name: "get_dropout_risk_learners",
-        description: "Identify learners at high risk of dropping out based on low activity and progress. Use this for general course health checks.",
+        description: "Identify learners with a high risk score driven by inactivity or falling behind their peers. Use this for general course health checks.",
         parameters: {
             type: "object",
             properties: {},
@@ -593,7 +604,7 @@ export const tutorFunctionSchemas = [
     },
     {
         name: "get_struggling_learners",
-        description: "List learners who have very low completion percentages. Note: This only identifies WHO is struggling, not WHY.",
+        description: "List at-risk learners who are still active but struggling: failed quizzes, friction signals, or unhelpful assistant answers. Each result includes the reasons from their risk score.",
         parameters: {
             type: "object",
             properties: {
@@ -603,7 +614,7 @@ export const tutorFunctionSchemas = [
     },
     {
         name: "get_stagnant_learners",
-        description: "Identify learners who haven't made any progress in the last N days.",
+        description: "Identify learners with no activity in the last N days, as of the latest risk scoring.",
         parameters: {
             type: "object",
             properties: {
@@ -614,7 +625,7 @@ export const tutorFunctionSchemas = [
     },
     {
         name: "get_learners_needing_help",
-        description: "Identify learners who have failed multiple quiz attempts.",
+        description: "Identify learners who failed a module's quiz 3 or more times without passing it.",
         parameters: {
             type: "object",
             properties: {},
@@ -752,11 +763,12 @@ export const tutorFunctionSchemas = [
     },
     {
         name: "get_cohort_performance_factors",
-        description: "Analyze the key factors driving a cohort's performance.",
+        description: "Compare a cohort against the rest of the course on activity events by status, quiz pass rate and attempts per module, chatbot question volume and custom-question share, and time-of-day activity mix. Returns factors ranked by effect size (Cohen's d); only cite factors listed in notableFactors as explanations.",
         parameters: {
             type: "object",
             properties: {
                 cohort_id: { type: "string", description: "ID of the cohort" },
+                days: { type: "number", description: "Lookback window in days for activity and chatbot volume (default 30)" },
             },
             required: ["cohort_id"],
         },
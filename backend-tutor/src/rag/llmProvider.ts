@@ -0,0 +1,108 @@
+import { env } from "../config/env";
+import { createOpenAiProvider } from "./providers/openAiProvider";
+import { createFakeLlmProvider, loadFakeLlmScript } from "./providers/fakeLlmProvider";
+
+export type LlmToolCall = {
+  id: string;
+  name: string;
+  // Raw JSON text as produced by the model; callers parse it
+  arguments: string;
+};
+
+export type LlmMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; toolCalls?: LlmToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export type LlmToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type LlmChatRequest = {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: LlmToolDefinition[];
+  toolChoice?: "auto" | "none";
+  // When set the provider streams and reports answer text as it arrives
+  onToken?: (delta: string) => void;
+  // Cancels the request, e.g. once the client waiting for the answer has gone
+  signal?: AbortSignal;
+};
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type LlmChatResponse = {
+  content: string;
+  toolCalls: LlmToolCall[];
+  usage: LlmUsage;
+  model: string;
+};
+
+export type LlmEmbeddingResponse = {
+  embedding: number[];
+  usage: LlmUsage;
+  model: string;
+};
+
+export type LlmEmbeddingBatchResponse = {
+  // Same order as the input texts
+  embeddings: number[][];
+  usage: LlmUsage;
+  model: string;
+};
+
+export interface LlmProvider {
+  readonly name: string;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+  embed(text: string): Promise<LlmEmbeddingResponse>;
+  embedMany(texts: string[]): Promise<LlmEmbeddingBatchResponse>;
+}
+
+let provider: LlmProvider | null = null;
+
+function createConfiguredProvider(): LlmProvider {
+  switch (env.llmProvider) {
+    case "fake":
+      return createFakeLlmProvider({
+        rules: env.llmFakeScriptPath ? loadFakeLlmScript(env.llmFakeScriptPath) : [],
+      });
+    case "openai-compatible":
+      return createOpenAiProvider({
+        name: "openai-compatible",
+        apiKey: env.llmApiKey ?? "not-needed",
+        baseUrl: env.llmBaseUrl,
+        chatModel: env.llmModel,
+        embeddingModel: env.embeddingModel,
+      });
+    case "openai":
+    default:
+      return createOpenAiProvider({
+        name: "openai",
+        apiKey: env.openAiApiKey ?? "",
+        chatModel: env.llmModel,
+        embeddingModel: env.embeddingModel,
+      });
+  }
+}
+
+/**
+ * Returns the provider selected by LLM_PROVIDER, created on first use.
+ */
+export function getLlmProvider(): LlmProvider {
+  provider ??= createConfiguredProvider();
+  return provider;
+}
+
+/**
+ * Swaps the active provider, e.g. for a scripted fake in tests. Pass null to go back to config.
+ */
+export function setLlmProvider(next: LlmProvider | null): void {
+  provider = next;
+}
@@ -1,23 +1,59 @@
-import OpenAI from "openai";
 import { env } from "../config/env";
 import { PERSONA_KEYS } from "../services/personaPromptTemplates";
+import { recordLlmUsage, type LlmUsageScope, type LlmUsageTag } from "../services/llmUsageService";
+import { getLlmProvider, type LlmMessage, type LlmProvider, type LlmToolDefinition, type LlmUsage } from "./llmProvider";
+
+/**
+ * Runs one provider call and writes it to the usage ledger. Ledger failures are logged, never thrown.
+ */
+async function meteredCall<T extends { usage: LlmUsage; model: string }>(
+  tag: LlmUsageTag,
+  operation: "chat" | "embedding",
+  call: (provider: LlmProvider) => Promise<T>,
+): Promise<T> {
+  const provider = getLlmProvider();
+  const startedAt = Date.now();
+  const record = (entry: { model: string; usage: LlmUsage; status: "success" | "error"; errorMessage?: string }) => {
+    void recordLlmUsage({ ...tag, ...entry, operation, provider: provider.name, latencyMs: Date.now() - startedAt }).catch(
+      (error) => console.error("Failed to record LLM usage", error),
+    );
+  };
 
+  try {
+    const result = await call(provider);
+    record({ model: result.model, usage: result.usage, status: "success" });
+    return result;
+  } catch (error) {
+    record({
+      model: operation === "embedding" ? env.embeddingModel : env.llmModel,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      status: "error",
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
 
-const client = new OpenAI({
-  apiKey: env.openAiApiKey,
-});
-
-export async function createEmbedding(text: string): Promise<number[]> {
-  const response = await client.embeddings.create({
-    model: env.embeddingModel,
-    input: text,
-  });
+/**
+ * Embeds several texts in one provider call; results keep the input order.
+ */
+export async function createEmbeddings(texts: string[], tag: LlmUsageTag): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+  const { embeddings } = await meteredCall(tag, "embedding", (provider) => provider.embedMany(texts));
+  if (embeddings.some((embedding) => embedding.length === 0)) {
+    throw new Error("LLM provider returned an empty embedding vector");
+  }
+  return embeddings;
+}
 
-  const vector = response.data[0]?.embedding;
-  if (!vector) {
-    throw new Error("OpenAI did not return an embedding vector");
+export async function createEmbedding(text: string, tag: LlmUsageTag): Promise<number[]> {
+  const { embedding } = await meteredCall(tag, "embedding", (provider) => provider.embed(text));
+  if (embedding.length === 0) {
+    throw new Error("LLM provider did not return an embedding vector");
   }
-  return vector;
+  return embedding;
 }
 
 async function runChatCompletion(options: {
@@ -25,28 +61,31 @@ async function runChatCompletion(options: {
   userPrompt: string;
   temperature?: number;
   maxTokens?: number;
+  usage: LlmUsageTag;
 }): Promise<string> {
-  const completion = await client.chat.completions.create({
-    model: env.llmModel,
-    temperature: options.temperature ?? 0.2,
-    messages: [
-      { role: "system", content: options.systemPrompt },
-      { role: "user", content: options.userPrompt },
-    ],
-    max_tokens: options.maxTokens ?? 500,
-  });
-
-  const message = completion.choices[0]?.message?.content?.trim();
+  const completion = await meteredCall(options.usage, "chat", (provider) =>
+    provider.chat({
+      temperature: options.temperature ?? 0.2,
+      messages: [
+        { role: "system", content: options.systemPrompt },
+        { role: "user", content: options.userPrompt },
+      ],
+      maxTokens: options.maxTokens ?? 500,
+    }),
+  );
+
+  const message = completion.content.trim();
   if (!message) {
-    throw new Error("OpenAI did not return a chat completion");
+    throw new Error("LLM provider did not return a chat completion");
   }
   return message;
 }
 
-export async function generateAnswerFromContext(prompt: string): Promise<string> {
+export async function generateAnswerFromContext(prompt: string, scope: LlmUsageScope = {}): Promise<string> {
   return runChatCompletion({
     systemPrompt: "You are Ottolearn's AI mentor. Answer with warmth and clarity using only the provided course material.",
     userPrompt: prompt,
+    usage: { ...scope, feature: "learner_rag" },
   });
 }
 
@@ -55,6 +94,7 @@ export async function rewriteFollowUpQuestion(options: {
   history?: Array<{ role: "user" | "assistant"; content: string }>;
   lastAssistantMessage?: string;
   summary?: string | null;
+  scope?: LlmUsageScope;
 }): Promise<string> {
   const summaryBlock = options.summary?.trim()
     ? `Conversation summary:\n${options.summary.trim()}`
@@ -88,12 +128,15 @@ export async function rewriteFollowUpQuestion(options: {
     userPrompt: prompt,
     temperature: 0.1,
     maxTokens: 120,
+    usage: { ...options.scope, feature: "rewrite" },
   });
 }
 
 export async function summarizeConversation(options: {
   previousSummary?: string | null;
   messages: Array<{ role: "user" | "assistant"; content: string }>;
+  audience?: "learner" | "tutor";
+  scope?: LlmUsageScope;
 }): Promise<string> {
   const historyBlock = options.messages
     .map((msg) => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`)
@@ -102,7 +145,9 @@ export async function summarizeConversation(options: {
     ? `Existing summary:\n${options.previousSummary.trim()}`
     : "";
   const prompt = [
-    "Summarize the conversation so far. Focus on the learner's goals, questions, and key definitions.",
+    options.audience === "tutor"
+      ? "Summarize the conversation so far. Focus on the tutor's questions, the learners and cohorts discussed, and the figures reported."
+      : "Summarize the conversation so far. Focus on the learner's goals, questions, and key definitions.",
     "Do not invent facts. Keep it concise and useful for future follow-up questions.",
     "",
     summaryBlock,
@@ -118,16 +163,69 @@ export async function summarizeConversation(options: {
     userPrompt: prompt,
     temperature: 0.2,
     maxTokens: 220,
+    usage: { ...options.scope, feature: "summarize" },
   });
 }
 
+// Tool results beyond this are cut so one large listing cannot eat the token budget
+const MAX_TOOL_RESULT_CHARS = 12000;
+
+export type CopilotToolTrace = {
+  iteration: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: "ok" | "error" | "skipped";
+  error?: string;
+  durationMs: number;
+};
+
+export type TutorCopilotResult = {
+  answer: string;
+  trace: CopilotToolTrace[];
+  usage: { iterations: number; toolCalls: number; totalTokens: number };
+};
+
+export type CopilotStreamEvent =
+  | { type: "tool_call"; iteration: number; name: string; arguments: Record<string, unknown>; label: string }
+  | { type: "tool_result"; step: CopilotToolTrace }
+  | { type: "token"; delta: string };
+
+const TOOL_VERBS: Record<string, string> = {
+  get: "Looking up",
+  compare: "Comparing",
+  search: "Searching",
+  find: "Finding",
+  rank: "Ranking",
+  validate: "Checking",
+};
+
+/**
+ * Turns a function name such as get_cohort_stats into "Looking up cohort stats…" for progress updates.
+ */
+export function describeToolCall(name: string): string {
+  const [verb, ...rest] = name.split("_");
+  const action = TOOL_VERBS[verb];
+  return action ? `${action} ${rest.join(" ")}…` : `Running ${name.replace(/_/g, " ")}…`;
+}
+
+/**
+ * Answers a tutor question by letting the model call data functions over several rounds,
+ * running parallel calls together, until it answers or the per-question budget runs out.
+ * Pass onEvent to receive tool progress and answer tokens as they happen.
+ */
 export async function generateTutorCopilotAnswer(options: {
   question: string;
+  userId: string;
   courseId: string;
   cohortId?: string;
   history?: Array<{ role: "user" | "assistant"; content: string }>;
-}): Promise<string> {
-  const { question, courseId, cohortId, history = [] } = options;
+  summary?: string | null;
+  onEvent?: (event: CopilotStreamEvent) => void;
+  // Stops the tool loop and any model call in flight, e.g. when a streaming client disconnects
+  signal?: AbortSignal;
+}): Promise<TutorCopilotResult> {
+  const { question, userId, courseId, cohortId, history = [], summary, onEvent, signal } = options;
+  const scope: LlmUsageScope = { userId, courseId, cohortId };
 
   // Import function schemas and executor
   const { tutorFunctionSchemas } = await import("./functionSchemas");
@@ -155,8 +253,10 @@ export async function generateTutorCopilotAnswer(options: {
     "CRITICAL RULES:\n" +
     "• You can ONLY access data for the current course (courseId is automatically provided)\n" +
     "• All data comes from function calls - use them to get accurate information\n" +
+    "• You can call several functions at once and over several steps. Chain them when one answer depends on another, e.g. get_top_learners with sort_order='asc' first, then get_learner_activity_signals for each learner it returns\n" +
     "• When asked 'Why' a student is struggling or 'What frictions' are seen, you MUST prioritize diagnostic tools: get_learner_activity_signals, get_stuck_indicators, and get_module_failure_reasons.\n" +
     "• Specific friction signals ('Idle detected', 'Browser tab hidden', 'Learner signaled friction') are highly important. If you find these in the function results, EXPLICITLY state them in your answer.\n" +
+    "• 'At risk', 'dropping out', 'struggling', 'stagnant' and 'needs help' all come from the same stored risk score. Quote the score, level and reasons those functions return; use get_learner_risk_score to explain one learner's score.\n" +
     "• When asked for 'top N' or 'best N', call get_top_learners with sort_order='desc'\n" +
     "• When asked for 'bottom N' or 'worst N', call get_top_learners with sort_order='asc'\n" +
     "• If a cohort is mentioned, use the cohort_id parameter\n" +
@@ -167,6 +267,11 @@ export async function generateTutorCopilotAnswer(options: {
     `Current context: courseId=${courseId}${cohortId ? `, cohortId=${cohortId} (${currentCohortName})` : ''}\n\n` +
     `IMPORTANT: When the user mentions a cohort by name (e.g., "Cohort 1"), you MUST use the corresponding cohort_id from the list above.`;
 
+  // Older turns of a long conversation arrive folded into a summary
+  const summaryMessage: LlmMessage[] = summary?.trim()
+    ? [{ role: "system", content: `Summary of earlier conversation (figures may be out of date; call functions again if needed):\n${summary.trim()}` }]
+    : [];
+
   // Resolve potential follow-ups to standalone questions
   let standaloneQuestion = question;
   if (history.length > 0) {
@@ -174,6 +279,7 @@ export async function generateTutorCopilotAnswer(options: {
       standaloneQuestion = await rewriteFollowUpQuestion({
         question,
         history,
+        scope,
       });
       console.log(`[REWRITE] "${question}" -> "${standaloneQuestion}"`);
     } catch (rewriteErr) {
@@ -181,73 +287,109 @@ export async function generateTutorCopilotAnswer(options: {
     }
   }
 
-  const messages: any[] = [
+  const messages: LlmMessage[] = [
     { role: "system", content: systemMessage },
+    ...summaryMessage,
     ...history,
     { role: "user", content: standaloneQuestion },
   ];
 
-  try {
-    // First API call: Let AI decide which function to call
-    const firstResponse = await client.chat.completions.create({
-      model: env.llmModel,
-      messages,
-      functions: tutorFunctionSchemas,
-      function_call: "auto",
-      temperature: 0.1,
-    });
-
-    const firstChoice = firstResponse.choices[0];
-    const functionCall = firstChoice?.message?.function_call;
+  const tools: LlmToolDefinition[] = tutorFunctionSchemas;
+  const trace: CopilotToolTrace[] = [];
+  const usage = { iterations: 0, toolCalls: 0, totalTokens: 0 };
 
-    // If AI wants to call a function
-    if (functionCall) {
-      console.log(`[FUNCTION CALL] ${functionCall.name}(${functionCall.arguments})`);
+  try {
+    for (let iteration = 1; iteration <= env.copilotMaxIterations; iteration++) {
+      signal?.throwIfAborted();
+      usage.iterations = iteration;
+      const withinBudget =
+        iteration < env.copilotMaxIterations &&
+        usage.toolCalls < env.copilotMaxToolCalls &&
+        usage.totalTokens < env.copilotMaxTokens;
+
+      if (!withinBudget) {
+        messages.push({
+          role: "system",
+          content: "The data budget for this question is used up. Answer now with the data gathered so far and say briefly what could not be checked.",
+        });
+      }
 
-      // Execute the function
-      const functionArgs = JSON.parse(functionCall.arguments);
-      const functionResult = await executeTutorFunction(
-        functionCall.name,
-        functionArgs,
-        courseId
+      // Text streamed ahead of a tool call is only a preamble; clients drop it when the tool_call event arrives
+      const response = await meteredCall({ ...scope, feature: "copilot" }, "chat", (provider) =>
+        provider.chat({
+          messages,
+          tools,
+          toolChoice: withinBudget ? "auto" : "none",
+          temperature: 0.1,
+          onToken: onEvent ? (delta) => onEvent({ type: "token", delta }) : undefined,
+          signal,
+        }),
       );
+      usage.totalTokens += response.usage.totalTokens;
+      const toolCalls = response.toolCalls;
+
+      // No more data requested: this is the final answer
+      if (toolCalls.length === 0) {
+        const answer = response.content.trim();
+        if (!answer) {
+          throw new Error("LLM provider did not return a response");
+        }
+        return { answer, trace, usage };
+      }
 
-      console.log(`[FUNCTION RESULT]`, JSON.stringify(functionResult).substring(0, 200));
-
-      // Add function call and result to message history
       messages.push({
         role: "assistant",
-        content: null,
-        function_call: functionCall,
-      });
-      messages.push({
-        role: "function",
-        name: functionCall.name,
-        content: JSON.stringify(functionResult),
-      });
-
-      // Second API call: Let AI format the result
-      const secondResponse = await client.chat.completions.create({
-        model: env.llmModel,
-        messages,
-        temperature: 0.2,
+        content: response.content || null,
+        toolCalls,
       });
 
-      const answer = secondResponse.choices[0]?.message?.content?.trim();
-      if (!answer) {
-        throw new Error("OpenAI did not return a response after function call");
-      }
-
-      return answer;
-    }
+      // Every call must get a tool message back, including the ones skipped for budget
+      const results = await Promise.all(
+        toolCalls.map(async (call) => {
+          const entry: CopilotToolTrace = {
+            iteration,
+            name: call.name,
+            arguments: {},
+            status: "ok",
+            durationMs: 0,
+          };
+          trace.push(entry);
+
+          if (usage.toolCalls >= env.copilotMaxToolCalls || signal?.aborted) {
+            entry.status = "skipped";
+            entry.error = signal?.aborted ? "The tutor disconnected" : "Tool call budget exhausted";
+            onEvent?.({ type: "tool_result", step: entry });
+            return { call, content: JSON.stringify({ error: entry.error }) };
+          }
+          usage.toolCalls += 1;
+
+          const startedAt = Date.now();
+          try {
+            entry.arguments = JSON.parse(call.arguments || "{}");
+            onEvent?.({ type: "tool_call", iteration, name: entry.name, arguments: entry.arguments, label: describeToolCall(entry.name) });
+            console.log(`[FUNCTION CALL] ${call.name}(${call.arguments})`);
+            const result = await executeTutorFunction(call.name, entry.arguments, courseId);
+            const content = JSON.stringify(result ?? null);
+            console.log(`[FUNCTION RESULT]`, content.substring(0, 200));
+            return { call, content: content.length > MAX_TOOL_RESULT_CHARS ? `${content.slice(0, MAX_TOOL_RESULT_CHARS)}...[truncated]` : content };
+          } catch (error) {
+            entry.status = "error";
+            entry.error = error instanceof Error ? error.message : String(error);
+            console.warn(`[FUNCTION ERROR] ${call.name}:`, entry.error);
+            return { call, content: JSON.stringify({ error: entry.error }) };
+          } finally {
+            entry.durationMs = Date.now() - startedAt;
+            onEvent?.({ type: "tool_result", step: entry });
+          }
+        }),
+      );
 
-    // If AI doesn't need a function call (e.g., general question)
-    const answer = firstChoice?.message?.content?.trim();
-    if (!answer) {
-      throw new Error("OpenAI did not return a response");
+      results.forEach(({ call, content }) => {
+        messages.push({ role: "tool", toolCallId: call.id, content });
+      });
     }
 
-    return answer;
+    throw new Error("Tutor copilot ran out of iterations without an answer");
   } catch (error) {
     console.error("[TUTOR COPILOT ERROR] Full error:", error);
     console.error("[TUTOR COPILOT ERROR] Error message:", error instanceof Error ? error.message : String(error));
@@ -261,6 +403,7 @@ export async function improveEmailMessage(options: {
   tutorName: string;
   learnerName: string;
   courseName: string;
+  scope?: LlmUsageScope;
 }): Promise<string> {
   const { originalMessage, tutorName, learnerName, courseName } = options;
 
@@ -303,11 +446,51 @@ Rewrite this message following the guidelines above.`;
     userPrompt,
     temperature: 0.7,
     maxTokens: 500,
+    usage: { ...options.scope, feature: "email_improve" },
+  });
+}
+
+/**
+ * Scores how well each passage answers the question, 0 (irrelevant) to 1 (answers it directly).
+ * Passages the model skips score 0.
+ */
+export async function rerankPassages(options: {
+  question: string;
+  passages: string[];
+  scope?: LlmUsageScope;
+}): Promise<number[]> {
+  if (options.passages.length === 0) {
+    return [];
+  }
+
+  const passagesBlock = options.passages
+    .map((passage, index) => `[${index + 1}] ${passage.replace(/\s+/g, " ").slice(0, 1200)}`)
+    .join("\n\n");
+  const raw = await runChatCompletion({
+    systemPrompt:
+      "You rank course passages for a question. Return JSON only: an object whose keys are passage numbers and values are relevance scores from 0 to 10.",
+    userPrompt: `Question: ${options.question}\n\nPassages:\n${passagesBlock}`,
+    temperature: 0,
+    maxTokens: 200,
+    usage: { ...options.scope, feature: "rerank" },
+  });
+
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start === -1 || end === -1) {
+    throw new Error("Rerank response did not include JSON.");
+  }
+
+  const scores = JSON.parse(raw.slice(start, end + 1)) as Record<string, unknown>;
+  return options.passages.map((_, index) => {
+    const score = Number(scores[String(index + 1)]);
+    return Number.isFinite(score) ? Math.min(Math.max(score / 10, 0), 1) : 0;
   });
 }
 
 export async function classifyLearnerPersona(options: {
   responses: Array<{ question: string; answer: string }>;
+  scope?: LlmUsageScope;
 }): Promise<{ personaKey: string; reasoning: string }> {
   const responsesBlock = options.responses
     .map((item, index) => `Q${index + 1}: ${item.question}\nA${index + 1}: ${item.answer}`)
@@ -337,6 +520,7 @@ export async function classifyLearnerPersona(options: {
     userPrompt: prompt,
     temperature: 0.1,
     maxTokens: 200,
+    usage: { ...options.scope, feature: "persona_classify" },
   });
 
   const start = raw.indexOf("{");
@@ -0,0 +1,102 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { LlmChatRequest, LlmChatResponse, LlmMessage, LlmProvider, LlmUsage } from "../llmProvider";
+
+export const FAKE_EMBEDDING_DIMENSIONS = 1536;
+const FAKE_MODEL = "fake-llm";
+
+/**
+ * One scripted behaviour. A rule applies when `when` is a case-insensitive substring of the
+ * latest user message (or is omitted). Tool calls are made once per question; after their
+ * results come back the same rule answers with `reply`.
+ */
+export type FakeLlmRule = {
+  when?: string;
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+  reply?: string;
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const usageFor = (prompt: string, completion: string): LlmUsage => {
+  const promptTokens = estimateTokens(prompt);
+  const completionTokens = estimateTokens(completion);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
+
+const messageText = (message: LlmMessage) => message.content ?? "";
+
+export function loadFakeLlmScript(path: string): FakeLlmRule[] {
+  const parsed = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(parsed)) {
+    throw new Error("Fake LLM script must be a JSON array of rules");
+  }
+  return parsed as FakeLlmRule[];
+}
+
+/**
+ * Bag-of-words hashing into a fixed-size unit vector, so identical texts embed identically
+ * and texts sharing words land close together without any model.
+ */
+export function hashEmbedding(text: string, dimensions: number = FAKE_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  tokens.forEach((token) => {
+    const digest = createHash("sha256").update(token).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    vector[index] += digest[4] % 2 === 0 ? 1 : -1;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
+
+export function createFakeLlmProvider(options: { rules?: FakeLlmRule[] } = {}): LlmProvider {
+  const rules = options.rules ?? [];
+  let callCounter = 0;
+
+  async function chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    request.signal?.throwIfAborted();
+    const lastUserIndex = request.messages.map((message) => message.role).lastIndexOf("user");
+    const question = lastUserIndex >= 0 ? messageText(request.messages[lastUserIndex]) : "";
+    const toolResultsSeen = request.messages.slice(lastUserIndex + 1).some((message) => message.role === "tool");
+    const canCallTools = Boolean(request.tools?.length) && request.toolChoice !== "none" && !toolResultsSeen;
+    const prompt = request.messages.map(messageText).join("\n");
+
+    const rule = rules.find((candidate) => !candidate.when || question.toLowerCase().includes(candidate.when.toLowerCase()));
+    const toolNames = new Set(request.tools?.map((tool) => tool.name));
+
+    if (rule?.toolCalls && canCallTools) {
+      const toolCalls = rule.toolCalls
+        .filter((call) => toolNames.has(call.name))
+        .map((call) => ({
+          id: `fake_call_${++callCounter}`,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments ?? {}),
+        }));
+      if (toolCalls.length > 0) {
+        return { content: "", toolCalls, usage: usageFor(prompt, ""), model: FAKE_MODEL };
+      }
+    }
+
+    const content = rule?.reply ?? `[fake] ${question.replace(/\s+/g, " ").trim().slice(0, 200)}`;
+    if (request.onToken) {
+      content.split(/(?<=\s)/).forEach((piece) => request.onToken!(piece));
+    }
+    return { content, toolCalls: [], usage: usageFor(prompt, content), model: FAKE_MODEL };
+  }
+
+  async function embed(text: string) {
+    return { embedding: hashEmbedding(text), usage: usageFor(text, ""), model: FAKE_MODEL };
+  }
+
+  async function embedMany(texts: string[]) {
+    return { embeddings: texts.map((text) => hashEmbedding(text)), usage: usageFor(texts.join("\n"), ""), model: FAKE_MODEL };
+  }
+
+  return { name: "fake", chat, embed, embedMany };
+}
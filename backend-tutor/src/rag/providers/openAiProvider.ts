@@ -0,0 +1,152 @@
+import OpenAI from "openai";
+import type { LlmChatRequest, LlmChatResponse, LlmMessage, LlmProvider, LlmToolCall, LlmUsage } from "../llmProvider";
+
+type OpenAiProviderOptions = {
+  name: string;
+  apiKey: string;
+  // Set for OpenAI-compatible servers such as Ollama, vLLM or LM Studio
+  baseUrl?: string;
+  chatModel: string;
+  embeddingModel: string;
+};
+
+const toOpenAiMessage = (message: LlmMessage): OpenAI.Chat.ChatCompletionMessageParam => {
+  switch (message.role) {
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content,
+        ...(message.toolCalls && message.toolCalls.length > 0
+          ? {
+              tool_calls: message.toolCalls.map((call) => ({
+                id: call.id,
+                type: "function" as const,
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }
+          : {}),
+      };
+    case "tool":
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+};
+
+const toUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null): LlmUsage => ({
+  promptTokens: usage?.prompt_tokens ?? 0,
+  completionTokens: usage?.completion_tokens ?? 0,
+  totalTokens: usage?.total_tokens ?? 0,
+});
+
+export function createOpenAiProvider(options: OpenAiProviderOptions): LlmProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    ...(options.baseUrl ? { baseURL: options.baseUrl } : {}),
+  });
+
+  async function chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const params = {
+      model: options.chatModel,
+      messages: request.messages.map(toOpenAiMessage),
+      temperature: request.temperature ?? 0.2,
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.tools && request.tools.length > 0
+        ? {
+            tools: request.tools.map((tool) => ({ type: "function" as const, function: tool })),
+            tool_choice: request.toolChoice ?? "auto",
+          }
+        : {}),
+    };
+
+    const requestOptions = request.signal ? { signal: request.signal } : undefined;
+
+    if (!request.onToken) {
+      const completion = await client.chat.completions.create(params, requestOptions);
+      const message = completion.choices[0]?.message;
+      return {
+        content: message?.content ?? "",
+        toolCalls: (message?.tool_calls ?? []).flatMap((call) =>
+          call.type === "function" ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }] : [],
+        ),
+        usage: toUsage(completion.usage),
+        model: completion.model,
+      };
+    }
+
+    const stream = await client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, requestOptions);
+
+    // Tool calls arrive as fragments keyed by index and are stitched back together
+    let content = "";
+    let usage = toUsage(null);
+    let model = options.chatModel;
+    const toolCalls: LlmToolCall[] = [];
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = toUsage(chunk.usage);
+      }
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        content += delta.content;
+        request.onToken(delta.content);
+      }
+      delta?.tool_calls?.forEach((fragment) => {
+        const call = (toolCalls[fragment.index] ??= { id: "", name: "", arguments: "" });
+        call.id = fragment.id ?? call.id;
+        call.name += fragment.function?.name ?? "";
+        call.arguments += fragment.function?.arguments ?? "";
+      });
+    }
+
+    return { content, toolCalls: toolCalls.filter(Boolean), usage, model };
+  }
+
+  async function embed(text: string) {
+    const response = await client.embeddings.create({
+      model: options.embeddingModel,
+      input: text,
+    });
+
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) {
+      throw new Error(`${options.name} did not return an embedding vector`);
+    }
+    return {
+      embedding,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+      model: response.model,
+    };
+  }
+
+  async function embedMany(texts: string[]) {
+    const response = await client.embeddings.create({
+      model: options.embeddingModel,
+      input: texts,
+    });
+
+    const embeddings = [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    if (embeddings.length !== texts.length) {
+      throw new Error(`${options.name} returned ${embeddings.length} embeddings for ${texts.length} inputs`);
+    }
+    return {
+      embeddings,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+      model: response.model,
+    };
+  }
+
+  return { name: options.name, chat, embed, embedMany };
+}
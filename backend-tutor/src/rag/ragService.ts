@@ -1,10 +1,20 @@
+import { createHash } from "node:crypto";
 import { Prisma } from "@prisma/client";
-import { createEmbedding, generateAnswerFromContext } from "./openAiClient";
+import { createEmbedding, generateAnswerFromContext, rerankPassages } from "./openAiClient";
 import { scrubPossiblePii } from "./pii";
-import { logRagUsage } from "./usageLogger";
 import { prisma } from "../services/prisma";
+import { env } from "../config/env";
+import type { LlmUsageScope } from "../services/llmUsageService";
 
-type ChunkPayload = {
+// Where a chunk came from, so answers can cite it and link back to the lesson
+type ChunkProvenance = {
+  sourceDocument: string | null;
+  sourcePage: number | null;
+  topicId: string | null;
+  moduleNo: number | null;
+};
+
+export type ChunkPayload = Partial<ChunkProvenance> & {
   chunkId: string;
   content: string;
   courseId: string;
@@ -12,10 +22,35 @@ type ChunkPayload = {
   embedding: number[];
 };
 
-type QueryContext = {
+// A chunk as produced by ingestion, before it has a vector
+export type ChunkDraft = Omit<ChunkPayload, "embedding">;
+
+export type ChunkSyncResult = {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  // Distinct texts actually sent to the embedding model
+  embedded: number;
+};
+
+export type RetrievalMode = "hybrid" | "vector" | "keyword";
+
+// Where the learner is in the course; retrieval stays local to it when it can
+export type RetrievalFocus = {
+  topicId: string;
+  moduleNo: number;
+  // Never draw on modules after the current one, even when falling back to the whole course
+  noSpoilers?: boolean;
+};
+
+export type QueryContext = ChunkProvenance & {
   chunkId: string;
   content: string;
+  // Fused rank score, or the rerank score when reranking ran
   score: number;
+  vectorScore: number | null;
+  keywordScore: number | null;
 };
 
 type ConversationTurn = {
@@ -23,9 +58,35 @@ type ConversationTurn = {
   content: string;
 };
 
-const VECTOR_QUERY_LIMIT = 5;
+// What the answer was generated from, kept with the message for answer review
+export type RetrievedContextSnapshot = ChunkProvenance & {
+  chunkId: string;
+  content: string;
+  score: number;
+};
+
+export type AssistantCitation = ChunkProvenance & {
+  // Matches the [n] marker in the answer text
+  index: number;
+  chunkId: string;
+  snippet: string;
+  topicName: string | null;
+};
+
+const CONTEXT_LIMIT = 5;
+const CANDIDATE_LIMIT = 20;
+const RERANK_CANDIDATES = 10;
+// Reciprocal rank fusion constant; damps the top ranks so neither list dominates the other
+const RRF_K = 60;
+// Fused-score multiplier for chunks from the learner's current topic
+const CURRENT_TOPIC_BOOST = 1.25;
+// Fewer relevant chunks than this within the current topic and earlier modules widens the search
+const MIN_LOCAL_CONTEXTS = 2;
 const EMBEDDING_DIMENSIONS = 1536;
+const SNIPPET_LENGTH = 220;
 const INSERT_BATCH_SIZE = 50;
+// Large sources can take a while to write; the default interactive transaction timeout is 5s
+const SYNC_TRANSACTION_TIMEOUT_MS = 60_000;
 
 export async function replaceCourseChunks(courseTitle: string, chunks: ChunkPayload[]): Promise<void> {
   if (chunks.length === 0) {
@@ -37,31 +98,164 @@ export async function replaceCourseChunks(courseTitle: string, chunks: ChunkPayl
     throw new Error("Chunks are missing course identifiers.");
   }
 
-  await prisma.$executeRaw(
-    Prisma.sql`
-      DELETE FROM course_chunks
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.$executeRaw(
+        Prisma.sql`
+          DELETE FROM course_chunks
+          WHERE course_id = ${courseId}
+        `,
+      );
+      await insertChunks(tx, chunks);
+    },
+    { timeout: SYNC_TRANSACTION_TIMEOUT_MS },
+  );
+}
+
+export function hashChunkContent(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+/**
+ * Brings one source document's chunks in line with `drafts`. Only content the course has never
+ * embedded is sent to `embed`; chunks whose text merely moved reuse their stored vector, chunks
+ * the source no longer produces are removed, and the swap runs in one transaction so retrieval
+ * never sees a half-indexed source. The first sync also clears the course's legacy chunks that
+ * predate per-source provenance.
+ */
+export async function syncSourceChunks(
+  courseId: string,
+  sourceDocument: string,
+  drafts: ChunkDraft[],
+  embed: (texts: string[]) => Promise<number[][]>,
+): Promise<ChunkSyncResult> {
+  const existing = await prisma.$queryRaw<
+    Array<{
+      chunk_id: string;
+      content_hash: string | null;
+      position: number;
+      source_page: number | null;
+      topic_id: string | null;
+      module_no: number | null;
+    }>
+  >(Prisma.sql`
+    SELECT chunk_id, content_hash, position, source_page, topic_id::text AS topic_id, module_no
+    FROM course_chunks
+    WHERE course_id = ${courseId}
+      AND source_document = ${sourceDocument}
+  `);
+  const existingById = new Map(existing.map((row) => [row.chunk_id, row]));
+
+  const result: ChunkSyncResult = { added: 0, updated: 0, removed: 0, unchanged: 0, embedded: 0 };
+  const changed: Array<ChunkDraft & { contentHash: string }> = [];
+  drafts.forEach((draft) => {
+    const contentHash = hashChunkContent(draft.content);
+    const current = existingById.get(draft.chunkId);
+    if (!current) {
+      result.added += 1;
+      changed.push({ ...draft, contentHash });
+    } else if (
+      current.content_hash !== contentHash ||
+      current.position !== draft.position ||
+      current.source_page !== (draft.sourcePage ?? null) ||
+      current.topic_id !== (draft.topicId ?? null) ||
+      current.module_no !== (draft.moduleNo ?? null)
+    ) {
+      result.updated += 1;
+      changed.push({ ...draft, contentHash });
+    } else {
+      result.unchanged += 1;
+    }
+  });
+
+  const draftIds = new Set(drafts.map((draft) => draft.chunkId));
+  const removedIds = existing.map((row) => row.chunk_id).filter((chunkId) => !draftIds.has(chunkId));
+  result.removed = removedIds.length;
+
+  // Vectors already stored anywhere in the course are reused rather than paid for again
+  const embeddingByHash = new Map<string, number[]>();
+  const wantedHashes = Array.from(new Set(changed.map((chunk) => chunk.contentHash)));
+  if (wantedHashes.length > 0) {
+    const known = await prisma.$queryRaw<Array<{ content_hash: string; embedding: string }>>(Prisma.sql`
+      SELECT DISTINCT ON (content_hash) content_hash, embedding::text AS embedding
+      FROM course_chunks
       WHERE course_id = ${courseId}
-    `,
+        AND content_hash IN (${Prisma.join(wantedHashes)})
+    `);
+    known.forEach((row) => embeddingByHash.set(row.content_hash, JSON.parse(row.embedding) as number[]));
+  }
+
+  const toEmbed = wantedHashes.filter((hash) => !embeddingByHash.has(hash));
+  if (toEmbed.length > 0) {
+    const contentByHash = new Map(changed.map((chunk) => [chunk.contentHash, chunk.content]));
+    const embeddings = await embed(toEmbed.map((hash) => contentByHash.get(hash) ?? ""));
+    if (embeddings.length !== toEmbed.length) {
+      throw new Error("Embedding count does not match the chunks sent.");
+    }
+    toEmbed.forEach((hash, index) => embeddingByHash.set(hash, embeddings[index]));
+    result.embedded = toEmbed.length;
+  }
+
+  await prisma.$transaction(
+    async (tx) => {
+      if (removedIds.length > 0) {
+        await tx.$executeRaw(
+          Prisma.sql`
+            DELETE FROM course_chunks
+            WHERE chunk_id IN (${Prisma.join(removedIds)})
+          `,
+        );
+      }
+      // Chunks from the old whole-course import carry no source; once material is synced per
+      // source they would only duplicate it in retrieval. Their vectors were reused above.
+      result.removed += await tx.$executeRaw(
+        Prisma.sql`
+          DELETE FROM course_chunks
+          WHERE course_id = ${courseId}
+            AND source_document IS NULL
+        `,
+      );
+      await insertChunks(
+        tx,
+        changed.map((chunk) => ({ ...chunk, sourceDocument, embedding: embeddingByHash.get(chunk.contentHash) ?? [] })),
+      );
+    },
+    { timeout: SYNC_TRANSACTION_TIMEOUT_MS },
   );
 
+  return result;
+}
+
+async function insertChunks(client: Prisma.TransactionClient, chunks: ChunkPayload[]): Promise<void> {
   for (let i = 0; i < chunks.length; i += INSERT_BATCH_SIZE) {
     const batch = chunks.slice(i, i + INSERT_BATCH_SIZE);
     const values = batch.map((chunk) => {
       const embedding = normalizeEmbedding(chunk.embedding);
       const vectorLiteral = toVectorLiteral(embedding);
-      return Prisma.sql`(${chunk.chunkId}, ${chunk.courseId}, ${normalizePosition(chunk.position)}, ${chunk.content}, ${Prisma.raw(vectorLiteral)})`;
+      return Prisma.sql`(
+        ${chunk.chunkId}, ${chunk.courseId}, ${normalizePosition(chunk.position)}, ${chunk.content}, ${hashChunkContent(chunk.content)},
+        ${Prisma.raw(vectorLiteral)}, ${chunk.sourceDocument ?? null}, ${chunk.sourcePage ?? null}, ${chunk.topicId ?? null}::uuid,
+        ${chunk.moduleNo ?? null}
+      )`;
     });
 
-    await prisma.$executeRaw(
+    await client.$executeRaw(
       Prisma.sql`
-        INSERT INTO course_chunks (chunk_id, course_id, position, content, embedding)
+        INSERT INTO course_chunks (
+          chunk_id, course_id, position, content, content_hash, embedding, source_document, source_page, topic_id, module_no
+        )
         VALUES ${Prisma.join(values)}
         ON CONFLICT (chunk_id)
         DO UPDATE SET
           course_id = EXCLUDED.course_id,
           position = EXCLUDED.position,
           content = EXCLUDED.content,
-          embedding = EXCLUDED.embedding
+          content_hash = EXCLUDED.content_hash,
+          embedding = EXCLUDED.embedding,
+          source_document = EXCLUDED.source_document,
+          source_page = EXCLUDED.source_page,
+          topic_id = EXCLUDED.topic_id,
+          module_no = EXCLUDED.module_no
       `,
     );
   }
@@ -75,62 +269,275 @@ export async function askCourseAssistant(options: {
   conversation?: ConversationTurn[];
   summary?: string | null;
   personaPrompt?: string | null;
-}): Promise<{ answer: string }> {
+  focus?: RetrievalFocus;
+}): Promise<{ answer: string; citations: AssistantCitation[]; contexts: RetrievedContextSnapshot[] }> {
   const sanitizedQuestion = scrubPossiblePii(options.question ?? "").trim();
   if (!sanitizedQuestion) {
     throw new Error("A question is required.");
   }
 
-  try {
-    const queryEmbedding = await createEmbedding(sanitizedQuestion);
-    const contexts = await fetchRelevantContexts(options.courseId, queryEmbedding);
-
-    if (contexts.length === 0) {
-      logRagUsage(options.userId, "success");
-      return {
-        answer:
-          "I don't have enough details in the course materials to answer that. Could you try asking about another topic covered here?",
-      };
-    }
+  const scope = { userId: options.userId, courseId: options.courseId };
+  const queryEmbedding = await createEmbedding(sanitizedQuestion, { ...scope, feature: "learner_rag" });
+  const contexts = await retrieveCourseContexts({
+    courseId: options.courseId,
+    question: sanitizedQuestion,
+    embedding: queryEmbedding,
+    rerank: env.ragRerank,
+    focus: options.focus,
+    scope,
+  });
+
+  if (contexts.length === 0) {
+    return {
+      answer:
+        "I don't have enough details in the course materials to answer that. Could you try asking about another topic covered here?",
+      citations: [],
+      contexts: [],
+    };
+  }
+
+  const prompt = buildPrompt({
+    courseTitle: options.courseTitle ?? "Ottolearn Course",
+    question: sanitizedQuestion,
+    contexts,
+    summary: options.summary ?? null,
+    conversation: options.conversation ?? [],
+    personaPrompt: options.personaPrompt ?? null,
+  });
+
+  const answer = await generateAnswerFromContext(prompt, scope);
+  return {
+    answer,
+    citations: await buildCitations(answer, contexts),
+    contexts: contexts.map((context) => ({
+      chunkId: context.chunkId,
+      content: context.content,
+      score: context.score,
+      sourceDocument: context.sourceDocument,
+      sourcePage: context.sourcePage,
+      topicId: context.topicId,
+      moduleNo: context.moduleNo,
+    })),
+  };
+}
+
+/**
+ * Resolves the [n] markers in an answer to the contexts they point at, in the order first cited.
+ */
+async function buildCitations(answer: string, contexts: QueryContext[]): Promise<AssistantCitation[]> {
+  const cited = Array.from(new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), (match) => Number(match[1]))))
+    .filter((index) => index >= 1 && index <= contexts.length);
+  if (cited.length === 0) {
+    return [];
+  }
+
+  const topicIds = Array.from(new Set(cited.map((index) => contexts[index - 1].topicId).filter((id): id is string => Boolean(id))));
+  const topics = topicIds.length
+    ? await prisma.topic.findMany({ where: { topicId: { in: topicIds } }, select: { topicId: true, topicName: true } })
+    : [];
+  const topicNames = new Map(topics.map((topic) => [topic.topicId, topic.topicName]));
+
+  return cited.map((index) => {
+    const context = contexts[index - 1];
+    const text = context.content.replace(/\s+/g, " ").trim();
+    return {
+      index,
+      chunkId: context.chunkId,
+      snippet: text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text,
+      sourceDocument: context.sourceDocument,
+      sourcePage: context.sourcePage,
+      topicId: context.topicId,
+      topicName: context.topicId ? topicNames.get(context.topicId) ?? null : null,
+      moduleNo: context.moduleNo,
+    };
+  });
+}
 
-    const prompt = buildPrompt({
-      courseTitle: options.courseTitle ?? "Ottolearn Course",
-      question: sanitizedQuestion,
-      contexts,
-      summary: options.summary ?? null,
-      conversation: options.conversation ?? [],
-      personaPrompt: options.personaPrompt ?? null,
+/**
+ * Hybrid retrieval: pgvector similarity and full-text keyword matches are fused by reciprocal
+ * rank, candidates that clear neither relevance cutoff are dropped, and the rest are optionally
+ * reranked by the chat model. An empty result means the material does not cover the question.
+ *
+ * With a focus, the search first covers the current topic and earlier modules, favouring the
+ * current topic, and only widens to the whole course when that finds too little.
+ */
+export async function retrieveCourseContexts(options: {
+  courseId: string;
+  question: string;
+  embedding: number[];
+  mode?: RetrievalMode;
+  limit?: number;
+  rerank?: boolean;
+  focus?: RetrievalFocus;
+  scope?: LlmUsageScope;
+}): Promise<QueryContext[]> {
+  const { focus } = options;
+  const search = (filter: Prisma.Sql) =>
+    searchChunks({
+      courseId: options.courseId,
+      question: options.question,
+      embedding: options.embedding,
+      mode: options.mode ?? "hybrid",
+      filter,
+      currentTopicId: focus?.topicId,
     });
 
-    const answer = await generateAnswerFromContext(prompt);
-    logRagUsage(options.userId, "success");
-    return { answer };
+  let relevant: QueryContext[];
+  if (!focus) {
+    relevant = await search(Prisma.empty);
+  } else {
+    relevant = await search(Prisma.sql`AND (topic_id = ${focus.topicId}::uuid OR module_no <= ${focus.moduleNo})`);
+    if (relevant.length < MIN_LOCAL_CONTEXTS) {
+      relevant = await search(
+        focus.noSpoilers ? Prisma.sql`AND (module_no IS NULL OR module_no <= ${focus.moduleNo})` : Prisma.empty,
+      );
+    }
+  }
+
+  const limit = options.limit ?? CONTEXT_LIMIT;
+  if (!options.rerank || relevant.length <= 1) {
+    return relevant.slice(0, limit);
+  }
+
+  const pool = relevant.slice(0, RERANK_CANDIDATES);
+  try {
+    const scores = await rerankPassages({
+      question: options.question,
+      passages: pool.map((candidate) => candidate.content),
+      scope: options.scope,
+    });
+    return pool
+      .map((candidate, index) => ({ ...candidate, score: scores[index] ?? 0 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
   } catch (error) {
-    logRagUsage(options.userId, "fail");
-    throw error;
+    console.error("Rerank failed; using fused order", error);
+    return relevant.slice(0, limit);
   }
 }
 
-async function fetchRelevantContexts(courseId: string, embedding: number[]): Promise<QueryContext[]> {
+async function searchChunks(options: {
+  courseId: string;
+  question: string;
+  embedding: number[];
+  mode: RetrievalMode;
+  filter: Prisma.Sql;
+  currentTopicId?: string;
+}): Promise<QueryContext[]> {
+  const [vectorRows, keywordRows] = await Promise.all([
+    options.mode === "keyword" ? Promise.resolve([]) : fetchVectorCandidates(options.courseId, options.embedding, options.filter),
+    options.mode === "vector" ? Promise.resolve([]) : fetchKeywordCandidates(options.courseId, options.question, options.filter),
+  ]);
+
+  const candidates = new Map<string, QueryContext>();
+  const fuse = (rows: CandidateRow[], field: "vectorScore" | "keywordScore") => {
+    rows.forEach((row, index) => {
+      const candidate = candidates.get(row.chunkId) ?? {
+        chunkId: row.chunkId,
+        content: row.content,
+        sourceDocument: row.sourceDocument,
+        sourcePage: row.sourcePage,
+        topicId: row.topicId,
+        moduleNo: row.moduleNo,
+        score: 0,
+        vectorScore: null,
+        keywordScore: null,
+      };
+      candidate.score += 1 / (RRF_K + index + 1);
+      candidate[field] = row.score;
+      candidates.set(row.chunkId, candidate);
+    });
+  };
+  fuse(vectorRows, "vectorScore");
+  fuse(keywordRows, "keywordScore");
+
+  return Array.from(candidates.values())
+    .filter(
+      (candidate) =>
+        (candidate.vectorScore ?? 0) >= env.ragMinVectorScore || (candidate.keywordScore ?? 0) >= env.ragMinKeywordScore,
+    )
+    .map((candidate) =>
+      options.currentTopicId && candidate.topicId === options.currentTopicId
+        ? { ...candidate, score: candidate.score * CURRENT_TOPIC_BOOST }
+        : candidate,
+    )
+    .sort((a, b) => b.score - a.score);
+}
+
+type CandidateRow = ChunkProvenance & {
+  chunkId: string;
+  content: string;
+  score: number;
+};
+
+type RawCandidateRow = {
+  chunk_id: string;
+  content: string;
+  score: number;
+  source_document: string | null;
+  source_page: number | null;
+  topic_id: string | null;
+  module_no: number | null;
+};
+
+async function fetchVectorCandidates(courseId: string, embedding: number[], filter: Prisma.Sql): Promise<CandidateRow[]> {
   const normalizedEmbedding = normalizeEmbedding(embedding);
   const vectorLiteral = toVectorLiteral(normalizedEmbedding);
-  const rows = await prisma.$queryRaw<
-    { chunk_id: string; content: string; score: number }[]
-  >(Prisma.sql`
+  const rows = await prisma.$queryRaw<RawCandidateRow[]>(Prisma.sql`
       SELECT chunk_id,
              content,
+             source_document,
+             source_page,
+             topic_id::text AS topic_id,
+             module_no,
              1 - (embedding <=> ${Prisma.raw(vectorLiteral)}) AS score
       FROM course_chunks
       WHERE course_id = ${courseId}
+        ${filter}
       ORDER BY embedding <=> ${Prisma.raw(vectorLiteral)}
-      LIMIT ${VECTOR_QUERY_LIMIT}
+      LIMIT ${CANDIDATE_LIMIT}
     `);
 
-  return rows.map((row) => ({
+  return rows.map(toCandidateRow);
+}
+
+async function fetchKeywordCandidates(courseId: string, question: string, filter: Prisma.Sql): Promise<CandidateRow[]> {
+  // OR the question's lexemes together so an exact API name or error string can match on its own;
+  // the lexemes are already stemmed, so the 'simple' config keeps them as they are
+  const rows = await prisma.$queryRaw<RawCandidateRow[]>(Prisma.sql`
+      WITH query AS (
+        SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS q
+        FROM unnest(tsvector_to_array(to_tsvector('english', ${question}))) AS lexeme
+      )
+      SELECT chunk_id,
+             content,
+             source_document,
+             source_page,
+             topic_id::text AS topic_id,
+             module_no,
+             ts_rank_cd(content_tsv, query.q, 32) AS score
+      FROM course_chunks, query
+      WHERE course_id = ${courseId}
+        AND query.q IS NOT NULL
+        AND content_tsv @@ query.q
+        ${filter}
+      ORDER BY score DESC
+      LIMIT ${CANDIDATE_LIMIT}
+    `);
+
+  return rows.map(toCandidateRow);
+}
+
+function toCandidateRow(row: RawCandidateRow): CandidateRow {
+  return {
     chunkId: row.chunk_id,
     content: row.content,
     score: typeof row.score === "number" ? row.score : Number(row.score),
-  }));
+    sourceDocument: row.source_document,
+    sourcePage: row.source_page,
+    topicId: row.topic_id,
+    moduleNo: row.module_no,
+  };
 }
 
 function buildPrompt(params: {
@@ -142,7 +549,7 @@ function buildPrompt(params: {
   personaPrompt?: string | null;
 }): string {
   const contextBlock = params.contexts
-    .map((ctx, index) => `Context ${index + 1}:\n${ctx.content}`)
+    .map((ctx, index) => `[${index + 1}]\n${ctx.content}`)
     .join("\n\n");
   const summaryBlock = params.summary?.trim()
     ? `Conversation summary:\n${params.summary.trim()}`
@@ -165,6 +572,7 @@ function buildPrompt(params: {
     "Use conversation history only to understand the learner's intent.",
     "Answer using only the provided contexts from the official course material.",
     "If the answer is not contained in the contexts, politely say you don't have that information.",
+    "Cite the contexts you rely on with their bracketed numbers, e.g. [1] or [2][3], right after the sentence they support.",
     "Respond in 3-6 sentences total and keep the tone human and supportive.",
     "",
     personaBlock,
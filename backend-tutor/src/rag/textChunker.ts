@@ -35,3 +35,25 @@ export function chunkText(raw: string, options?: ChunkOptions): string[] {
 
   return chunks;
 }
+
+export type TextSection = {
+  heading: string | null;
+  text: string;
+};
+
+/**
+ * Chunks each section on its own so no chunk straddles a heading, page or slide, and prefixes
+ * every chunk with its section heading so it still makes sense when retrieved alone.
+ */
+export function chunkSections<T extends TextSection>(sections: T[], options?: ChunkOptions): Array<{ section: T; content: string }> {
+  const { chunkSize, overlap } = { ...DEFAULT_OPTIONS, ...options };
+  return sections.flatMap((section) => {
+    const heading = section.heading?.replace(/\s+/g, " ").trim() || null;
+    // The heading line counts toward the chunk size, but never squeezes a chunk below twice the overlap
+    const bodySize = Math.max(chunkSize - (heading ? heading.length + 1 : 0), overlap * 2);
+    return chunkText(section.text, { chunkSize: bodySize, overlap }).map((chunk) => ({
+      section,
+      content: heading && !chunk.startsWith(heading) ? `${heading}\n${chunk}` : chunk,
+    }));
+  });
+}
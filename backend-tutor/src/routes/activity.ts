@@ -1,10 +1,118 @@
 import { Router } from "express";
+import { z } from "zod";
 import { asyncHandler } from "../utils/asyncHandler";
 import { requireAuth, type AuthenticatedRequest } from "../middleware/requireAuth";
-import { getLatestStatusesForCourse, getLearnerHistory, ensureTutorOrAdminAccess } from "../services/activityEventService";
+import {
+    getLatestStatusesForCourse,
+    getLearnerHistory,
+    ensureTutorOrAdminAccess,
+    recordActivityEvents,
+    type ActivityEventResult,
+    type TelemetryEventInput,
+} from "../services/activityEventService";
+
+const MAX_EVENTS_PER_BATCH = 50;
+const MAX_EVENT_PAYLOAD_BYTES = 4 * 1024;
+const MAX_BATCH_PAYLOAD_BYTES = 64 * 1024;
+// Buffered events may arrive late, but never this late; older ones would rewrite inactivity history
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const telemetryBatchSchema = z.object({
+    events: z.array(z.unknown()).min(1),
+});
+
+const telemetryEventSchema = z.object({
+    clientEventId: z.string().trim().min(1).max(64).optional(),
+    courseId: z.string().uuid(),
+    moduleNo: z.number().int().min(0).nullable().optional(),
+    topicId: z.string().uuid().nullable().optional(),
+    eventType: z.string().trim().min(1).max(100),
+    payload: z.record(z.unknown()).nullable().optional(),
+    occurredAt: z.string().datetime({ offset: true }).nullable().optional(),
+});
 
 const router = Router();
 
+/**
+ * POST /activity/events
+ * Ingests a batch of learner telemetry events and reports an accept/reject result per event.
+ */
+router.post(
+    "/events",
+    requireAuth,
+    asyncHandler(async (req: AuthenticatedRequest, res: any) => {
+        const { userId } = req.auth!;
+
+        const batch = telemetryBatchSchema.safeParse(req.body);
+        if (!batch.success) {
+            return res.status(400).json({ message: "events must be a non-empty array" });
+        }
+        if (batch.data.events.length > MAX_EVENTS_PER_BATCH) {
+            return res.status(413).json({ message: `A batch may contain at most ${MAX_EVENTS_PER_BATCH} events` });
+        }
+
+        const results: ActivityEventResult[] = [];
+        const candidates: TelemetryEventInput[] = [];
+        const candidateIndexes: number[] = [];
+        let batchBytes = 0;
+
+        batch.data.events.forEach((raw, index) => {
+            const parsed = telemetryEventSchema.safeParse(raw);
+            const clientEventId =
+                raw && typeof raw === "object" && typeof (raw as { clientEventId?: unknown }).clientEventId === "string"
+                    ? ((raw as { clientEventId: string }).clientEventId)
+                    : null;
+
+            if (!parsed.success) {
+                results[index] = { clientEventId, status: "rejected", reason: "Invalid event" };
+                return;
+            }
+
+            const event = parsed.data;
+            const payloadBytes = event.payload ? Buffer.byteLength(JSON.stringify(event.payload), "utf8") : 0;
+            if (payloadBytes > MAX_EVENT_PAYLOAD_BYTES) {
+                results[index] = { clientEventId, status: "rejected", reason: "Event payload is too large" };
+                return;
+            }
+            if (batchBytes + payloadBytes > MAX_BATCH_PAYLOAD_BYTES) {
+                results[index] = { clientEventId, status: "rejected", reason: "Batch payload limit exceeded" };
+                return;
+            }
+            // The client clock is not trusted: future times are clamped to now, stale ones rejected
+            const now = Date.now();
+            const occurredAt = event.occurredAt ? Math.min(new Date(event.occurredAt).getTime(), now) : null;
+            if (occurredAt !== null && occurredAt < now - MAX_EVENT_AGE_MS) {
+                results[index] = { clientEventId, status: "rejected", reason: "Event is too old" };
+                return;
+            }
+            batchBytes += payloadBytes;
+
+            candidates.push({
+                clientEventId: event.clientEventId ?? null,
+                courseId: event.courseId,
+                moduleNo: event.moduleNo ?? null,
+                topicId: event.topicId ?? null,
+                eventType: event.eventType,
+                payload: (event.payload ?? null) as TelemetryEventInput["payload"],
+                occurredAt: occurredAt !== null ? new Date(occurredAt) : null,
+            });
+            candidateIndexes.push(index);
+        });
+
+        const recorded = await recordActivityEvents(userId, candidates);
+        recorded.forEach((result, position) => {
+            results[candidateIndexes[position]] = result;
+        });
+
+        res.json({
+            accepted: results.filter((result) => result.status === "accepted").length,
+            rejected: results.filter((result) => result.status === "rejected").length,
+            duplicates: results.filter((result) => result.status === "duplicate").length,
+            results,
+        });
+    })
+);
+
 /**
  * GET /activity/courses/:courseId/learners
  * Returns the latest status for all learners in a specific course.
@@ -1,13 +1,31 @@
 import express from "express";
 import crypto from "node:crypto";
+import { z } from "zod";
 import { asyncHandler } from "../utils/asyncHandler";
 import { prisma } from "../services/prisma";
 import { requireAuth, type AuthenticatedRequest } from "../middleware/requireAuth";
 import { requireAdmin } from "../middleware/requireRole";
+import { contentUploadParser, contentUploadQuerySchema } from "../middleware/contentUpload";
 import { hashPassword } from "../utils/password";
+import { getLlmUsageReport, LLM_FEATURES, LLM_USAGE_GROUPS } from "../services/llmUsageService";
+import { listIngestRuns, startIngestInBackground } from "../services/courseIngestionService";
 
 const adminRouter = express.Router();
 
+const USAGE_REPORT_DEFAULT_DAYS = 30;
+
+const llmUsageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  groupBy: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").map((group) => group.trim()).filter(Boolean) : ["day", "course", "cohort"]))
+    .pipe(z.array(z.enum(LLM_USAGE_GROUPS))),
+  courseId: z.string().uuid().optional(),
+  feature: z.enum(LLM_FEATURES).optional(),
+});
+
 function slugify(value: string, fallback: string): string {
   const slug = value
     .toLowerCase()
@@ -150,4 +168,83 @@ adminRouter.post(
   }),
 );
 
+// GET /admin/llm-usage?from=&to=&groupBy=day,course,cohort&courseId=&feature=
+adminRouter.get(
+  "/llm-usage",
+  requireAuth,
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const parsed = llmUsageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid usage report query", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const to = parsed.data.to ?? new Date();
+    const from = parsed.data.from ?? new Date(to.getTime() - USAGE_REPORT_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      res.status(400).json({ message: "from must be before to" });
+      return;
+    }
+
+    const report = await getLlmUsageReport({
+      from,
+      to,
+      groupBy: Array.from(new Set(parsed.data.groupBy)),
+      courseId: parsed.data.courseId,
+      feature: parsed.data.feature,
+    });
+
+    res.status(200).json({ report });
+  }),
+);
+
+// POST /admin/courses/:courseId/content/uploads?filename=week-1.pdf  (body: the file)
+adminRouter.post(
+  "/courses/:courseId/content/uploads",
+  requireAuth,
+  requireAdmin,
+  contentUploadParser,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+
+    const parsed = contentUploadQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid upload", issues: parsed.error.flatten() });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ message: "Upload body is empty" });
+      return;
+    }
+
+    const course = await prisma.course.findUnique({ where: { courseId }, select: { courseId: true } });
+    if (!course) {
+      res.status(404).json({ message: "Course not found" });
+      return;
+    }
+
+    const run = await startIngestInBackground({
+      courseId,
+      source: "upload",
+      triggeredBy: auth?.userId ?? null,
+      documents: [{ fileName: parsed.data.filename, data: req.body }],
+    });
+
+    res.status(202).json({ run });
+  }),
+);
+
+// GET /admin/courses/:courseId/content/ingest-runs
+adminRouter.get(
+  "/courses/:courseId/content/ingest-runs",
+  requireAuth,
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const runs = await listIngestRuns(req.params.courseId);
+    res.status(200).json({ runs });
+  }),
+);
+
 export { adminRouter };
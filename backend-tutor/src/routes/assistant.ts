@@ -0,0 +1,339 @@
+import express from "express";
+import { z } from "zod";
+import { asyncHandler } from "../utils/asyncHandler";
+import { prisma } from "../services/prisma";
+import { requireAuth, type AuthenticatedRequest } from "../middleware/requireAuth";
+import { checkCohortAccessForUser } from "../services/cohortAccess";
+import { askCourseAssistant, type AssistantCitation, type RetrievedContextSnapshot } from "../rag/ragService";
+import { enforceRateLimit, rateLimitBy, rateLimitKeys } from "../middleware/rateLimit";
+import { env } from "../config/env";
+import {
+  PROMPT_LIMIT_PER_MODULE,
+  releaseModulePrompt,
+  reserveModulePrompt,
+} from "../services/promptUsageService";
+import { getPersonaProfile } from "../services/personaProfileService";
+import { getPersonaPromptTemplate } from "../services/personaPromptTemplates";
+import { BUDGET_EXHAUSTED_ANSWER, findPredefinedAnswer, getCourseBudgetStatus } from "../services/llmBudgetService";
+import {
+  appendChatTurn,
+  getOrCreateChatSession,
+  loadUnsummarizedTurns,
+  rollChatSummary,
+} from "../services/ragChatSessionService";
+import { classifyChatMessage } from "../services/questionClassificationService";
+import { ANSWER_RATINGS, rateAssistantAnswer } from "../services/answerFeedbackService";
+import {
+  escalateChatSession,
+  getLearnerConversation,
+  postLearnerHandoffMessage,
+} from "../services/tutorHandoffService";
+
+const assistantQuerySchema = z.object({
+  question: z.string().trim().min(1).max(1000),
+  courseId: z.string().uuid(),
+  topicId: z.string().uuid(),
+  courseTitle: z.string().trim().max(200).optional(),
+});
+
+const answerFeedbackSchema = z.object({
+  rating: z.enum(ANSWER_RATINGS),
+  reason: z.string().trim().max(500).optional(),
+});
+
+const conversationQuerySchema = z.object({
+  courseId: z.string().uuid(),
+  topicId: z.string().uuid(),
+});
+
+const handoffRequestSchema = conversationQuerySchema.extend({
+  message: z.string().trim().min(1).max(2000),
+});
+
+const handoffMessageSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+});
+
+// Shared by every learner of a course, so it is only charged once the request is known to be valid
+const assistantCourseRateLimit = {
+  name: "assistant-course",
+  rule: env.rateLimits.assistantCourse,
+  message: "The course assistant is very busy right now. Please try again in a moment.",
+};
+
+export const assistantRouter = express.Router();
+
+assistantRouter.post(
+  "/query",
+  requireAuth,
+  rateLimitBy({
+    name: "assistant",
+    rule: env.rateLimits.assistant,
+    key: rateLimitKeys.user,
+    message: "Too many assistant requests. Please wait before trying again.",
+  }),
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const parsed = assistantQuerySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid assistant query payload" });
+      return;
+    }
+    const { question, courseId, topicId, courseTitle } = parsed.data;
+
+    const topic = await prisma.topic.findFirst({
+      where: { topicId, courseId },
+      select: { moduleNo: true, course: { select: { courseName: true, assistantNoSpoilers: true } } },
+    });
+    if (!topic) {
+      res.status(404).json({ message: "Topic not found for this course" });
+      return;
+    }
+
+    const access = await checkCohortAccessForUser(auth.userId, courseId);
+    if (!access.allowed) {
+      res.status(access.status).json({ message: access.message });
+      return;
+    }
+
+    // The slot is taken before the model is called and given back if no answer comes of it
+    const typedCount = await reserveModulePrompt(auth.userId, courseId, topic.moduleNo);
+    if (typedCount === null) {
+      res.status(429).json({
+        message: `You have used all ${PROMPT_LIMIT_PER_MODULE} assistant questions for this module.`,
+        remainingPrompts: 0,
+      });
+      return;
+    }
+    const releasePrompt = () =>
+      releaseModulePrompt(auth.userId, courseId, topic.moduleNo).catch((error) => {
+        console.error("Failed to release assistant question", error);
+      });
+
+    if (!(await enforceRateLimit(res, assistantCourseRateLimit, `course:${courseId}`))) {
+      await releasePrompt();
+      return;
+    }
+
+    const session = await getOrCreateChatSession({ userId: auth.userId, courseId, topicId });
+
+    // Over the hard cap the model is never called; authored suggestion answers are all we can offer
+    const budget = await getCourseBudgetStatus(courseId);
+    if (budget.state === "exceeded") {
+      // Degraded answers never counted against the learner's questions
+      await releasePrompt();
+      const predefined = await findPredefinedAnswer({ courseId, topicId, question });
+      const degradedAnswer = predefined ?? BUDGET_EXHAUSTED_ANSWER;
+      const { questionMessageId, answerMessageId } = await appendChatTurn({
+        sessionId: session.sessionId,
+        userId: auth.userId,
+        question,
+        answer: degradedAnswer,
+      });
+      void classifyChatMessage(questionMessageId).catch((error) => {
+        console.error("Failed to classify assistant question", error);
+      });
+      res.status(200).json({
+        answer: degradedAnswer,
+        messageId: answerMessageId,
+        sessionId: session.sessionId,
+        remainingPrompts: Math.max(PROMPT_LIMIT_PER_MODULE - (typedCount - 1), 0),
+        citations: [],
+        degraded: true,
+      });
+      return;
+    }
+
+    const [conversation, persona] = await Promise.all([
+      loadUnsummarizedTurns(session.sessionId, session.summaryMessageCount),
+      getPersonaProfile({ userId: auth.userId, courseId }),
+    ]);
+
+    let answer: string;
+    let citations: AssistantCitation[];
+    let contexts: RetrievedContextSnapshot[];
+    try {
+      const result = await askCourseAssistant({
+        courseId,
+        courseTitle: courseTitle ?? topic.course.courseName,
+        question,
+        userId: auth.userId,
+        conversation,
+        summary: session.summary,
+        personaPrompt: persona ? getPersonaPromptTemplate(persona.personaKey) : null,
+        focus: { topicId, moduleNo: topic.moduleNo, noSpoilers: topic.course.assistantNoSpoilers },
+      });
+      answer = result.answer;
+      citations = result.citations;
+      contexts = result.contexts;
+    } catch (error) {
+      console.error("Assistant query failed", error);
+      await releasePrompt();
+      res.status(500).json({ message: "The assistant could not answer right now. Please try again." });
+      return;
+    }
+
+    const { questionMessageId, answerMessageId } = await appendChatTurn({
+      sessionId: session.sessionId,
+      userId: auth.userId,
+      question,
+      answer,
+      citations,
+      contexts,
+    });
+
+    void rollChatSummary(session.sessionId).catch((error) => {
+      console.error("Failed to roll assistant chat summary", error);
+    });
+    void classifyChatMessage(questionMessageId).catch((error) => {
+      console.error("Failed to classify assistant question", error);
+    });
+
+    res.status(200).json({
+      answer,
+      messageId: answerMessageId,
+      sessionId: session.sessionId,
+      remainingPrompts: Math.max(PROMPT_LIMIT_PER_MODULE - typedCount, 0),
+      citations,
+    });
+  }),
+);
+
+// POST /assistant/messages/:messageId/feedback
+assistantRouter.post(
+  "/messages/:messageId/feedback",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const messageId = req.params.messageId;
+    if (!z.string().uuid().safeParse(messageId).success) {
+      res.status(400).json({ message: "Invalid message id" });
+      return;
+    }
+
+    const parsed = answerFeedbackSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid feedback", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const feedback = await rateAssistantAnswer({
+      userId: auth.userId,
+      messageId,
+      rating: parsed.data.rating,
+      reason: parsed.data.reason,
+    });
+    if (!feedback) {
+      res.status(404).json({ message: "Answer not found" });
+      return;
+    }
+
+    res.status(200).json({ feedback: { messageId: feedback.messageId, rating: feedback.rating, reason: feedback.reason } });
+  }),
+);
+
+// GET /assistant/conversation?courseId=&topicId=
+assistantRouter.get(
+  "/conversation",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const parsed = conversationQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid conversation query", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const conversation = await getLearnerConversation({ userId: auth.userId, ...parsed.data });
+    res.status(200).json(conversation);
+  }),
+);
+
+// POST /assistant/handoffs
+assistantRouter.post(
+  "/handoffs",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const parsed = handoffRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid handoff request", issues: parsed.error.flatten() });
+      return;
+    }
+    const { courseId, topicId, message } = parsed.data;
+
+    const topic = await prisma.topic.findFirst({ where: { topicId, courseId }, select: { moduleNo: true } });
+    if (!topic) {
+      res.status(404).json({ message: "Topic not found for this course" });
+      return;
+    }
+
+    const access = await checkCohortAccessForUser(auth.userId, courseId);
+    if (!access.allowed) {
+      res.status(access.status).json({ message: access.message });
+      return;
+    }
+
+    const handoff = await escalateChatSession({
+      userId: auth.userId,
+      courseId,
+      topicId,
+      moduleNo: topic.moduleNo,
+      message,
+    });
+    res.status(201).json({ handoff });
+  }),
+);
+
+// POST /assistant/handoffs/:handoffId/messages
+assistantRouter.post(
+  "/handoffs/:handoffId/messages",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const handoffId = req.params.handoffId;
+    if (!z.string().uuid().safeParse(handoffId).success) {
+      res.status(400).json({ message: "Invalid handoff id" });
+      return;
+    }
+
+    const parsed = handoffMessageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid message", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const message = await postLearnerHandoffMessage(auth.userId, handoffId, parsed.data.content);
+    if (!message) {
+      res.status(404).json({ message: "Handoff not found" });
+      return;
+    }
+
+    res.status(201).json({ message });
+  }),
+);
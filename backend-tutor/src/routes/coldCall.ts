@@ -0,0 +1,396 @@
+import express from "express";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { asyncHandler } from "../utils/asyncHandler";
+import { prisma } from "../services/prisma";
+import { requireAuth, type AuthenticatedRequest } from "../middleware/requireAuth";
+import { COHORT_ACCESS_DENIED_MESSAGE, resolveCohortForUser } from "../services/cohortAccess";
+import { recordServerActivityEvent } from "../services/activityEventService";
+import {
+  COLD_CALL_STATUS_ACTIVE,
+  COLD_CALL_STATUS_DELETED,
+  COLD_CALL_STATUS_HIDDEN,
+  findTopLevelMessage,
+  getActivePromptForTopic,
+  hasActiveSubmission,
+  listThreadMessages,
+} from "../services/coldCallService";
+
+const messagePayloadSchema = z.object({
+  promptId: z.string().uuid(),
+  body: z.string().trim().min(1).max(2000),
+});
+
+const replyPayloadSchema = z.object({
+  parentId: z.string().uuid(),
+  body: z.string().trim().min(1).max(2000),
+});
+
+const starPayloadSchema = z.object({
+  messageId: z.string().uuid(),
+});
+
+const ANSWER_FIRST_MESSAGE = "Share your own response before joining the discussion.";
+
+export const coldCallRouter = express.Router();
+
+type ThreadAccess =
+  | {
+      ok: true;
+      message: {
+        messageId: string;
+        promptId: string;
+        cohortId: string;
+        userId: string;
+        rootId: string | null;
+        prompt: { courseId: string; topicId: string; topic: { moduleNo: number } };
+      };
+    }
+  | { ok: false; status: number; message: string };
+
+/**
+ * Loads a live message and confirms the viewer sits in its cohort and has answered the prompt.
+ */
+async function loadMessageForParticipant(messageId: string, userId: string): Promise<ThreadAccess> {
+  const message = await prisma.coldCallMessage.findFirst({
+    where: { messageId, status: COLD_CALL_STATUS_ACTIVE, deletedAt: null },
+    select: {
+      messageId: true,
+      promptId: true,
+      cohortId: true,
+      userId: true,
+      rootId: true,
+      prompt: { select: { courseId: true, topicId: true, topic: { select: { moduleNo: true } } } },
+    },
+  });
+  if (!message) {
+    return { ok: false, status: 404, message: "Message not found" };
+  }
+
+  const cohort = await resolveCohortForUser(userId, message.prompt.courseId);
+  if (!cohort || cohort.cohortId !== message.cohortId) {
+    return { ok: false, status: 403, message: COHORT_ACCESS_DENIED_MESSAGE };
+  }
+
+  if (!(await hasActiveSubmission(message.promptId, message.cohortId, userId))) {
+    return { ok: false, status: 403, message: ANSWER_FIRST_MESSAGE };
+  }
+
+  return { ok: true, message };
+}
+
+coldCallRouter.get(
+  "/prompts/:topicId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const topicId = req.params.topicId;
+    if (!z.string().uuid().safeParse(topicId).success) {
+      res.status(400).json({ message: "Invalid topic id" });
+      return;
+    }
+
+    const prompt = await getActivePromptForTopic(topicId);
+    if (!prompt) {
+      res.status(404).json({ message: "No cold calling prompt for this topic" });
+      return;
+    }
+
+    const cohort = await resolveCohortForUser(auth.userId, prompt.courseId);
+    if (!cohort) {
+      res.status(403).json({ message: COHORT_ACCESS_DENIED_MESSAGE });
+      return;
+    }
+
+    const hasSubmitted = await hasActiveSubmission(prompt.promptId, cohort.cohortId, auth.userId);
+    // Peers' answers stay hidden until the learner has committed to their own
+    const messages = hasSubmitted ? await listThreadMessages(prompt.promptId, cohort.cohortId, auth.userId) : [];
+
+    res.status(200).json({
+      prompt: {
+        promptId: prompt.promptId,
+        courseId: prompt.courseId,
+        topicId: prompt.topicId,
+        promptText: prompt.promptText,
+        helperText: prompt.helperText,
+      },
+      cohort: { cohortId: cohort.cohortId, name: cohort.name },
+      hasSubmitted,
+      messages,
+    });
+  }),
+);
+
+coldCallRouter.post(
+  "/messages",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const parsed = messagePayloadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid cold calling response" });
+      return;
+    }
+    const { promptId, body } = parsed.data;
+
+    const prompt = await prisma.coldCallPrompt.findFirst({
+      where: { promptId, isActive: true },
+      select: { promptId: true, courseId: true, topicId: true, topic: { select: { moduleNo: true } } },
+    });
+    if (!prompt) {
+      res.status(404).json({ message: "Prompt not found" });
+      return;
+    }
+
+    const cohort = await resolveCohortForUser(auth.userId, prompt.courseId);
+    if (!cohort) {
+      res.status(403).json({ message: COHORT_ACCESS_DENIED_MESSAGE });
+      return;
+    }
+
+    const existing = await findTopLevelMessage(promptId, cohort.cohortId, auth.userId);
+    if (existing && existing.status === COLD_CALL_STATUS_ACTIVE && !existing.deletedAt) {
+      res.status(409).json({ message: "You have already responded to this prompt." });
+      return;
+    }
+    // A tutor hid this answer; posting again must not undo the moderation
+    if (existing && existing.status === COLD_CALL_STATUS_HIDDEN) {
+      res.status(409).json({ message: "Your response to this prompt was hidden by a tutor." });
+      return;
+    }
+
+    let messageId: string;
+    if (existing && existing.status === COLD_CALL_STATUS_DELETED) {
+      // The top-level unique index allows one row per learner, so a deleted answer is revived
+      const revived = await prisma.coldCallMessage.update({
+        where: { messageId: existing.messageId },
+        data: { body, status: COLD_CALL_STATUS_ACTIVE, deletedAt: null, createdAt: new Date() },
+        select: { messageId: true },
+      });
+      messageId = revived.messageId;
+    } else {
+      try {
+        const created = await prisma.coldCallMessage.create({
+          data: { promptId, cohortId: cohort.cohortId, userId: auth.userId, body },
+          select: { messageId: true },
+        });
+        messageId = created.messageId;
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          res.status(409).json({ message: "You have already responded to this prompt." });
+          return;
+        }
+        throw error;
+      }
+    }
+
+    await recordServerActivityEvent(auth.userId, {
+      courseId: prompt.courseId,
+      moduleNo: prompt.topic.moduleNo,
+      topicId: prompt.topicId,
+      eventType: "cold_call.submit",
+      payload: { promptId, messageId, length: body.length },
+    });
+
+    res.status(201).json({ messageId });
+  }),
+);
+
+coldCallRouter.delete(
+  "/messages/:messageId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const messageId = req.params.messageId;
+    if (!z.string().uuid().safeParse(messageId).success) {
+      res.status(400).json({ message: "Invalid message id" });
+      return;
+    }
+
+    const message = await prisma.coldCallMessage.findFirst({
+      // Hidden answers stay hidden: deleting one would let the learner post it again
+      where: { messageId, status: COLD_CALL_STATUS_ACTIVE, deletedAt: null },
+      select: {
+        messageId: true,
+        userId: true,
+        promptId: true,
+        prompt: { select: { courseId: true, topicId: true, topic: { select: { moduleNo: true } } } },
+      },
+    });
+    if (!message) {
+      res.status(404).json({ message: "Message not found" });
+      return;
+    }
+    if (message.userId !== auth.userId) {
+      res.status(403).json({ message: "You can only delete your own messages." });
+      return;
+    }
+
+    await prisma.coldCallMessage.update({
+      where: { messageId: message.messageId },
+      data: { status: COLD_CALL_STATUS_DELETED, deletedAt: new Date() },
+    });
+
+    await recordServerActivityEvent(auth.userId, {
+      courseId: message.prompt.courseId,
+      moduleNo: message.prompt.topic.moduleNo,
+      topicId: message.prompt.topicId,
+      eventType: "cold_call.delete",
+      payload: { promptId: message.promptId, messageId: message.messageId },
+    });
+
+    res.status(204).send();
+  }),
+);
+
+coldCallRouter.post(
+  "/replies",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const parsed = replyPayloadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid reply" });
+      return;
+    }
+    const { parentId, body } = parsed.data;
+
+    const access = await loadMessageForParticipant(parentId, auth.userId);
+    if (!access.ok) {
+      res.status(access.status).json({ message: access.message });
+      return;
+    }
+    const parent = access.message;
+
+    const reply = await prisma.coldCallMessage.create({
+      data: {
+        promptId: parent.promptId,
+        cohortId: parent.cohortId,
+        userId: auth.userId,
+        parentId: parent.messageId,
+        rootId: parent.rootId ?? parent.messageId,
+        body,
+      },
+      select: { messageId: true },
+    });
+
+    await recordServerActivityEvent(auth.userId, {
+      courseId: parent.prompt.courseId,
+      moduleNo: parent.prompt.topic.moduleNo,
+      topicId: parent.prompt.topicId,
+      eventType: "cold_call.reply",
+      payload: { promptId: parent.promptId, messageId: reply.messageId, parentId, length: body.length },
+    });
+
+    res.status(201).json({ messageId: reply.messageId });
+  }),
+);
+
+coldCallRouter.post(
+  "/stars",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const parsed = starPayloadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid star request" });
+      return;
+    }
+
+    const access = await loadMessageForParticipant(parsed.data.messageId, auth.userId);
+    if (!access.ok) {
+      res.status(access.status).json({ message: access.message });
+      return;
+    }
+    const message = access.message;
+
+    // Skipping the duplicate keeps a double click or a second tab from failing on the unique key
+    const { count: added } = await prisma.coldCallStar.createMany({
+      data: [{ messageId: message.messageId, userId: auth.userId }],
+      skipDuplicates: true,
+    });
+    if (added > 0) {
+      await recordServerActivityEvent(auth.userId, {
+        courseId: message.prompt.courseId,
+        moduleNo: message.prompt.topic.moduleNo,
+        topicId: message.prompt.topicId,
+        eventType: "cold_call.star",
+        payload: { promptId: message.promptId, messageId: message.messageId, action: "add" },
+      });
+    }
+
+    const starCount = await prisma.coldCallStar.count({ where: { messageId: message.messageId } });
+    res.status(added > 0 ? 201 : 200).json({ messageId: message.messageId, starCount, starredByMe: true });
+  }),
+);
+
+coldCallRouter.delete(
+  "/stars/:messageId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const messageId = req.params.messageId;
+    if (!z.string().uuid().safeParse(messageId).success) {
+      res.status(400).json({ message: "Invalid message id" });
+      return;
+    }
+
+    const star = await prisma.coldCallStar.findFirst({
+      where: { messageId, userId: auth.userId },
+      select: {
+        starId: true,
+        message: {
+          select: {
+            promptId: true,
+            prompt: { select: { courseId: true, topicId: true, topic: { select: { moduleNo: true } } } },
+          },
+        },
+      },
+    });
+    if (!star) {
+      res.status(204).send();
+      return;
+    }
+
+    await prisma.coldCallStar.delete({ where: { starId: star.starId } });
+    await recordServerActivityEvent(auth.userId, {
+      courseId: star.message.prompt.courseId,
+      moduleNo: star.message.prompt.topic.moduleNo,
+      topicId: star.message.prompt.topicId,
+      eventType: "cold_call.star",
+      payload: { promptId: star.message.promptId, messageId, action: "remove" },
+    });
+
+    res.status(204).send();
+  }),
+);
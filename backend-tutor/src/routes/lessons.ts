@@ -3,6 +3,8 @@ import { z } from "zod";
 import { asyncHandler } from "../utils/asyncHandler";
 import { prisma } from "../services/prisma";
 import { requireAuth, type AuthenticatedRequest } from "../middleware/requireAuth";
+import { isLearnerInCourse, recordServerActivityEvent } from "../services/activityEventService";
+import { QUIZ_PASS_THRESHOLD_PERCENT, recordQuizAttempt } from "../services/moduleQuizAttemptService";
 
 const LEGACY_COURSE_SLUGS: Record<string, string> = {
   "ai-in-web-development": "f26180b2-5dda-495a-a014-ae02e63f172f",
@@ -13,6 +15,23 @@ const progressPayloadSchema = z.object({
   status: z.enum(["not_started", "in_progress", "completed"]),
 });
 
+const quizAttemptPayloadSchema = z.object({
+  answers: z
+    .array(
+      z.object({
+        questionId: z.string().trim().min(1).max(100),
+        selectedOptionId: z.string().trim().min(1).max(100),
+        isCorrect: z.boolean(),
+      }),
+    )
+    .min(1)
+    .max(100)
+    .refine((answers) => new Set(answers.map((answer) => answer.questionId)).size === answers.length, {
+      message: "Each question can only be answered once",
+    }),
+  startedAt: z.string().datetime().optional(),
+});
+
 const studyPersonaSchema = z.enum(["normal", "sports", "cooking", "adventure"]);
 const promptQuerySchema = z.object({
   topicId: z.string().uuid().optional(),
@@ -426,6 +445,80 @@ lessonsRouter.get(
   }),
 );
 
+lessonsRouter.post(
+  "/courses/:courseKey/modules/:moduleNo/quiz-attempts",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const { courseKey } = req.params;
+    const auth = (req as AuthenticatedRequest).auth;
+    if (!auth?.userId) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const moduleNo = Number.parseInt(req.params.moduleNo, 10);
+    if (Number.isNaN(moduleNo)) {
+      res.status(400).json({ message: "Module number must be a valid integer" });
+      return;
+    }
+
+    const parsed = quizAttemptPayloadSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid quiz submission" });
+      return;
+    }
+
+    const resolvedCourseId = await resolveCourseId(courseKey);
+    if (!resolvedCourseId) {
+      res.status(404).json({ message: "Course not found" });
+      return;
+    }
+
+    const moduleTopic = await prisma.topic.findFirst({
+      where: { courseId: resolvedCourseId, moduleNo },
+      select: { topicId: true },
+    });
+    if (!moduleTopic) {
+      res.status(404).json({ message: "Module not found" });
+      return;
+    }
+
+    if (!(await isLearnerInCourse(auth.userId, resolvedCourseId))) {
+      res.status(403).json({ message: "You are not enrolled in this course" });
+      return;
+    }
+
+    // Scored against the module's answer key; the client's isCorrect only counts as a self-report
+    const attempt = await recordQuizAttempt({
+      userId: auth.userId,
+      courseId: resolvedCourseId,
+      moduleNo,
+      answers: parsed.data.answers,
+      startedAt: parsed.data.startedAt ? new Date(parsed.data.startedAt) : null,
+    });
+
+    await recordServerActivityEvent(auth.userId, {
+      courseId: resolvedCourseId,
+      moduleNo,
+      eventType: attempt.passed ? "quiz.pass" : "quiz.fail",
+      payload: { attemptId: attempt.attemptId, attemptNumber: attempt.attemptNumber, score: attempt.score },
+    });
+
+    res.status(201).json({
+      attempt: {
+        attemptId: attempt.attemptId,
+        moduleNo: attempt.moduleNo,
+        attemptNumber: attempt.attemptNumber,
+        score: attempt.score,
+        passed: attempt.passed,
+        selfReported: attempt.selfReported,
+        submittedAt: attempt.submittedAt.toISOString(),
+      },
+      passThreshold: QUIZ_PASS_THRESHOLD_PERCENT,
+    });
+  }),
+);
+
 lessonsRouter.get(
   "/:lessonId/progress",
   requireAuth,
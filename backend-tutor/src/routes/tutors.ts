@@ -1,25 +1,188 @@
 import express from "express";
 import { Prisma } from "@prisma/client";
+import { z } from "zod";
 import { asyncHandler } from "../utils/asyncHandler";
 import { prisma } from "../services/prisma";
 import { requireAuth, type AuthenticatedRequest } from "../middleware/requireAuth";
 import { requireTutor } from "../middleware/requireRole";
+import { contentUploadParser, contentUploadQuerySchema } from "../middleware/contentUpload";
 import { verifyPassword } from "../utils/password";
 import { createSession } from "../services/sessionService";
 import { buildTutorCourseSnapshot, formatTutorSnapshot } from "../services/tutorInsights";
-import { generateTutorCopilotAnswer, improveEmailMessage } from "../rag/openAiClient";
+import { generateTutorCopilotAnswer, improveEmailMessage, type CopilotToolTrace } from "../rag/openAiClient";
 import { sendEmail } from "../services/emailService";
-import { rateLimit } from "express-rate-limit";
+import { rateLimitBy, rateLimitKeys } from "../middleware/rateLimit";
+import { env } from "../config/env";
+import { listIngestRuns, startIngestInBackground } from "../services/courseIngestionService";
+import { listFaqClusters, promoteFaqCluster, refreshFaqClusters } from "../services/faqMiningService";
+import { ANSWER_REVIEW_STATUSES, listAnswerReviews, resolveAnswerReview } from "../services/answerFeedbackService";
+import {
+  HANDOFF_STATUSES,
+  getHandoffTranscript,
+  listTutorHandoffs,
+  postTutorReply,
+  resolveHandoff,
+} from "../services/tutorHandoffService";
+import {
+  RISK_LEVELS,
+  describeRiskReasons,
+  ensureCourseRiskScores,
+  listLearnerRiskScores,
+  refreshCourseRiskScores,
+} from "../services/learnerRiskService";
 import { getChatbotSessionStats, getQuestionTypeAnalysis, getPerLearnerStats, getLearnerCustomQuestions, getModuleActivityOverview } from "../services/chatbot-stats.service";
+import {
+  COLD_CALL_STATUS_ACTIVE,
+  COLD_CALL_STATUS_HIDDEN,
+  getPromptParticipation,
+  listModerationThread,
+} from "../services/coldCallService";
+import { getPassedModulesByUser, replaceQuizAnswerKey } from "../services/moduleQuizAttemptService";
+import { getCompletionForecasts, resolveForecastStart } from "../services/completionForecastService";
+import { analyzeCohortPerformanceFactors, DEFAULT_FACTOR_WINDOW_DAYS } from "../services/cohortPerformanceService";
+import {
+  appendCopilotTurn,
+  buildConversationTitle,
+  createCopilotConversation,
+  deleteCopilotConversation,
+  findCopilotConversation,
+  listCopilotConversationMessages,
+  listCopilotConversations,
+  loadUnsummarizedCopilotTurns,
+  renameCopilotConversation,
+  rollCopilotSummary,
+} from "../services/tutorCopilotConversationService";
+import {
+  clearCourseBudget,
+  getCourseBudgetBurnDown,
+  getCourseBudgetStatus,
+  setCourseBudget,
+} from "../services/llmBudgetService";
 
 const tutorsRouter = express.Router();
 
-const emailRateLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 5, // Limit each IP to 5 requests per windowMs
-  message: { message: "Too many email requests sent from this IP, please try again after a minute" },
-  standardHeaders: true,
-  legacyHeaders: false,
+const coldCallModerationSchema = z
+  .object({
+    status: z.enum([COLD_CALL_STATUS_ACTIVE, COLD_CALL_STATUS_HIDDEN]).optional(),
+    pinned: z.boolean().optional(),
+  })
+  .refine((value) => value.status !== undefined || value.pinned !== undefined, {
+    message: "Provide a status or pinned flag",
+  });
+
+const coldCallReplySchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+const coldCallPromptSchema = z.object({
+  promptText: z.string().trim().min(1).max(1000),
+  helperText: z.string().trim().max(1000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const coldCallPromptUpdateSchema = coldCallPromptSchema.partial();
+
+const coldCallPromptOrderSchema = z.object({
+  promptIds: z.array(z.string().uuid()).min(1),
+});
+
+const copilotConversationRenameSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+});
+
+const assistantSettingsSchema = z.object({
+  noSpoilers: z.boolean(),
+});
+
+const faqClusterQuerySchema = z.object({
+  topicId: z.string().uuid().optional(),
+  includePromoted: z.enum(["true", "false"]).optional(),
+});
+
+const faqClusterPromoteSchema = z.object({
+  promptText: z.string().trim().min(1).max(500).optional(),
+  answer: z.string().trim().min(1).max(5000),
+});
+
+const answerReviewQuerySchema = z.object({
+  status: z.enum([...ANSWER_REVIEW_STATUSES, "all"]).default("open"),
+});
+
+const answerReviewResolutionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("curated_answer"),
+    promptText: z.string().trim().min(1).max(500).optional(),
+    answer: z.string().trim().min(1).max(5000),
+  }),
+  z.object({ action: z.literal("missing_material"), note: z.string().trim().min(1).max(2000) }),
+  z.object({ action: z.literal("dismissed"), note: z.string().trim().max(2000).optional() }),
+]);
+
+const handoffQuerySchema = z.object({
+  status: z.enum([...HANDOFF_STATUSES, "all"]).default("open"),
+});
+
+const handoffReplySchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+});
+
+const riskScoreQuerySchema = z.object({
+  cohortId: z.string().uuid().optional(),
+  minLevel: z.enum(RISK_LEVELS).optional(),
+});
+
+const quizAnswerKeySchema = z.object({
+  questions: z
+    .array(
+      z.object({
+        questionId: z.string().trim().min(1).max(100),
+        correctOptionId: z.string().trim().min(1).max(100),
+      }),
+    )
+    .max(100)
+    .refine((questions) => new Set(questions.map((question) => question.questionId)).size === questions.length, {
+      message: "Each question can only appear once",
+    }),
+});
+
+const faqRefreshSchema = z.object({
+  windowDays: z.number().int().min(1).max(365).optional(),
+});
+
+const courseBudgetSchema = z
+  .object({
+    monthlyLimitUsd: z.number().min(0).max(100000),
+    softLimitPercent: z.number().int().min(1).max(100).default(80),
+    hardLimitPercent: z.number().int().min(1).max(200).default(100),
+  })
+  .refine((value) => value.softLimitPercent <= value.hardLimitPercent, {
+    message: "softLimitPercent cannot exceed hardLimitPercent",
+  });
+
+const coldCallPromptSelect = {
+  promptId: true,
+  topicId: true,
+  promptText: true,
+  helperText: true,
+  displayOrder: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { messages: true } },
+} satisfies Prisma.ColdCallPromptSelect;
+
+const emailRateLimiter = rateLimitBy({
+  name: "email",
+  rule: env.rateLimits.email,
+  key: rateLimitKeys.tutor,
+  message: "Too many email requests. Please wait before sending more.",
+});
+
+const copilotRateLimiter = rateLimitBy({
+  name: "copilot",
+  rule: env.rateLimits.copilot,
+  key: rateLimitKeys.tutor,
+  message: "Too many copilot questions. Please wait before asking again.",
 });
 
 async function isTutorForCourse(userId: string, courseId: string): Promise<boolean> {
@@ -34,6 +197,117 @@ async function isTutorForCourse(userId: string, courseId: string): Promise<boole
   return Boolean(assignment);
 }
 
+async function isCourseOwner(userId: string, courseId: string): Promise<boolean> {
+  const assignment = await prisma.courseTutor.findFirst({
+    where: {
+      courseId,
+      isActive: true,
+      role: "owner",
+      tutor: { userId },
+    },
+    select: { courseTutorId: true },
+  });
+  return Boolean(assignment);
+}
+
+type PreparedCopilotQuery = {
+  userId: string;
+  courseId: string;
+  cohortId?: string;
+  question: string;
+  conversation: Awaited<ReturnType<typeof findCopilotConversation>>;
+  history: Awaited<ReturnType<typeof loadUnsummarizedCopilotTurns>>;
+};
+
+/**
+ * Validates a copilot question and loads the stored conversation it continues, if any.
+ * History always comes from the server; a client-supplied history is ignored.
+ * Sends the error response itself and returns null when the request cannot go ahead.
+ */
+async function prepareCopilotQuery(req: AuthenticatedRequest, res: express.Response): Promise<PreparedCopilotQuery | null> {
+  const auth = req.auth;
+  if (!auth) {
+    res.status(401).json({ message: "Unauthorized" });
+    return null;
+  }
+
+  const courseId = typeof req.body?.courseId === "string" ? req.body.courseId.trim() : "";
+  const cohortId = typeof req.body?.cohortId === "string" && req.body.cohortId.trim() ? req.body.cohortId.trim() : undefined;
+  const question = typeof req.body?.question === "string" ? req.body.question.trim() : "";
+  const conversationId = typeof req.body?.conversationId === "string" ? req.body.conversationId.trim() : "";
+
+  if (!courseId) {
+    res.status(400).json({ message: "courseId is required" });
+    return null;
+  }
+  if (!question) {
+    res.status(400).json({ message: "question is required" });
+    return null;
+  }
+  if (conversationId && !z.string().uuid().safeParse(conversationId).success) {
+    res.status(400).json({ message: "Invalid conversation id" });
+    return null;
+  }
+
+  const allowed = await isTutorForCourse(auth.userId, courseId);
+  if (!allowed) {
+    res.status(403).json({ message: "Tutor is not assigned to this course" });
+    return null;
+  }
+
+  const budget = await getCourseBudgetStatus(courseId);
+  if (budget.state === "exceeded") {
+    res.status(429).json({
+      message: "This course has used its monthly AI budget. The copilot is paused until the budget resets or is raised.",
+      budget,
+    });
+    return null;
+  }
+
+  if (!conversationId) {
+    return { userId: auth.userId, courseId, cohortId, question, conversation: null, history: [] };
+  }
+
+  const conversation = await findCopilotConversation({ conversationId, userId: auth.userId, courseId });
+  if (!conversation) {
+    res.status(404).json({ message: "Conversation not found" });
+    return null;
+  }
+
+  const history = await loadUnsummarizedCopilotTurns(conversation.conversationId, conversation.summaryMessageCount);
+  return { userId: auth.userId, courseId, cohortId, question, conversation, history };
+}
+
+/**
+ * Stores the answered turn, starting a new conversation titled after the question when needed.
+ */
+async function saveCopilotTurn(prepared: PreparedCopilotQuery, answer: string, trace: CopilotToolTrace[]): Promise<string> {
+  const conversationId =
+    prepared.conversation?.conversationId ??
+    (
+      await createCopilotConversation({
+        userId: prepared.userId,
+        courseId: prepared.courseId,
+        title: buildConversationTitle(prepared.question),
+      })
+    ).conversationId;
+
+  await appendCopilotTurn({
+    conversationId,
+    userId: prepared.userId,
+    cohortId: prepared.cohortId,
+    question: prepared.question,
+    answer,
+    trace,
+  });
+
+  void rollCopilotSummary(conversationId).catch((error) => {
+    console.error("Failed to roll copilot conversation summary", error);
+  });
+
+  return conversationId;
+}
+
 tutorsRouter.post(
   "/login",
   asyncHandler(async (req, res) => {
@@ -99,24 +373,216 @@ tutorsRouter.post(
   "/assistant/query",
   requireAuth,
   requireTutor,
+  copilotRateLimiter,
+  asyncHandler(async (req, res) => {
+    const prepared = await prepareCopilotQuery(req as AuthenticatedRequest, res);
+    if (!prepared) {
+      return;
+    }
+
+    try {
+      const { answer, trace, usage } = await generateTutorCopilotAnswer({
+        question: prepared.question,
+        userId: prepared.userId,
+        courseId: prepared.courseId,
+        cohortId: prepared.cohortId,
+        history: prepared.history,
+        summary: prepared.conversation?.summary,
+      });
+      const conversationId = await saveCopilotTurn(prepared, answer, trace);
+
+      res.status(200).json({ answer, trace, usage, conversationId });
+    } catch (error) {
+      console.error("Tutor assistant query failed", error);
+      const message =
+        error instanceof Error && error.message
+          ? error.message
+          : "Tutor assistant is unavailable right now. Please try again.";
+      res.status(500).json({ message });
+    }
+  }),
+);
+
+// POST /tutors/assistant/query/stream
+// Same as /assistant/query but answers as server-sent events: tool_call and tool_result
+// progress while data is gathered, token events for the answer, then done or error
+tutorsRouter.post(
+  "/assistant/query/stream",
+  requireAuth,
+  requireTutor,
+  copilotRateLimiter,
+  asyncHandler(async (req, res) => {
+    const prepared = await prepareCopilotQuery(req as AuthenticatedRequest, res);
+    if (!prepared) {
+      return;
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    // The request emits close once its body is read, so only the response tells a real disconnect
+    const disconnect = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        disconnect.abort();
+      }
+    });
+    const send = (event: string, data: unknown) => {
+      if (!disconnect.signal.aborted) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    try {
+      const result = await generateTutorCopilotAnswer({
+        question: prepared.question,
+        userId: prepared.userId,
+        courseId: prepared.courseId,
+        cohortId: prepared.cohortId,
+        history: prepared.history,
+        summary: prepared.conversation?.summary,
+        onEvent: (event) => send(event.type, event),
+        signal: disconnect.signal,
+      });
+      const conversationId = await saveCopilotTurn(prepared, result.answer, result.trace);
+      send("done", { ...result, conversationId });
+    } catch (error) {
+      if (disconnect.signal.aborted) {
+        console.warn("Tutor assistant stream stopped: the client disconnected");
+        return;
+      }
+      console.error("Tutor assistant stream failed", error);
+      send("error", {
+        message:
+          error instanceof Error && error.message
+            ? error.message
+            : "Tutor assistant is unavailable right now. Please try again.",
+      });
+    } finally {
+      res.end();
+    }
+  }),
+);
+
+// GET /tutors/:courseId/assistant/conversations
+// Lists the tutor's own copilot threads for the course, most recent first
+tutorsRouter.get(
+  "/:courseId/assistant/conversations",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const conversations = await listCopilotConversations(auth.userId, courseId);
+    res.status(200).json({ conversations });
+  }),
+);
+
+// GET /tutors/:courseId/assistant/conversations/:conversationId/messages
+tutorsRouter.get(
+  "/:courseId/assistant/conversations/:conversationId/messages",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, conversationId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(conversationId).success) {
+      res.status(400).json({ message: "Invalid conversation id" });
+      return;
+    }
+
+    const conversation = await findCopilotConversation({ conversationId, userId: auth.userId, courseId });
+    if (!conversation) {
+      res.status(404).json({ message: "Conversation not found" });
+      return;
+    }
+
+    const messages = await listCopilotConversationMessages(conversationId);
+    res.status(200).json({
+      conversation: { conversationId: conversation.conversationId, title: conversation.title },
+      messages,
+    });
+  }),
+);
+
+// PATCH /tutors/:courseId/assistant/conversations/:conversationId
+tutorsRouter.patch(
+  "/:courseId/assistant/conversations/:conversationId",
+  requireAuth,
+  requireTutor,
   asyncHandler(async (req, res) => {
     const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, conversationId } = req.params;
     if (!auth) {
       res.status(401).json({ message: "Unauthorized" });
       return;
     }
 
-    const courseId = typeof req.body?.courseId === "string" ? req.body.courseId.trim() : "";
-    const cohortId = typeof req.body?.cohortId === "string" ? req.body.cohortId.trim() : undefined;
-    const question = typeof req.body?.question === "string" ? req.body.question.trim() : "";
-    const history = Array.isArray(req.body?.history) ? req.body.history : [];
+    const parsed = copilotConversationRenameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid conversation title", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(conversationId).success) {
+      res.status(400).json({ message: "Invalid conversation id" });
+      return;
+    }
 
-    if (!courseId) {
-      res.status(400).json({ message: "courseId is required" });
+    const conversation = await findCopilotConversation({ conversationId, userId: auth.userId, courseId });
+    if (!conversation) {
+      res.status(404).json({ message: "Conversation not found" });
       return;
     }
-    if (!question) {
-      res.status(400).json({ message: "question is required" });
+
+    const updated = await renameCopilotConversation(conversationId, parsed.data.title);
+    res.status(200).json({ conversation: updated });
+  }),
+);
+
+// DELETE /tutors/:courseId/assistant/conversations/:conversationId
+tutorsRouter.delete(
+  "/:courseId/assistant/conversations/:conversationId",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, conversationId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
       return;
     }
 
@@ -126,24 +592,19 @@ tutorsRouter.post(
       return;
     }
 
-    try {
-      // Call the new function-based chatbot
-      const answer = await generateTutorCopilotAnswer({
-        question,
-        courseId,
-        cohortId,
-        history,
-      });
+    if (!z.string().uuid().safeParse(conversationId).success) {
+      res.status(400).json({ message: "Invalid conversation id" });
+      return;
+    }
 
-      res.status(200).json({ answer });
-    } catch (error) {
-      console.error("Tutor assistant query failed", error);
-      const message =
-        error instanceof Error && error.message
-          ? error.message
-          : "Tutor assistant is unavailable right now. Please try again.";
-      res.status(500).json({ message });
+    const conversation = await findCopilotConversation({ conversationId, userId: auth.userId, courseId });
+    if (!conversation) {
+      res.status(404).json({ message: "Conversation not found" });
+      return;
     }
+
+    await deleteCopilotConversation(conversationId);
+    res.status(204).send();
   }),
 );
 
@@ -353,12 +814,22 @@ tutorsRouter.get(
       }
     }
 
-    let targetUsers: { userId: string | null; email: string; fullName: string; enrolledAt: string }[] = [];
+    type CohortWindow = { startsAt: Date | null; endsAt: Date | null };
+    let targetUsers: {
+      userId: string | null;
+      email: string;
+      fullName: string;
+      enrolledAt: string;
+      cohort: CohortWindow | null;
+    }[] = [];
 
     if (cohortId) {
       const members = await prisma.cohortMember.findMany({
         where: { cohortId },
-        include: { user: { select: { fullName: true } } },
+        include: {
+          user: { select: { fullName: true } },
+          cohort: { select: { startsAt: true, endsAt: true } },
+        },
       });
       targetUsers = members.map(m => {
         let displayName = "Learner";
@@ -373,7 +844,8 @@ tutorsRouter.get(
           userId: m.userId,
           email: m.email,
           fullName: displayName,
-          enrolledAt: m.addedAt.toISOString()
+          enrolledAt: m.addedAt.toISOString(),
+          cohort: m.cohort,
         };
       });
     } else {
@@ -381,11 +853,24 @@ tutorsRouter.get(
         where: { courseId },
         include: { user: { select: { fullName: true, email: true } } },
       });
+      // Enrolled learners are forecast against the active cohort they sit in, if any
+      const memberships = await prisma.cohortMember.findMany({
+        where: { userId: { in: enrollments.map(e => e.userId) }, status: "active", cohort: { courseId } },
+        orderBy: { addedAt: "asc" },
+        select: { userId: true, cohort: { select: { startsAt: true, endsAt: true } } },
+      });
+      const cohortByUser = new Map<string, CohortWindow>();
+      memberships.forEach((membership) => {
+        if (membership.userId) {
+          cohortByUser.set(membership.userId, membership.cohort);
+        }
+      });
       targetUsers = enrollments.map(e => ({
         userId: e.userId,
         email: e.user.email,
         fullName: e.user.fullName || e.user.email.split('@')[0] || "Learner",
-        enrolledAt: e.enrolledAt.toISOString()
+        enrolledAt: e.enrolledAt.toISOString(),
+        cohort: cohortByUser.get(e.userId) ?? null,
       }));
     }
 
@@ -394,36 +879,29 @@ tutorsRouter.get(
       .map(u => u.userId)
       .filter((id): id is string => id !== null);
 
-    let progressRows: { user_id: string; module_no: number; quiz_passed: boolean }[] = [];
-
-    if (userIdsWithProgress.length > 0) {
-      try {
-        progressRows = await prisma.$queryRaw<{ user_id: string; module_no: number; quiz_passed: boolean }[]>(Prisma.sql`
-          SELECT user_id, module_no, quiz_passed
-          FROM module_progress
-          WHERE course_id::text = ${courseId}
-          AND user_id::text IN (${Prisma.join(userIdsWithProgress)})
-        `);
-      } catch (error) {
-        console.error("Failed to fetch progress rows:", error);
-        // Continue without progress rows so at least the list shows up
-      }
-    }
-
-    const progressByUser = new Map<string, { passedModules: Set<number> }>();
-    progressRows.forEach((row) => {
-      if (!row.quiz_passed) {
-        return;
-      }
-      const entry = progressByUser.get(row.user_id) ?? { passedModules: new Set<number>() };
-      entry.passedModules.add(row.module_no);
-      progressByUser.set(row.user_id, entry);
-    });
+    const [passedModulesByUser, forecastsByUser, riskScores] = await Promise.all([
+      getPassedModulesByUser(courseId, userIdsWithProgress),
+      getCompletionForecasts(
+        courseId,
+        totalModules,
+        targetUsers.flatMap((user) =>
+          user.userId
+            ? [{
+                userId: user.userId,
+                startedAt: resolveForecastStart(new Date(user.enrolledAt), user.cohort?.startsAt),
+                cohortEndsAt: user.cohort?.endsAt ?? null,
+              }]
+            : [],
+        ),
+      ),
+      ensureCourseRiskScores(courseId).then(() => listLearnerRiskScores(courseId, { userIds: userIdsWithProgress })),
+    ]);
+    const riskByUser = new Map(riskScores.map((risk) => [risk.userId, risk]));
 
     const learners = targetUsers.map((user) => {
-      const progress = user.userId ? progressByUser.get(user.userId) : null;
-      const completedCount = progress ? progress.passedModules.size : 0;
+      const completedCount = user.userId ? passedModulesByUser.get(user.userId)?.size ?? 0 : 0;
       const percent = totalModules === 0 ? 0 : Math.min(100, Math.floor((completedCount / totalModules) * 100));
+      const risk = user.userId ? riskByUser.get(user.userId) : undefined;
       return {
         userId: user.userId || `temp-${user.email}`, // Fallback for key
         fullName: user.fullName,
@@ -432,6 +910,10 @@ tutorsRouter.get(
         completedModules: completedCount,
         totalModules,
         percent,
+        forecast: user.userId ? forecastsByUser.get(user.userId) ?? null : null,
+        risk: risk
+          ? { score: risk.score, level: risk.level, reasons: describeRiskReasons(risk), computedAt: risk.computedAt }
+          : null,
       };
     });
 
@@ -478,6 +960,7 @@ tutorsRouter.post(
         tutorName,
         learnerName: learner,
         courseName: course,
+        scope: { userId: auth.userId },
       });
 
       res.status(200).json({ improvedMessage });
@@ -772,4 +1255,1202 @@ tutorsRouter.get(
   }),
 );
 
+// GET /tutors/:courseId/cohorts/:cohortId/performance-factors?days=30
+// Compares the cohort with the rest of the course and ranks the signals by effect size
+tutorsRouter.get(
+  "/:courseId/cohorts/:cohortId/performance-factors",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, cohortId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const days = typeof req.query.days === "string" ? Number.parseInt(req.query.days, 10) : DEFAULT_FACTOR_WINDOW_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      res.status(400).json({ message: "days must be between 1 and 365" });
+      return;
+    }
+
+    try {
+      const analysis = await analyzeCohortPerformanceFactors(courseId, cohortId, days);
+      if (!analysis) {
+        res.status(404).json({ message: "Cohort not found" });
+        return;
+      }
+      res.status(200).json({ analysis });
+    } catch (error) {
+      console.error("Failed to analyze cohort performance factors:", error);
+      res.status(500).json({ message: "Failed to analyze cohort performance factors" });
+    }
+  }),
+);
+
+// GET /tutors/:courseId/cold-call/prompts
+// Lists cold-call prompts for the course with live answer counts
+tutorsRouter.get(
+  "/:courseId/cold-call/prompts",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const prompts = await prisma.coldCallPrompt.findMany({
+      where: { courseId },
+      orderBy: [{ topic: { moduleNo: "asc" } }, { topic: { topicNumber: "asc" } }, { displayOrder: "asc" }],
+      select: {
+        promptId: true,
+        topicId: true,
+        promptText: true,
+        isActive: true,
+        topic: { select: { topicName: true, moduleNo: true } },
+        _count: {
+          select: {
+            messages: { where: { parentId: null, status: COLD_CALL_STATUS_ACTIVE, deletedAt: null } },
+          },
+        },
+      },
+    });
+
+    res.status(200).json({
+      prompts: prompts.map((prompt) => ({
+        promptId: prompt.promptId,
+        topicId: prompt.topicId,
+        topicName: prompt.topic.topicName,
+        moduleNo: prompt.topic.moduleNo,
+        promptText: prompt.promptText,
+        isActive: prompt.isActive,
+        answerCount: prompt._count.messages,
+      })),
+    });
+  }),
+);
+
+// GET /tutors/:courseId/cold-call/prompts/:promptId/threads?cohortId=xxx
+// Returns the full thread for one cohort, including hidden messages, plus participation per learner
+tutorsRouter.get(
+  "/:courseId/cold-call/prompts/:promptId/threads",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, promptId } = req.params;
+    const cohortId = typeof req.query.cohortId === "string" ? req.query.cohortId : "";
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!cohortId) {
+      res.status(400).json({ message: "cohortId query parameter is required" });
+      return;
+    }
+
+    const [prompt, cohort] = await Promise.all([
+      prisma.coldCallPrompt.findFirst({
+        where: { promptId, courseId },
+        select: { promptId: true, promptText: true, helperText: true, topicId: true },
+      }),
+      prisma.cohort.findFirst({ where: { cohortId, courseId }, select: { cohortId: true, name: true } }),
+    ]);
+    if (!prompt || !cohort) {
+      res.status(404).json({ message: "Prompt or cohort not found for this course" });
+      return;
+    }
+
+    const [messages, participation] = await Promise.all([
+      listModerationThread(promptId, cohortId),
+      getPromptParticipation(promptId, cohortId),
+    ]);
+
+    res.status(200).json({ prompt, cohort, messages, participation });
+  }),
+);
+
+// PATCH /tutors/:courseId/cold-call/messages/:messageId
+// Hides/restores a message or pins/unpins a top-level answer
+tutorsRouter.patch(
+  "/:courseId/cold-call/messages/:messageId",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, messageId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(messageId).success) {
+      res.status(400).json({ message: "Invalid message id" });
+      return;
+    }
+
+    const parsed = coldCallModerationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid moderation payload" });
+      return;
+    }
+
+    const message = await prisma.coldCallMessage.findFirst({
+      where: { messageId, prompt: { courseId } },
+      select: { messageId: true, promptId: true, cohortId: true, parentId: true, status: true },
+    });
+    if (!message) {
+      res.status(404).json({ message: "Message not found" });
+      return;
+    }
+    // What the author removed stays removed; only a tutor's own hide can be undone
+    if (message.status !== COLD_CALL_STATUS_ACTIVE && message.status !== COLD_CALL_STATUS_HIDDEN) {
+      res.status(409).json({ message: "The learner deleted this message" });
+      return;
+    }
+
+    const { status, pinned } = parsed.data;
+    if (pinned && message.parentId) {
+      res.status(400).json({ message: "Only top-level answers can be pinned" });
+      return;
+    }
+    const nextStatus = status ?? message.status;
+    if (pinned && nextStatus !== COLD_CALL_STATUS_ACTIVE) {
+      res.status(400).json({ message: "Restore the message before pinning it" });
+      return;
+    }
+
+    const data: Prisma.ColdCallMessageUpdateManyMutationInput = {};
+    if (status === COLD_CALL_STATUS_HIDDEN) {
+      data.status = COLD_CALL_STATUS_HIDDEN;
+      data.deletedAt = new Date();
+      data.pinnedAt = null;
+    } else if (status === COLD_CALL_STATUS_ACTIVE) {
+      data.status = COLD_CALL_STATUS_ACTIVE;
+      data.deletedAt = null;
+    }
+    if (pinned !== undefined) {
+      data.pinnedAt = pinned ? new Date() : null;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (pinned) {
+        // One exemplary answer per prompt and cohort
+        await tx.coldCallMessage.updateMany({
+          where: { promptId: message.promptId, cohortId: message.cohortId, pinnedAt: { not: null } },
+          data: { pinnedAt: null },
+        });
+      }
+      // Guarded on the status read above, so a learner deleting meanwhile is not undone
+      const changed = await tx.coldCallMessage.updateMany({ where: { messageId, status: message.status }, data });
+      if (changed.count === 0) {
+        return null;
+      }
+      return tx.coldCallMessage.findUniqueOrThrow({
+        where: { messageId },
+        select: { messageId: true, status: true, deletedAt: true, pinnedAt: true },
+      });
+    });
+
+    if (!updated) {
+      res.status(409).json({ message: "The message changed while you were moderating it. Please reload." });
+      return;
+    }
+
+    res.status(200).json({ message: updated });
+  }),
+);
+
+// POST /tutors/:courseId/cold-call/messages/:messageId/replies
+// Posts a tutor reply into a cohort thread
+tutorsRouter.post(
+  "/:courseId/cold-call/messages/:messageId/replies",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, messageId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = coldCallReplySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Reply text is required" });
+      return;
+    }
+
+    const parent = await prisma.coldCallMessage.findFirst({
+      where: { messageId, prompt: { courseId } },
+      select: { messageId: true, promptId: true, cohortId: true, rootId: true },
+    });
+    if (!parent) {
+      res.status(404).json({ message: "Message not found" });
+      return;
+    }
+
+    const reply = await prisma.coldCallMessage.create({
+      data: {
+        promptId: parent.promptId,
+        cohortId: parent.cohortId,
+        userId: auth.userId,
+        parentId: parent.messageId,
+        rootId: parent.rootId ?? parent.messageId,
+        body: parsed.data.body,
+      },
+      select: { messageId: true, createdAt: true },
+    });
+
+    res.status(201).json({ message: reply });
+  }),
+);
+
+async function findCourseTopic(courseId: string, topicId: string) {
+  return prisma.topic.findFirst({
+    where: { topicId, courseId },
+    select: { topicId: true },
+  });
+}
+
+// GET /tutors/:courseId/topics/:topicId/cold-call-prompts
+// Lists every prompt for a topic in display order, including inactive ones
+tutorsRouter.get(
+  "/:courseId/topics/:topicId/cold-call-prompts",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, topicId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!(await findCourseTopic(courseId, topicId))) {
+      res.status(404).json({ message: "Topic not found for this course" });
+      return;
+    }
+
+    const prompts = await prisma.coldCallPrompt.findMany({
+      where: { topicId },
+      orderBy: { displayOrder: "asc" },
+      select: coldCallPromptSelect,
+    });
+
+    res.status(200).json({ prompts });
+  }),
+);
+
+// POST /tutors/:courseId/topics/:topicId/cold-call-prompts
+// Appends a new prompt after the topic's existing prompts
+tutorsRouter.post(
+  "/:courseId/topics/:topicId/cold-call-prompts",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, topicId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = coldCallPromptSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid cold-call prompt", errors: parsed.error.flatten() });
+      return;
+    }
+
+    if (!(await findCourseTopic(courseId, topicId))) {
+      res.status(404).json({ message: "Topic not found for this course" });
+      return;
+    }
+
+    const last = await prisma.coldCallPrompt.aggregate({
+      where: { topicId },
+      _max: { displayOrder: true },
+    });
+
+    try {
+      const prompt = await prisma.coldCallPrompt.create({
+        data: {
+          courseId,
+          topicId,
+          promptText: parsed.data.promptText,
+          helperText: parsed.data.helperText ?? null,
+          isActive: parsed.data.isActive ?? true,
+          displayOrder: (last._max.displayOrder ?? -1) + 1,
+        },
+        select: coldCallPromptSelect,
+      });
+      res.status(201).json({ prompt });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        res.status(409).json({ message: "Another prompt was added at the same time. Please retry." });
+        return;
+      }
+      throw error;
+    }
+  }),
+);
+
+// PUT /tutors/:courseId/topics/:topicId/cold-call-prompts/order
+// Reorders all of a topic's prompts; body lists every promptId in the new order
+tutorsRouter.put(
+  "/:courseId/topics/:topicId/cold-call-prompts/order",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, topicId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = coldCallPromptOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "promptIds must be a non-empty list of prompt ids" });
+      return;
+    }
+    const { promptIds } = parsed.data;
+
+    const existing = await prisma.coldCallPrompt.findMany({
+      where: { topicId, courseId },
+      select: { promptId: true },
+    });
+    const existingIds = new Set(existing.map((prompt) => prompt.promptId));
+    const sameSet =
+      promptIds.length === existingIds.size &&
+      new Set(promptIds).size === promptIds.length &&
+      promptIds.every((promptId) => existingIds.has(promptId));
+    if (!sameSet) {
+      res.status(400).json({ message: "promptIds must list every prompt for this topic exactly once" });
+      return;
+    }
+
+    // uq_cold_call_prompt_topic_order is checked per statement, so park every row on a
+    // negative slot first and only then write the final positions.
+    await prisma.$transaction([
+      ...promptIds.map((promptId, index) =>
+        prisma.coldCallPrompt.update({ where: { promptId }, data: { displayOrder: -(index + 1) } }),
+      ),
+      ...promptIds.map((promptId, index) =>
+        prisma.coldCallPrompt.update({ where: { promptId }, data: { displayOrder: index } }),
+      ),
+    ]);
+
+    const prompts = await prisma.coldCallPrompt.findMany({
+      where: { topicId },
+      orderBy: { displayOrder: "asc" },
+      select: coldCallPromptSelect,
+    });
+
+    res.status(200).json({ prompts });
+  }),
+);
+
+// PATCH /tutors/:courseId/topics/:topicId/cold-call-prompts/:promptId
+// Edits prompt text, helper text or active state
+tutorsRouter.patch(
+  "/:courseId/topics/:topicId/cold-call-prompts/:promptId",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, topicId, promptId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = coldCallPromptUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid cold-call prompt", errors: parsed.error.flatten() });
+      return;
+    }
+
+    const existing = await prisma.coldCallPrompt.findFirst({
+      where: { promptId, topicId, courseId },
+      select: { promptId: true },
+    });
+    if (!existing) {
+      res.status(404).json({ message: "Prompt not found" });
+      return;
+    }
+
+    const prompt = await prisma.coldCallPrompt.update({
+      where: { promptId },
+      data: {
+        promptText: parsed.data.promptText,
+        helperText: parsed.data.helperText,
+        isActive: parsed.data.isActive,
+      },
+      select: coldCallPromptSelect,
+    });
+
+    res.status(200).json({ prompt });
+  }),
+);
+
+// DELETE /tutors/:courseId/topics/:topicId/cold-call-prompts/:promptId
+// Deletes an unused prompt; prompts with learner responses must be deactivated instead
+tutorsRouter.delete(
+  "/:courseId/topics/:topicId/cold-call-prompts/:promptId",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, topicId, promptId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const existing = await prisma.coldCallPrompt.findFirst({
+      where: { promptId, topicId, courseId },
+      select: { promptId: true, _count: { select: { messages: true } } },
+    });
+    if (!existing) {
+      res.status(404).json({ message: "Prompt not found" });
+      return;
+    }
+
+    if (existing._count.messages > 0) {
+      res.status(409).json({ message: "This prompt already has learner responses. Deactivate it instead." });
+      return;
+    }
+
+    await prisma.coldCallPrompt.delete({ where: { promptId } });
+    res.status(204).send();
+  }),
+);
+
+// GET /tutors/:courseId/llm-budget
+// Monthly AI budget for the course with day-by-day burn-down
+tutorsRouter.get(
+  "/:courseId/llm-budget",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const [budget, canEdit] = await Promise.all([getCourseBudgetBurnDown(courseId), isCourseOwner(auth.userId, courseId)]);
+    res.status(200).json({ budget: { ...budget, canEdit } });
+  }),
+);
+
+// PUT /tutors/:courseId/llm-budget
+tutorsRouter.put(
+  "/:courseId/llm-budget",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const isOwner = await isCourseOwner(auth.userId, courseId);
+    if (!isOwner) {
+      res.status(403).json({ message: "Only the course owner can change the AI budget" });
+      return;
+    }
+
+    const parsed = courseBudgetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid budget", issues: parsed.error.flatten() });
+      return;
+    }
+
+    await setCourseBudget(courseId, parsed.data);
+    const budget = await getCourseBudgetBurnDown(courseId);
+    res.status(200).json({ budget: { ...budget, canEdit: true } });
+  }),
+);
+
+// DELETE /tutors/:courseId/llm-budget
+tutorsRouter.delete(
+  "/:courseId/llm-budget",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const isOwner = await isCourseOwner(auth.userId, courseId);
+    if (!isOwner) {
+      res.status(403).json({ message: "Only the course owner can change the AI budget" });
+      return;
+    }
+
+    await clearCourseBudget(courseId);
+    res.status(204).send();
+  }),
+);
+
+// GET /tutors/:courseId/assistant-settings
+tutorsRouter.get(
+  "/:courseId/assistant-settings",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { courseId },
+      select: { assistantNoSpoilers: true },
+    });
+    if (!course) {
+      res.status(404).json({ message: "Course not found" });
+      return;
+    }
+
+    res.status(200).json({ settings: { noSpoilers: course.assistantNoSpoilers } });
+  }),
+);
+
+// PUT /tutors/:courseId/assistant-settings
+tutorsRouter.put(
+  "/:courseId/assistant-settings",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = assistantSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid assistant settings", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const course = await prisma.course.update({
+      where: { courseId },
+      data: { assistantNoSpoilers: parsed.data.noSpoilers },
+      select: { assistantNoSpoilers: true },
+    });
+
+    res.status(200).json({ settings: { noSpoilers: course.assistantNoSpoilers } });
+  }),
+);
+
+// PUT /tutors/:courseId/modules/:moduleNo/quiz-key
+tutorsRouter.put(
+  "/:courseId/modules/:moduleNo/quiz-key",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const moduleNo = Number.parseInt(req.params.moduleNo, 10);
+    if (Number.isNaN(moduleNo)) {
+      res.status(400).json({ message: "Module number must be a valid integer" });
+      return;
+    }
+
+    const parsed = quizAnswerKeySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid quiz answer key", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const moduleTopic = await prisma.topic.findFirst({ where: { courseId, moduleNo }, select: { topicId: true } });
+    if (!moduleTopic) {
+      res.status(404).json({ message: "Module not found" });
+      return;
+    }
+
+    const { keyed, regraded } = await replaceQuizAnswerKey(courseId, moduleNo, parsed.data.questions);
+    res.status(200).json({ moduleNo, questionCount: keyed, regradedAttempts: regraded });
+  }),
+);
+
+// POST /tutors/:courseId/content/uploads?filename=week-1.pdf  (body: the file)
+tutorsRouter.post(
+  "/:courseId/content/uploads",
+  requireAuth,
+  requireTutor,
+  contentUploadParser,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = contentUploadQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid upload", issues: parsed.error.flatten() });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ message: "Upload body is empty" });
+      return;
+    }
+
+    const run = await startIngestInBackground({
+      courseId,
+      source: "upload",
+      triggeredBy: auth.userId,
+      documents: [{ fileName: parsed.data.filename, data: req.body }],
+    });
+
+    res.status(202).json({ run });
+  }),
+);
+
+// POST /tutors/:courseId/content/topic-text
+tutorsRouter.post(
+  "/:courseId/content/topic-text",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const run = await startIngestInBackground({
+      courseId,
+      source: "upload",
+      triggeredBy: auth.userId,
+      documents: [],
+      includeTopicText: true,
+    });
+
+    res.status(202).json({ run });
+  }),
+);
+
+// GET /tutors/:courseId/content/ingest-runs
+tutorsRouter.get(
+  "/:courseId/content/ingest-runs",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const runs = await listIngestRuns(courseId);
+    res.status(200).json({ runs });
+  }),
+);
+
+// GET /tutors/:courseId/faq-clusters?topicId=&includePromoted=true
+tutorsRouter.get(
+  "/:courseId/faq-clusters",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = faqClusterQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid FAQ cluster filters", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const clusters = await listFaqClusters(courseId, {
+      topicId: parsed.data.topicId,
+      includePromoted: parsed.data.includePromoted === "true",
+    });
+    res.status(200).json({ clusters });
+  }),
+);
+
+// POST /tutors/:courseId/faq-clusters/refresh
+tutorsRouter.post(
+  "/:courseId/faq-clusters/refresh",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = faqRefreshSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid refresh request", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const clusters = await refreshFaqClusters(courseId, parsed.data.windowDays);
+    res.status(200).json({ clusters });
+  }),
+);
+
+// POST /tutors/:courseId/faq-clusters/:clusterId/promote
+tutorsRouter.post(
+  "/:courseId/faq-clusters/:clusterId/promote",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, clusterId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(clusterId).success) {
+      res.status(400).json({ message: "Invalid cluster id" });
+      return;
+    }
+
+    const parsed = faqClusterPromoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid promotion", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const promoted = await promoteFaqCluster(courseId, clusterId, parsed.data);
+    if (!promoted) {
+      res.status(404).json({ message: "Cluster not found or already promoted" });
+      return;
+    }
+
+    res.status(201).json(promoted);
+  }),
+);
+
+// GET /tutors/:courseId/answer-reviews?status=open|curated_answer|missing_material|dismissed|all
+tutorsRouter.get(
+  "/:courseId/answer-reviews",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = answerReviewQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid review query", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const reviews = await listAnswerReviews(courseId, parsed.data.status);
+    res.status(200).json({ reviews });
+  }),
+);
+
+// POST /tutors/:courseId/answer-reviews/:feedbackId/resolve
+tutorsRouter.post(
+  "/:courseId/answer-reviews/:feedbackId/resolve",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, feedbackId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(feedbackId).success) {
+      res.status(400).json({ message: "Invalid review id" });
+      return;
+    }
+
+    const parsed = answerReviewResolutionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid resolution", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const result = await resolveAnswerReview(courseId, feedbackId, auth.userId, parsed.data);
+    if (result.status === "not_found") {
+      res.status(404).json({ message: "Review not found" });
+      return;
+    }
+    if (result.status === "already_resolved") {
+      res.status(409).json({ message: "This review has already been resolved" });
+      return;
+    }
+    if (result.status === "prompt_required") {
+      res.status(400).json({ message: "A prompt is required when the original question is unavailable" });
+      return;
+    }
+
+    res.status(200).json({ review: result.review });
+  }),
+);
+
+// GET /tutors/:courseId/handoffs?status=
+tutorsRouter.get(
+  "/:courseId/handoffs",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = handoffQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid handoff query", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const handoffs = await listTutorHandoffs(courseId, parsed.data.status);
+    const unreadCount = handoffs.reduce((total, handoff) => total + handoff.unreadCount, 0);
+    res.status(200).json({ handoffs, unreadCount });
+  }),
+);
+
+// GET /tutors/:courseId/handoffs/:handoffId
+tutorsRouter.get(
+  "/:courseId/handoffs/:handoffId",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, handoffId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(handoffId).success) {
+      res.status(400).json({ message: "Invalid handoff id" });
+      return;
+    }
+
+    const transcript = await getHandoffTranscript(courseId, handoffId);
+    if (!transcript) {
+      res.status(404).json({ message: "Handoff not found" });
+      return;
+    }
+
+    res.status(200).json(transcript);
+  }),
+);
+
+// POST /tutors/:courseId/handoffs/:handoffId/messages
+tutorsRouter.post(
+  "/:courseId/handoffs/:handoffId/messages",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, handoffId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(handoffId).success) {
+      res.status(400).json({ message: "Invalid handoff id" });
+      return;
+    }
+
+    const parsed = handoffReplySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid reply", issues: parsed.error.flatten() });
+      return;
+    }
+
+    const message = await postTutorReply(courseId, handoffId, auth.userId, parsed.data.content);
+    if (!message) {
+      res.status(404).json({ message: "Handoff not found" });
+      return;
+    }
+
+    res.status(201).json({ message });
+  }),
+);
+
+// POST /tutors/:courseId/handoffs/:handoffId/resolve
+tutorsRouter.post(
+  "/:courseId/handoffs/:handoffId/resolve",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId, handoffId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(handoffId).success) {
+      res.status(400).json({ message: "Invalid handoff id" });
+      return;
+    }
+
+    const handoff = await resolveHandoff(courseId, handoffId, auth.userId);
+    if (!handoff) {
+      res.status(404).json({ message: "Handoff not found" });
+      return;
+    }
+
+    res.status(200).json({ handoff });
+  }),
+);
+
+// GET /tutors/:courseId/risk-scores?cohortId=&minLevel=
+tutorsRouter.get(
+  "/:courseId/risk-scores",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    const parsed = riskScoreQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid risk score query", issues: parsed.error.flatten() });
+      return;
+    }
+
+    await ensureCourseRiskScores(courseId);
+    const scores = await listLearnerRiskScores(courseId, parsed.data);
+    res.status(200).json({ scores });
+  }),
+);
+
+// POST /tutors/:courseId/risk-scores/refresh
+tutorsRouter.post(
+  "/:courseId/risk-scores/refresh",
+  requireAuth,
+  requireTutor,
+  asyncHandler(async (req, res) => {
+    const auth = (req as AuthenticatedRequest).auth;
+    const { courseId } = req.params;
+    if (!auth) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    const allowed = await isTutorForCourse(auth.userId, courseId);
+    if (!allowed) {
+      res.status(403).json({ message: "Tutor is not assigned to this course" });
+      return;
+    }
+
+    await refreshCourseRiskScores(courseId);
+    const scores = await listLearnerRiskScores(courseId);
+    res.status(200).json({ scores });
+  }),
+);
+
 export { tutorsRouter };
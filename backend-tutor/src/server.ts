@@ -2,6 +2,7 @@ import process from "node:process";
 import { createApp } from "./app.js";
 import { env } from "./config/env.js";
 import { prisma } from "./services/prisma.js";
+import { startRiskScoreSchedule } from "./services/riskScoreSchedule.js";
 
 const app = createApp();
 
@@ -22,6 +23,7 @@ async function startServer(): Promise<void> {
     console.log(`Primary frontend origin: ${env.frontendAppUrl}`);
     console.log(`OAuth redirect URI: ${env.googleRedirectUri}`);
   });
+  const stopRiskScoreSchedule = startRiskScoreSchedule();
 
   const shutdown = async () => {
     console.log("Shutting down server...");
@@ -33,6 +35,7 @@ async function startServer(): Promise<void> {
     }, 2000);
 
     try {
+      stopRiskScoreSchedule();
       server.close();
       await prisma.$disconnect();
     } catch (err) {
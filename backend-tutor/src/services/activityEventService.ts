@@ -8,6 +8,13 @@ export type TelemetryEventInput = {
   eventType: string;
   payload?: Prisma.JsonValue;
   occurredAt?: Date | null;
+  clientEventId?: string | null;
+};
+
+export type ActivityEventResult = {
+  clientEventId: string | null;
+  status: "accepted" | "duplicate" | "rejected";
+  reason?: string;
 };
 
 export type LearnerStatusRow = {
@@ -25,7 +32,7 @@ export type LearnerStatusRow = {
 };
 
 const VIDEO_EVENT_PREFIXES = ["video.play", "video.resume", "video.buffer.end", "progress.snapshot", "persona.", "notes.", "lesson.", "cold_call.", "tutor.response"];
-const FRICTION_EVENT_PREFIXES = ["quiz.fail", "quiz.retry", "tutor.prompt", "cold_call.star", "cold_call.submit", "tutor.response_received", "content.friction"];
+const FRICTION_EVENT_PREFIXES = ["quiz.fail", "quiz.retry", "tutor.prompt", "cold_call.star", "cold_call.submit", "tutor.response_received", "tutor.handoff", "content.friction"];
 const ATTENTION_EVENT_PREFIXES = ["idle.", "video.pause", "video.buffer.start", "lesson.locked_click"];
 
 export function classifyEvent(eventType: string, payload?: Prisma.JsonValue): { derivedStatus?: string; statusReason?: string } {
@@ -38,7 +45,14 @@ export function classifyEvent(eventType: string, payload?: Prisma.JsonValue): {
     };
   }
 
-  if (FRICTION_EVENT_PREFIXES.some((prefix) => normalized.startsWith(prefix))) {
+  // A thumbs-down on an assistant answer means the learner is still stuck
+  const isUnhelpfulAnswer =
+    normalized === "tutor.response" &&
+    typeof payload === "object" &&
+    payload !== null &&
+    (payload as Record<string, unknown>).rating === "down";
+
+  if (isUnhelpfulAnswer || FRICTION_EVENT_PREFIXES.some((prefix) => normalized.startsWith(prefix))) {
     return {
       derivedStatus: "content_friction",
       statusReason: buildReason(eventType, payload, "Learner signaled friction"),
@@ -65,14 +79,51 @@ function buildReason(eventType: string, payload: Prisma.JsonValue | undefined, f
   return `${fallback} (${eventType})`;
 }
 
-export async function recordActivityEvents(userId: string, events: TelemetryEventInput[]): Promise<void> {
+export async function recordActivityEvents(userId: string, events: TelemetryEventInput[]): Promise<ActivityEventResult[]> {
   if (events.length === 0) {
-    return;
+    return [];
+  }
+
+  const results: ActivityEventResult[] = events.map((event) => ({
+    clientEventId: event.clientEventId ?? null,
+    status: "accepted",
+  }));
+
+  const courseIds = Array.from(new Set(events.map((event) => event.courseId)));
+  const allowedCourses = new Set<string>();
+  for (const courseId of courseIds) {
+    if (await isLearnerInCourse(userId, courseId)) {
+      allowedCourses.add(courseId);
+    }
   }
 
-  const rows = events.map((event) => {
+  const clientIds = events
+    .map((event) => event.clientEventId)
+    .filter((id): id is string => Boolean(id));
+  const existing = clientIds.length
+    ? await prisma.learnerActivityEvent.findMany({
+        where: { userId, clientEventId: { in: clientIds } },
+        select: { clientEventId: true },
+      })
+    : [];
+  const seenClientIds = new Set(existing.map((row) => row.clientEventId));
+
+  const rows: Prisma.LearnerActivityEventCreateManyInput[] = [];
+  events.forEach((event, index) => {
+    if (!allowedCourses.has(event.courseId)) {
+      results[index] = { ...results[index], status: "rejected", reason: "Learner is not enrolled in this course" };
+      return;
+    }
+    if (event.clientEventId) {
+      if (seenClientIds.has(event.clientEventId)) {
+        results[index] = { ...results[index], status: "duplicate" };
+        return;
+      }
+      seenClientIds.add(event.clientEventId);
+    }
+
     const { derivedStatus, statusReason } = classifyEvent(event.eventType, event.payload);
-    return {
+    rows.push({
       userId,
       courseId: event.courseId,
       moduleNo: event.moduleNo ?? null,
@@ -81,13 +132,61 @@ export async function recordActivityEvents(userId: string, events: TelemetryEven
       payload: event.payload ?? Prisma.JsonNull,
       derivedStatus: derivedStatus ?? null,
       statusReason: statusReason ?? null,
+      clientEventId: event.clientEventId ?? null,
       createdAt: event.occurredAt ?? new Date(),
-    };
+    });
   });
 
-  await prisma.learnerActivityEvent.createMany({
-    data: rows,
+  if (rows.length > 0) {
+    // skipDuplicates covers a retry racing the original batch past the lookup above
+    await prisma.learnerActivityEvent.createMany({
+      data: rows,
+      skipDuplicates: true,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Records an event the server observed on the learner's behalf, e.g. a cold-call submission.
+ * Callers have already authorized the learner, so no enrollment check or dedupe applies.
+ */
+export async function recordServerActivityEvent(userId: string, event: TelemetryEventInput): Promise<void> {
+  const { derivedStatus, statusReason } = classifyEvent(event.eventType, event.payload);
+  await prisma.learnerActivityEvent.create({
+    data: {
+      userId,
+      courseId: event.courseId,
+      moduleNo: event.moduleNo ?? null,
+      topicId: event.topicId ?? null,
+      eventType: event.eventType,
+      payload: event.payload ?? Prisma.JsonNull,
+      derivedStatus: derivedStatus ?? null,
+      statusReason: statusReason ?? null,
+      createdAt: event.occurredAt ?? new Date(),
+    },
+  });
+}
+
+export async function isLearnerInCourse(userId: string, courseId: string): Promise<boolean> {
+  const enrollment = await prisma.enrollment.findFirst({
+    where: { userId, courseId, status: "active" },
+    select: { enrollmentId: true },
+  });
+  if (enrollment) {
+    return true;
+  }
+
+  const member = await prisma.cohortMember.findFirst({
+    where: {
+      userId,
+      status: "active",
+      cohort: { courseId, isActive: true },
+    },
+    select: { memberId: true },
   });
+  return Boolean(member);
 }
 
 export async function getLatestStatusesForCourse(courseId: string, cohortId?: string): Promise<LearnerStatusRow[]> {
@@ -0,0 +1,205 @@
+import { Prisma, type AssistantAnswerFeedback } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordServerActivityEvent } from "./activityEventService";
+import { appendTopicPromptSuggestion } from "./topicPromptSuggestionService";
+
+export const ANSWER_RATINGS = ["up", "down"] as const;
+export type AnswerRating = (typeof ANSWER_RATINGS)[number];
+
+export const ANSWER_REVIEW_STATUSES = ["open", "curated_answer", "missing_material", "dismissed"] as const;
+export type AnswerReviewStatus = (typeof ANSWER_REVIEW_STATUSES)[number];
+
+export type AnswerReviewResolution =
+  | { action: "curated_answer"; promptText?: string; answer: string }
+  | { action: "missing_material"; note: string }
+  | { action: "dismissed"; note?: string };
+
+const REVIEW_QUEUE_LIMIT = 50;
+
+/**
+ * Stores a learner's thumbs up or down on one of their assistant answers and emits a
+ * `tutor.response` activity event. A thumbs-down opens the answer for tutor review; rating
+ * again replaces the earlier rating. Returns null when the message is not the learner's answer.
+ */
+export async function rateAssistantAnswer(options: {
+  userId: string;
+  messageId: string;
+  rating: AnswerRating;
+  reason?: string | null;
+}): Promise<AssistantAnswerFeedback | null> {
+  const message = await prisma.ragChatMessage.findUnique({
+    where: { messageId: options.messageId },
+    select: {
+      role: true,
+      session: { select: { userId: true, courseId: true, topicId: true, topic: { select: { moduleNo: true } } } },
+      feedback: { select: { rating: true, reviewStatus: true } },
+    },
+  });
+  if (!message || message.role !== "assistant" || message.session.userId !== options.userId) {
+    return null;
+  }
+
+  const reason = options.reason?.trim() || null;
+  // Re-submitting the same thumbs-down keeps a tutor's resolution; anything else starts over
+  const keepsReview = options.rating === "down" && message.feedback?.rating === "down";
+  const reviewStatus = options.rating === "down" ? (keepsReview ? message.feedback?.reviewStatus ?? "open" : "open") : null;
+
+  const feedback = await prisma.assistantAnswerFeedback.upsert({
+    where: { messageId: options.messageId },
+    create: {
+      messageId: options.messageId,
+      userId: options.userId,
+      courseId: message.session.courseId,
+      topicId: message.session.topicId,
+      rating: options.rating,
+      reason,
+      reviewStatus,
+    },
+    update: {
+      rating: options.rating,
+      reason,
+      reviewStatus,
+      ...(keepsReview
+        ? {}
+        : { resolutionNote: null, resolvedSuggestionId: null, reviewedBy: null, reviewedAt: null }),
+    },
+  });
+
+  await recordServerActivityEvent(options.userId, {
+    courseId: message.session.courseId,
+    moduleNo: message.session.topic.moduleNo,
+    topicId: message.session.topicId,
+    eventType: "tutor.response",
+    payload: { messageId: options.messageId, rating: options.rating, ...(reason ? { reason } : {}) },
+  });
+
+  return feedback;
+}
+
+/**
+ * The learner question each assistant message answered, keyed by the answer's message id.
+ */
+async function findAnsweredQuestions(answerIds: string[]): Promise<Map<string, string>> {
+  if (answerIds.length === 0) {
+    return new Map();
+  }
+  const rows = await prisma.$queryRaw<Array<{ message_id: string; content: string }>>(Prisma.sql`
+    SELECT a.message_id::text AS message_id, q.content
+    FROM cp_rag_chat_messages a
+    CROSS JOIN LATERAL (
+      SELECT content
+      FROM cp_rag_chat_messages
+      WHERE session_id = a.session_id
+        AND role = 'user'
+        AND created_at < a.created_at
+      ORDER BY created_at DESC
+      LIMIT 1
+    ) q
+    WHERE a.message_id::text IN (${Prisma.join(answerIds)})
+  `);
+  return new Map(rows.map((row) => [row.message_id, row.content]));
+}
+
+/**
+ * Thumbs-down answers for a course, newest first, each with the question that prompted it and
+ * the contexts the answer was generated from.
+ */
+export async function listAnswerReviews(courseId: string, status: AnswerReviewStatus | "all" = "open") {
+  const reviews = await prisma.assistantAnswerFeedback.findMany({
+    where: { courseId, rating: "down", reviewStatus: status === "all" ? { not: null } : status },
+    orderBy: { createdAt: "desc" },
+    take: REVIEW_QUEUE_LIMIT,
+    include: {
+      message: {
+        select: { content: true, citations: true, retrievedContexts: true, createdAt: true },
+      },
+      topic: { select: { topicName: true, moduleNo: true, moduleName: true } },
+      user: { select: { fullName: true } },
+    },
+  });
+  const questions = await findAnsweredQuestions(reviews.map((review) => review.messageId));
+
+  return reviews.map(({ message, topic, user, ...review }) => ({
+    ...review,
+    learnerName: user.fullName,
+    topicName: topic.topicName,
+    moduleNo: topic.moduleNo,
+    moduleName: topic.moduleName,
+    question: questions.get(review.messageId) ?? null,
+    answer: message.content,
+    answeredAt: message.createdAt,
+    citations: message.citations ?? [],
+    contexts: message.retrievedContexts ?? [],
+  }));
+}
+
+export type AnswerReviewResolutionResult =
+  | { status: "resolved"; review: AssistantAnswerFeedback }
+  | { status: "not_found" }
+  // Another tutor closed the review first
+  | { status: "already_resolved" }
+  // A curated answer needs a prompt and the learner's question could not be found
+  | { status: "prompt_required" };
+
+/**
+ * Closes an open review: with a curated answer added to the topic's suggested prompts, as a flag
+ * that the course material is missing something, or dismissed.
+ */
+export async function resolveAnswerReview(
+  courseId: string,
+  feedbackId: string,
+  reviewerId: string,
+  resolution: AnswerReviewResolution,
+): Promise<AnswerReviewResolutionResult> {
+  const review = await prisma.assistantAnswerFeedback.findFirst({
+    where: { feedbackId, courseId, rating: "down" },
+    select: { messageId: true, topicId: true, reviewStatus: true },
+  });
+  if (!review) {
+    return { status: "not_found" };
+  }
+  if (review.reviewStatus !== "open") {
+    return { status: "already_resolved" };
+  }
+
+  let promptText: string | undefined;
+  if (resolution.action === "curated_answer") {
+    const questions = await findAnsweredQuestions([review.messageId]);
+    promptText = resolution.promptText?.trim() || questions.get(review.messageId)?.trim();
+    if (!promptText) {
+      return { status: "prompt_required" };
+    }
+  }
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    // Only an open review is closed, so two tutors resolving it at once cannot both act on it
+    const claimed = await tx.assistantAnswerFeedback.updateMany({
+      where: { feedbackId, reviewStatus: "open" },
+      data: {
+        reviewStatus: resolution.action,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        resolutionNote: resolution.action === "curated_answer" ? null : resolution.note?.trim() || null,
+      },
+    });
+    if (claimed.count === 0) {
+      return { status: "already_resolved" } as const;
+    }
+    if (resolution.action !== "curated_answer" || !promptText) {
+      const resolved = await tx.assistantAnswerFeedback.findUniqueOrThrow({ where: { feedbackId } });
+      return { status: "resolved", review: resolved } as const;
+    }
+
+    const suggestion = await appendTopicPromptSuggestion(tx, {
+      courseId,
+      topicId: review.topicId,
+      promptText,
+      answer: resolution.answer,
+    });
+    const resolved = await tx.assistantAnswerFeedback.update({
+      where: { feedbackId },
+      data: { resolvedSuggestionId: suggestion.suggestionId },
+    });
+    return { status: "resolved", review: resolved } as const;
+  });
+}
@@ -3,6 +3,8 @@
  * 
  * Provides read-only functions to fetch and analyze chatbot interaction data.
  * Supports cohort filtering to match the existing dashboard behavior.
+ * Whether a question was predefined is decided when it is written (see
+ * questionClassificationService) and read from the stored message here.
  */
 
 import { prisma } from "./prisma";
@@ -46,7 +48,7 @@ function levenshteinDistance(str1: string, str2: string): number {
  * Calculate similarity percentage between two strings
  * Returns a value between 0 and 100
  */
-function calculateSimilarity(str1: string, str2: string): number {
+export function calculateSimilarity(str1: string, str2: string): number {
     const distance = levenshteinDistance(str1, str2);
     const maxLength = Math.max(str1.length, str2.length);
 
@@ -57,28 +59,16 @@ function calculateSimilarity(str1: string, str2: string): number {
 }
 
 /**
- * Check if a question is similar to a specific prompt
+ * Similarity percentage at which a question counts as a suggested prompt when matching by text.
+ * Shared by every lexical matcher so they agree on what is a predefined question.
  */
-function isSimilarQuestion(question: string, prompt: string): boolean {
-    const SIMILARITY_THRESHOLD = 70;
-    return calculateSimilarity(question, prompt) >= SIMILARITY_THRESHOLD;
-}
+export const QUESTION_SIMILARITY_THRESHOLD = 70;
 
 /**
- * Check if a question matches any predefined prompts using fuzzy matching
- * Returns true if similarity is >= 70%
+ * Check if a question is similar to a specific prompt
  */
-function matchesAnyPrompt(question: string, prompts: string[]): boolean {
-    const SIMILARITY_THRESHOLD = 70; // 70% similarity required
-
-    for (const prompt of prompts) {
-        const similarity = calculateSimilarity(question, prompt);
-        if (similarity >= SIMILARITY_THRESHOLD) {
-            return true;
-        }
-    }
-
-    return false;
+export function isSimilarQuestion(question: string, prompt: string): boolean {
+    return calculateSimilarity(question, prompt) >= QUESTION_SIMILARITY_THRESHOLD;
 }
 
 interface ChatbotSessionStats {
@@ -181,7 +171,8 @@ export async function getChatbotSessionStats(
                 select: {
                     messages: {
                         where: {
-                            role: 'user' // Only count user messages
+                            role: 'user', // Only count user messages
+                            handoffId: null // Messages written to a tutor during a handoff are not assistant questions
                         }
                     }
                 }
@@ -262,7 +253,8 @@ export async function getQuestionTypeAnalysis(
             courseId,
             userId: { in: learnerIds }
         },
-        role: 'user' // Only analyze user questions
+        role: 'user', // Only analyze user questions
+        handoffId: null
     };
 
     if (topicId) {
@@ -274,7 +266,7 @@ export async function getQuestionTypeAnalysis(
         where: messageWhere,
         select: {
             messageId: true,
-            content: true,
+            isPredefined: true,
             session: {
                 select: {
                     topicId: true,
@@ -300,32 +292,6 @@ export async function getQuestionTypeAnalysis(
         };
     }
 
-    // Fetch predefined prompts for the course
-    const promptsWhere: any = { courseId };
-    if (topicId) {
-        promptsWhere.topicId = topicId;
-    }
-
-    const prompts = await prisma.topicPromptSuggestion.findMany({
-        where: promptsWhere,
-        select: {
-            suggestionId: true,
-            promptText: true,
-            topicId: true
-        }
-    });
-
-    // Group prompts by topic for efficient lookup
-    const promptsByTopic = new Map<string, string[]>();
-    prompts.forEach(p => {
-        if (p.topicId) {
-            if (!promptsByTopic.has(p.topicId)) {
-                promptsByTopic.set(p.topicId, []);
-            }
-            promptsByTopic.get(p.topicId)!.push(p.promptText);
-        }
-    });
-
     // Analyze each message
     let totalPredefined = 0;
     let totalCustom = 0;
@@ -340,8 +306,7 @@ export async function getQuestionTypeAnalysis(
 
     messages.forEach(msg => {
         const topicId = msg.session.topicId;
-        const topicPrompts = promptsByTopic.get(topicId) || [];
-        const isPredefined = matchesAnyPrompt(msg.content, topicPrompts);
+        const isPredefined = msg.isPredefined === true;
 
         if (isPredefined) {
             totalPredefined++;
@@ -445,25 +410,16 @@ export async function getPerLearnerStats(
                 }
             },
             messages: {
-                where: { role: 'user' },
+                where: { role: 'user', handoffId: null },
                 select: {
                     messageId: true,
-                    content: true,
+                    isPredefined: true,
                     createdAt: true
                 }
             }
         }
     });
 
-    // Get all prompt suggestions for fuzzy matching
-    const promptSuggestions = await prisma.topicPromptSuggestion.findMany({
-        where: { courseId },
-        select: {
-            promptText: true,
-            topicId: true
-        }
-    });
-
     // Build per-learner statistics
     const learnerStatsMap = new Map<string, {
         userId: string;
@@ -501,9 +457,6 @@ export async function getPerLearnerStats(
         const moduleName = session.topic?.moduleName || 'Unknown Module';
         stats.moduleActivity.set(moduleName, (stats.moduleActivity.get(moduleName) || 0) + 1);
 
-        // Analyze questions
-        const topicPrompts = promptSuggestions.filter(p => p.topicId === session.topicId);
-
         for (const message of session.messages) {
             stats.totalQuestions++;
 
@@ -512,12 +465,7 @@ export async function getPerLearnerStats(
                 stats.lastActivityAt = message.createdAt;
             }
 
-            // Check if question is predefined or custom
-            const isPredefined = topicPrompts.some(prompt =>
-                isSimilarQuestion(message.content, prompt.promptText)
-            );
-
-            if (isPredefined) {
+            if (message.isPredefined === true) {
                 stats.predefinedCount++;
             } else {
                 stats.customCount++;
@@ -604,7 +552,7 @@ export async function getLearnerCustomQuestions(
                 }
             },
             messages: {
-                where: { role: 'user' },
+                where: { role: 'user', handoffId: null, OR: [{ isPredefined: false }, { isPredefined: null }] },
                 select: {
                     content: true,
                     createdAt: true
@@ -614,15 +562,6 @@ export async function getLearnerCustomQuestions(
         }
     });
 
-    // Get all prompt suggestions for fuzzy matching
-    const promptSuggestions = await prisma.topicPromptSuggestion.findMany({
-        where: { courseId },
-        select: {
-            promptText: true,
-            topicId: true
-        }
-    });
-
     const customQuestions: Array<{
         questionText: string;
         topicName: string;
@@ -631,22 +570,13 @@ export async function getLearnerCustomQuestions(
     }> = [];
 
     for (const session of sessions) {
-        const topicPrompts = promptSuggestions.filter(p => p.topicId === session.topicId);
-
         for (const message of session.messages) {
-            // Check if question is custom (not matching any predefined prompt)
-            const isPredefined = topicPrompts.some(prompt =>
-                isSimilarQuestion(message.content, prompt.promptText)
-            );
-
-            if (!isPredefined) {
-                customQuestions.push({
-                    questionText: message.content,
-                    topicName: session.topic?.topicName || 'Unknown Topic',
-                    moduleName: session.topic?.moduleName || 'Unknown Module',
-                    askedAt: message.createdAt
-                });
-            }
+            customQuestions.push({
+                questionText: message.content,
+                topicName: session.topic?.topicName || 'Unknown Topic',
+                moduleName: session.topic?.moduleName || 'Unknown Module',
+                askedAt: message.createdAt
+            });
         }
     }
 
@@ -692,23 +622,14 @@ export async function getModuleActivityOverview(
                 }
             },
             messages: {
-                where: { role: 'user' },
+                where: { role: 'user', handoffId: null },
                 select: {
-                    content: true
+                    isPredefined: true
                 }
             }
         }
     });
 
-    // Get all prompt suggestions for fuzzy matching
-    const promptSuggestions = await prisma.topicPromptSuggestion.findMany({
-        where: { courseId },
-        select: {
-            promptText: true,
-            topicId: true
-        }
-    });
-
     // Build module statistics
     const moduleStatsMap = new Map<string, {
         moduleNo: number;
@@ -736,18 +657,10 @@ export async function getModuleActivityOverview(
         const stats = moduleStatsMap.get(moduleKey)!;
         stats.totalSessions++;
 
-        // Analyze questions
-        const topicPrompts = promptSuggestions.filter(p => p.topicId === session.topicId);
-
         for (const message of session.messages) {
             stats.totalQuestions++;
 
-            // Check if question is custom
-            const isPredefined = topicPrompts.some(prompt =>
-                isSimilarQuestion(message.content, prompt.promptText)
-            );
-
-            if (!isPredefined) {
+            if (message.isPredefined !== true) {
                 stats.customQuestionCount++;
             }
         }
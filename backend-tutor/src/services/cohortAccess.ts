@@ -52,23 +52,17 @@ const resolveAuthUserId = (req: Request): AccessDecision | { userId: string } =>
   }
 };
 
-export const checkCohortAccessForUser = async (
+const findActiveMembership = async (
   userId: string,
-  courseId: string,
-  activeCohorts?: CohortRecord[],
-): Promise<AccessDecision> => {
-  const cohorts = activeCohorts ?? (await listActiveCohorts(courseId));
-  if (cohorts.length === 0) {
-    return { allowed: true };
-  }
-
+  cohorts: CohortRecord[],
+): Promise<{ cohortId: string } | null | "unknown_user"> => {
   const user = await prisma.user.findUnique({
     where: { userId },
     select: { email: true },
   });
 
   if (!user?.email) {
-    return { allowed: false, status: 401, message: "Unauthorized" };
+    return "unknown_user";
   }
 
   const normalizedEmail = toLowerEmail(user.email);
@@ -83,11 +77,12 @@ export const checkCohortAccessForUser = async (
         { email: { equals: normalizedEmail, mode: "insensitive" } },
       ],
     },
-    select: { memberId: true, userId: true, email: true },
+    orderBy: { addedAt: "desc" },
+    select: { memberId: true, cohortId: true, userId: true, email: true },
   });
 
   if (!member) {
-    return { allowed: false, status: 403, message: COHORT_ACCESS_DENIED_MESSAGE };
+    return null;
   }
 
   if (!member.userId || member.email !== normalizedEmail) {
@@ -97,9 +92,52 @@ export const checkCohortAccessForUser = async (
     });
   }
 
+  return { cohortId: member.cohortId };
+};
+
+export const checkCohortAccessForUser = async (
+  userId: string,
+  courseId: string,
+  activeCohorts?: CohortRecord[],
+): Promise<AccessDecision> => {
+  const cohorts = activeCohorts ?? (await listActiveCohorts(courseId));
+  if (cohorts.length === 0) {
+    return { allowed: true };
+  }
+
+  const membership = await findActiveMembership(userId, cohorts);
+  if (membership === "unknown_user") {
+    return { allowed: false, status: 401, message: "Unauthorized" };
+  }
+
+  if (!membership) {
+    return { allowed: false, status: 403, message: COHORT_ACCESS_DENIED_MESSAGE };
+  }
+
   return { allowed: true };
 };
 
+/**
+ * Resolves the active cohort a learner belongs to for a course, or null when they are not a member.
+ * Unlike checkCohortAccessForUser, a course without cohorts yields null rather than open access.
+ */
+export const resolveCohortForUser = async (
+  userId: string,
+  courseId: string,
+): Promise<CohortRecord | null> => {
+  const cohorts = await listActiveCohorts(courseId);
+  if (cohorts.length === 0) {
+    return null;
+  }
+
+  const membership = await findActiveMembership(userId, cohorts);
+  if (!membership || membership === "unknown_user") {
+    return null;
+  }
+
+  return cohorts.find((cohort) => cohort.cohortId === membership.cohortId) ?? null;
+};
+
 export const checkCohortAccessFromRequest = async (
   req: Request,
   courseId: string,
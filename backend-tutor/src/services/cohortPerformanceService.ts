@@ -0,0 +1,348 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getPassedModulesByUser } from "./moduleQuizAttemptService";
+
+export const DEFAULT_FACTOR_WINDOW_DAYS = 30;
+const MIN_GROUP_SIZE = 2;
+const UNCLASSIFIED_STATUS = "unclassified";
+
+const ACTIVITY_STATUS_LABELS: Record<string, string> = {
+  engaged: "Engaged activity events per learner",
+  attention_drift: "Attention-drift events per learner",
+  content_friction: "Content-friction events per learner",
+  [UNCLASSIFIED_STATUS]: "Other activity events per learner",
+};
+
+const TIME_OF_DAY_BUCKETS = [
+  { key: "morning", label: "Share of activity in the morning (05-12 UTC)" },
+  { key: "afternoon", label: "Share of activity in the afternoon (12-17 UTC)" },
+  { key: "evening", label: "Share of activity in the evening (17-22 UTC)" },
+  { key: "night", label: "Share of activity at night (22-05 UTC)" },
+] as const;
+
+export type FactorCategory = "activity" | "quiz" | "chatbot" | "time_of_day";
+export type EffectMagnitude = "negligible" | "small" | "medium" | "large";
+
+export type PerformanceFactor = {
+  key: string;
+  label: string;
+  category: FactorCategory;
+  unit: "count" | "percent" | "ratio";
+  cohortValue: number | null;
+  baselineValue: number | null;
+  cohortSampleSize: number;
+  baselineSampleSize: number;
+  effectSize: number | null;
+  magnitude: EffectMagnitude | null;
+  direction: "higher" | "lower" | "same" | null;
+  impact: "positive" | "negative" | "neutral";
+};
+
+export type CohortPerformanceAnalysis = {
+  cohort: { cohortId: string; name: string };
+  windowDays: number;
+  cohortLearners: number;
+  baselineLearners: number;
+  averageCompletion: { cohort: number; baseline: number | null };
+  factors: PerformanceFactor[];
+};
+
+export type PerformanceSignal = {
+  key: string;
+  label: string;
+  category: FactorCategory;
+  unit: PerformanceFactor["unit"];
+  // Whether a higher value is good for learners; null when it is neither
+  higherIsBetter: boolean | null;
+  values: Map<string, number>;
+};
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sampleVariance = (values: number[]) => {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+/**
+ * Cohen's d with a pooled standard deviation. Positive values mean group a sits above group b.
+ */
+export function cohensD(a: number[], b: number[]): number | null {
+  if (a.length < MIN_GROUP_SIZE || b.length < MIN_GROUP_SIZE) {
+    return null;
+  }
+  const pooled = Math.sqrt(
+    ((a.length - 1) * sampleVariance(a) + (b.length - 1) * sampleVariance(b)) / (a.length + b.length - 2),
+  );
+  const difference = mean(a) - mean(b);
+  if (pooled === 0) {
+    return difference === 0 ? 0 : null;
+  }
+  return difference / pooled;
+}
+
+export function classifyEffect(effectSize: number): EffectMagnitude {
+  const size = Math.abs(effectSize);
+  if (size < 0.2) return "negligible";
+  if (size < 0.5) return "small";
+  if (size < 0.8) return "medium";
+  return "large";
+}
+
+/**
+ * Contrasts one signal's per-learner values between the cohort and the rest of the course.
+ */
+export function compareSignal(signal: PerformanceSignal, cohortIds: string[], baselineIds: string[]): PerformanceFactor {
+  const pick = (ids: string[]) => ids.flatMap((id) => (signal.values.has(id) ? [signal.values.get(id)!] : []));
+  const cohortValues = pick(cohortIds);
+  const baselineValues = pick(baselineIds);
+  const effectSize = cohensD(cohortValues, baselineValues);
+  const magnitude = effectSize === null ? null : classifyEffect(effectSize);
+  const direction =
+    effectSize === null ? null : magnitude === "negligible" ? "same" : effectSize > 0 ? "higher" : "lower";
+
+  let impact: PerformanceFactor["impact"] = "neutral";
+  if (signal.higherIsBetter !== null && (direction === "higher" || direction === "lower")) {
+    impact = (direction === "higher") === signal.higherIsBetter ? "positive" : "negative";
+  }
+
+  return {
+    key: signal.key,
+    label: signal.label,
+    category: signal.category,
+    unit: signal.unit,
+    cohortValue: cohortValues.length > 0 ? round(mean(cohortValues)) : null,
+    baselineValue: baselineValues.length > 0 ? round(mean(baselineValues)) : null,
+    cohortSampleSize: cohortValues.length,
+    baselineSampleSize: baselineValues.length,
+    effectSize: effectSize === null ? null : round(effectSize),
+    magnitude,
+    direction,
+    impact,
+  };
+}
+
+/**
+ * Ranks factors by absolute effect size; factors without enough data to compare go last.
+ */
+export function rankFactors(factors: PerformanceFactor[]): PerformanceFactor[] {
+  return [...factors].sort((a, b) => {
+    if (a.effectSize === null && b.effectSize === null) return 0;
+    if (a.effectSize === null) return 1;
+    if (b.effectSize === null) return -1;
+    return Math.abs(b.effectSize) - Math.abs(a.effectSize);
+  });
+}
+
+async function buildActivitySignals(courseId: string, userIds: string[], since: Date): Promise<PerformanceSignal[]> {
+  const [statusRows, hourRows] = await Promise.all([
+    prisma.learnerActivityEvent.groupBy({
+      by: ["userId", "derivedStatus"],
+      where: { courseId, userId: { in: userIds }, createdAt: { gte: since } },
+      _count: { _all: true },
+    }),
+    prisma.$queryRaw<{ user_id: string; morning: bigint; afternoon: bigint; evening: bigint; night: bigint }[]>(Prisma.sql`
+      SELECT user_id::text AS user_id,
+             COUNT(*) FILTER (WHERE EXTRACT(HOUR FROM created_at AT TIME ZONE 'UTC') >= 5 AND EXTRACT(HOUR FROM created_at AT TIME ZONE 'UTC') < 12) AS morning,
+             COUNT(*) FILTER (WHERE EXTRACT(HOUR FROM created_at AT TIME ZONE 'UTC') >= 12 AND EXTRACT(HOUR FROM created_at AT TIME ZONE 'UTC') < 17) AS afternoon,
+             COUNT(*) FILTER (WHERE EXTRACT(HOUR FROM created_at AT TIME ZONE 'UTC') >= 17 AND EXTRACT(HOUR FROM created_at AT TIME ZONE 'UTC') < 22) AS evening,
+             COUNT(*) FILTER (WHERE EXTRACT(HOUR FROM created_at AT TIME ZONE 'UTC') >= 22 OR EXTRACT(HOUR FROM created_at AT TIME ZONE 'UTC') < 5) AS night
+      FROM learner_activity_events
+      WHERE course_id = ${courseId}::uuid
+        AND user_id::text IN (${Prisma.join(userIds)})
+        AND created_at >= ${since}
+      GROUP BY user_id
+    `),
+  ]);
+
+  // Volume signals count every learner, so those with no events contribute a zero
+  const statusSignals = Object.entries(ACTIVITY_STATUS_LABELS).map(([status, label]) => {
+    const values = new Map(userIds.map((userId) => [userId, 0]));
+    statusRows
+      .filter((row) => (row.derivedStatus ?? UNCLASSIFIED_STATUS) === status)
+      .forEach((row) => values.set(row.userId, (values.get(row.userId) ?? 0) + row._count._all));
+    return {
+      key: `activity.${status}`,
+      label,
+      category: "activity" as const,
+      unit: "count" as const,
+      higherIsBetter: status === "engaged" ? true : status === UNCLASSIFIED_STATUS ? null : false,
+      values,
+    };
+  });
+
+  // Mix signals only cover learners who were active in the window
+  const timeSignals = TIME_OF_DAY_BUCKETS.map((bucket) => {
+    const values = new Map<string, number>();
+    hourRows.forEach((row) => {
+      const total = Number(row.morning) + Number(row.afternoon) + Number(row.evening) + Number(row.night);
+      if (total > 0) {
+        values.set(row.user_id, (Number(row[bucket.key]) / total) * 100);
+      }
+    });
+    return {
+      key: `time_of_day.${bucket.key}`,
+      label: bucket.label,
+      category: "time_of_day" as const,
+      unit: "percent" as const,
+      higherIsBetter: null,
+      values,
+    };
+  });
+
+  return [...statusSignals, ...timeSignals];
+}
+
+async function buildQuizSignals(courseId: string, userIds: string[], since: Date): Promise<PerformanceSignal[]> {
+  const rows = await prisma.moduleQuizAttempt.groupBy({
+    by: ["userId", "moduleNo", "passed"],
+    where: { courseId, userId: { in: userIds }, submittedAt: { gte: since } },
+    _count: { _all: true },
+  });
+
+  const totals = new Map<string, { attempts: number; passed: number; modules: Set<number> }>();
+  rows.forEach((row) => {
+    const entry = totals.get(row.userId) ?? { attempts: 0, passed: 0, modules: new Set<number>() };
+    entry.attempts += row._count._all;
+    entry.passed += row.passed ? row._count._all : 0;
+    entry.modules.add(row.moduleNo);
+    totals.set(row.userId, entry);
+  });
+
+  const passRate = new Map<string, number>();
+  const attemptsPerModule = new Map<string, number>();
+  totals.forEach((entry, userId) => {
+    passRate.set(userId, (entry.passed / entry.attempts) * 100);
+    attemptsPerModule.set(userId, entry.attempts / entry.modules.size);
+  });
+
+  return [
+    {
+      key: "quiz.pass_rate",
+      label: "Quiz pass rate",
+      category: "quiz",
+      unit: "percent",
+      higherIsBetter: true,
+      values: passRate,
+    },
+    {
+      key: "quiz.attempts_per_module",
+      label: "Quiz attempts per module",
+      category: "quiz",
+      unit: "ratio",
+      higherIsBetter: false,
+      values: attemptsPerModule,
+    },
+  ];
+}
+
+async function buildChatbotSignals(courseId: string, userIds: string[], since: Date): Promise<PerformanceSignal[]> {
+  const questionRows = await prisma.ragChatMessage.groupBy({
+    by: ["userId", "isPredefined"],
+    where: { role: "user", handoffId: null, userId: { in: userIds }, createdAt: { gte: since }, session: { courseId } },
+    _count: { _all: true },
+  });
+
+  const volume = new Map(userIds.map((userId) => [userId, 0]));
+  const predefined = new Map<string, number>();
+  questionRows.forEach((row) => {
+    volume.set(row.userId, (volume.get(row.userId) ?? 0) + row._count._all);
+    if (row.isPredefined === true) {
+      predefined.set(row.userId, (predefined.get(row.userId) ?? 0) + row._count._all);
+    }
+  });
+
+  // Unclassified questions count as written by the learner, as in the chatbot stats
+  const customShare = new Map<string, number>();
+  volume.forEach((total, userId) => {
+    if (total > 0) {
+      customShare.set(userId, ((total - (predefined.get(userId) ?? 0)) / total) * 100);
+    }
+  });
+
+  return [
+    {
+      key: "chatbot.questions",
+      label: "Chatbot questions per learner",
+      category: "chatbot",
+      unit: "count",
+      higherIsBetter: null,
+      values: volume,
+    },
+    {
+      key: "chatbot.custom_share",
+      label: "Share of chatbot questions written by the learner (vs. suggested prompts)",
+      category: "chatbot",
+      unit: "percent",
+      higherIsBetter: true,
+      values: customShare,
+    },
+  ];
+}
+
+/**
+ * Contrasts a cohort with the rest of the course on activity, quiz, chatbot and time-of-day
+ * signals, returning factors ranked by how strongly the cohort differs.
+ */
+export async function analyzeCohortPerformanceFactors(
+  courseId: string,
+  cohortId: string,
+  windowDays: number = DEFAULT_FACTOR_WINDOW_DAYS,
+): Promise<CohortPerformanceAnalysis | null> {
+  const cohort = await prisma.cohort.findFirst({
+    where: { cohortId, courseId },
+    select: { cohortId: true, name: true },
+  });
+  if (!cohort) {
+    return null;
+  }
+
+  const [cohortMembers, enrollments, courseMembers, maxModule] = await Promise.all([
+    prisma.cohortMember.findMany({ where: { cohortId }, select: { userId: true } }),
+    prisma.enrollment.findMany({ where: { courseId }, select: { userId: true } }),
+    prisma.cohortMember.findMany({ where: { cohort: { courseId } }, select: { userId: true } }),
+    prisma.topic.aggregate({ where: { courseId, moduleNo: { gt: 0 } }, _max: { moduleNo: true } }),
+  ]);
+
+  const cohortIds = Array.from(
+    new Set(cohortMembers.map((member) => member.userId).filter((id): id is string => id !== null)),
+  );
+  const cohortIdSet = new Set(cohortIds);
+  const baselineIds = Array.from(
+    new Set([
+      ...enrollments.map((enrollment) => enrollment.userId),
+      ...courseMembers.map((member) => member.userId).filter((id): id is string => id !== null),
+    ]),
+  ).filter((userId) => !cohortIdSet.has(userId));
+  const allIds = [...cohortIds, ...baselineIds];
+
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+  const totalModules = maxModule._max.moduleNo || 8;
+
+  const [passedModules, activitySignals, quizSignals, chatbotSignals] = await Promise.all([
+    getPassedModulesByUser(courseId, allIds),
+    allIds.length > 0 ? buildActivitySignals(courseId, allIds, since) : Promise.resolve([]),
+    buildQuizSignals(courseId, allIds, since),
+    buildChatbotSignals(courseId, allIds, since),
+  ]);
+
+  const completionOf = (ids: string[]) =>
+    ids.length > 0
+      ? Math.floor(mean(ids.map((id) => Math.min(100, ((passedModules.get(id)?.size ?? 0) / totalModules) * 100))))
+      : null;
+
+  const factors = [...activitySignals, ...quizSignals, ...chatbotSignals].map((signal) =>
+    compareSignal(signal, cohortIds, baselineIds),
+  );
+
+  return {
+    cohort,
+    windowDays,
+    cohortLearners: cohortIds.length,
+    baselineLearners: baselineIds.length,
+    averageCompletion: { cohort: completionOf(cohortIds) ?? 0, baseline: completionOf(baselineIds) },
+    factors: rankFactors(factors),
+  };
+}
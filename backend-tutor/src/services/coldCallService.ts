@@ -0,0 +1,222 @@
+import { prisma } from "./prisma";
+
+export const COLD_CALL_STATUS_ACTIVE = "active";
+export const COLD_CALL_STATUS_DELETED = "deleted";
+export const COLD_CALL_STATUS_HIDDEN = "hidden";
+
+const REMOVED_MESSAGE_BODY = "This response was removed.";
+
+export type ColdCallMessageView = {
+  messageId: string;
+  body: string;
+  parentId: string | null;
+  rootId: string | null;
+  createdAt: Date;
+  user: {
+    userId: string;
+    fullName: string;
+  };
+  starCount: number;
+  starredByMe: boolean;
+  isRemoved: boolean;
+  isPinned: boolean;
+  isTutor: boolean;
+};
+
+export type ColdCallModerationMessage = {
+  messageId: string;
+  body: string;
+  parentId: string | null;
+  rootId: string | null;
+  status: string;
+  createdAt: Date;
+  deletedAt: Date | null;
+  pinnedAt: Date | null;
+  user: {
+    userId: string;
+    fullName: string;
+    email: string;
+  };
+  isTutor: boolean;
+  starCount: number;
+};
+
+export type ColdCallParticipationRow = {
+  userId: string | null;
+  fullName: string | null;
+  email: string;
+  hasAnswered: boolean;
+  replyCount: number;
+  starsReceived: number;
+  starsGiven: number;
+};
+
+const isStaffRole = (role: string) => role === "tutor" || role === "admin";
+
+export async function getActivePromptForTopic(topicId: string) {
+  return prisma.coldCallPrompt.findFirst({
+    where: { topicId, isActive: true },
+    orderBy: { displayOrder: "asc" },
+    select: {
+      promptId: true,
+      courseId: true,
+      topicId: true,
+      promptText: true,
+      helperText: true,
+      topic: { select: { moduleNo: true } },
+    },
+  });
+}
+
+export async function findTopLevelMessage(promptId: string, cohortId: string, userId: string) {
+  return prisma.coldCallMessage.findFirst({
+    where: { promptId, cohortId, userId, parentId: null },
+    select: { messageId: true, status: true, deletedAt: true },
+  });
+}
+
+export async function hasActiveSubmission(promptId: string, cohortId: string, userId: string): Promise<boolean> {
+  const message = await findTopLevelMessage(promptId, cohortId, userId);
+  return Boolean(message && message.status === COLD_CALL_STATUS_ACTIVE && !message.deletedAt);
+}
+
+/**
+ * Lists a cohort's thread for a prompt. Removed messages are dropped unless they still
+ * anchor visible replies, in which case they stay as placeholders so threading holds.
+ */
+export async function listThreadMessages(
+  promptId: string,
+  cohortId: string,
+  viewerId: string,
+): Promise<ColdCallMessageView[]> {
+  const rows = await prisma.coldCallMessage.findMany({
+    where: { promptId, cohortId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      messageId: true,
+      body: true,
+      parentId: true,
+      rootId: true,
+      status: true,
+      deletedAt: true,
+      pinnedAt: true,
+      createdAt: true,
+      user: { select: { userId: true, fullName: true, role: true } },
+      _count: { select: { stars: true } },
+      stars: { where: { userId: viewerId }, select: { starId: true } },
+    },
+  });
+
+  const isVisible = (row: (typeof rows)[number]) => row.status === COLD_CALL_STATUS_ACTIVE && !row.deletedAt;
+  const anchoring = new Set<string>();
+  rows.forEach((row) => {
+    if (isVisible(row) && row.parentId) {
+      let parentId: string | null = row.parentId;
+      while (parentId && !anchoring.has(parentId)) {
+        anchoring.add(parentId);
+        parentId = rows.find((candidate) => candidate.messageId === parentId)?.parentId ?? null;
+      }
+    }
+  });
+
+  return rows
+    .filter((row) => isVisible(row) || anchoring.has(row.messageId))
+    .map((row) => {
+      const removed = !isVisible(row);
+      return {
+        messageId: row.messageId,
+        body: removed ? REMOVED_MESSAGE_BODY : row.body,
+        parentId: row.parentId,
+        rootId: row.rootId,
+        createdAt: row.createdAt,
+        user: { userId: row.user.userId, fullName: row.user.fullName },
+        starCount: row._count.stars,
+        starredByMe: row.stars.length > 0,
+        isRemoved: removed,
+        isPinned: !removed && Boolean(row.pinnedAt),
+        isTutor: isStaffRole(row.user.role),
+      };
+    });
+}
+
+/**
+ * Lists every message in a prompt/cohort thread, including hidden and deleted ones, for tutor moderation.
+ */
+export async function listModerationThread(promptId: string, cohortId: string): Promise<ColdCallModerationMessage[]> {
+  const rows = await prisma.coldCallMessage.findMany({
+    where: { promptId, cohortId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      messageId: true,
+      body: true,
+      parentId: true,
+      rootId: true,
+      status: true,
+      createdAt: true,
+      deletedAt: true,
+      pinnedAt: true,
+      user: { select: { userId: true, fullName: true, email: true, role: true } },
+      _count: { select: { stars: true } },
+    },
+  });
+
+  return rows.map((row) => ({
+    messageId: row.messageId,
+    body: row.body,
+    parentId: row.parentId,
+    rootId: row.rootId,
+    status: row.status,
+    createdAt: row.createdAt,
+    deletedAt: row.deletedAt,
+    pinnedAt: row.pinnedAt,
+    user: { userId: row.user.userId, fullName: row.user.fullName, email: row.user.email },
+    isTutor: isStaffRole(row.user.role),
+    starCount: row._count.stars,
+  }));
+}
+
+/**
+ * Summarizes how each active cohort member took part in a prompt's discussion.
+ * Only live messages count towards answers and replies.
+ */
+export async function getPromptParticipation(
+  promptId: string,
+  cohortId: string,
+): Promise<{ participationRate: number; learners: ColdCallParticipationRow[] }> {
+  const [members, messages, starsGiven] = await Promise.all([
+    prisma.cohortMember.findMany({
+      where: { cohortId, status: "active" },
+      select: { userId: true, email: true, user: { select: { fullName: true } } },
+      orderBy: { email: "asc" },
+    }),
+    prisma.coldCallMessage.findMany({
+      where: { promptId, cohortId, status: COLD_CALL_STATUS_ACTIVE, deletedAt: null },
+      select: { userId: true, parentId: true, _count: { select: { stars: true } } },
+    }),
+    prisma.coldCallStar.groupBy({
+      by: ["userId"],
+      where: { message: { promptId, cohortId } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const givenByUser = new Map(starsGiven.map((row) => [row.userId, row._count._all]));
+  const learners = members.map((member) => {
+    const own = member.userId ? messages.filter((message) => message.userId === member.userId) : [];
+    return {
+      userId: member.userId,
+      fullName: member.user?.fullName ?? null,
+      email: member.email,
+      hasAnswered: own.some((message) => message.parentId === null),
+      replyCount: own.filter((message) => message.parentId !== null).length,
+      starsReceived: own.reduce((sum, message) => sum + message._count.stars, 0),
+      starsGiven: member.userId ? givenByUser.get(member.userId) ?? 0 : 0,
+    };
+  });
+
+  const answered = learners.filter((learner) => learner.hasAnswered).length;
+  return {
+    participationRate: learners.length > 0 ? Math.round((answered / learners.length) * 100) : 0,
+    learners,
+  };
+}
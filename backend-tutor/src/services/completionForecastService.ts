@@ -0,0 +1,222 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getFirstPassDatesByUser } from "./moduleQuizAttemptService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_WINDOW_DAYS = 14;
+const BASELINE_WINDOW_DAYS = 42;
+const MIN_DAYS_PER_MODULE = 0.25;
+const MIN_CADENCE_FACTOR = 0.5;
+const MAX_CADENCE_FACTOR = 3;
+// Roughly an 80% interval around the projected finish
+const CONFIDENCE_Z = 1.28;
+
+export type CohortOutlook = "on_track" | "at_risk" | "off_track";
+
+export type CompletionForecast = {
+  status: "completed" | "not_started" | "forecast";
+  completedModules: number;
+  totalModules: number;
+  remainingModules: number;
+  daysPerModule: number | null;
+  cadenceFactor: number;
+  estimatedCompletionDate: Date | null;
+  range: { earliest: Date; latest: Date } | null;
+  confidence: "low" | "medium" | "high" | null;
+  cohortEndsAt: Date | null;
+  cohortOutlook: CohortOutlook | null;
+  projectedToMissCohortEnd: boolean | null;
+};
+
+export type ForecastInput = {
+  startedAt: Date;
+  completionDates: Date[];
+  totalModules: number;
+  recentActiveDays: number;
+  baselineActiveDays: number;
+  cohortEndsAt?: Date | null;
+  now?: Date;
+};
+
+export type ForecastLearner = {
+  userId: string;
+  startedAt: Date;
+  cohortEndsAt: Date | null;
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+const roundTo = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Learners cannot make progress before both they joined and their cohort opened.
+ */
+export function resolveForecastStart(joinedAt: Date, cohortStartsAt?: Date | null): Date {
+  return cohortStartsAt && cohortStartsAt > joinedAt ? cohortStartsAt : joinedAt;
+}
+
+/**
+ * Compares how often the learner showed up over the last two weeks with the six weeks before.
+ * Values above 1 mean they have slowed down, so the remaining modules will take longer.
+ */
+export function computeCadenceFactor(recentActiveDays: number, baselineActiveDays: number): number {
+  const recentRate = recentActiveDays / RECENT_WINDOW_DAYS;
+  const baselineRate = baselineActiveDays / BASELINE_WINDOW_DAYS;
+  if (baselineRate === 0) {
+    return 1;
+  }
+  if (recentRate === 0) {
+    return MAX_CADENCE_FACTOR;
+  }
+  return Math.min(MAX_CADENCE_FACTOR, Math.max(MIN_CADENCE_FACTOR, baselineRate / recentRate));
+}
+
+/**
+ * Projects when a learner will finish from the gaps between their module completions,
+ * scaled by their recent activity cadence, and checks the projection against the cohort end.
+ */
+export function forecastCompletion(input: ForecastInput): CompletionForecast {
+  const now = input.now ?? new Date();
+  const cohortEndsAt = input.cohortEndsAt ?? null;
+  const completionDates = [...input.completionDates].sort((a, b) => a.getTime() - b.getTime());
+  const completedModules = Math.min(completionDates.length, input.totalModules);
+  const remainingModules = Math.max(input.totalModules - completedModules, 0);
+  const cadenceFactor = roundTo(computeCadenceFactor(input.recentActiveDays, input.baselineActiveDays), 2);
+
+  const base = {
+    completedModules,
+    totalModules: input.totalModules,
+    remainingModules,
+    daysPerModule: null,
+    cadenceFactor,
+    range: null,
+    confidence: null,
+    cohortEndsAt,
+  };
+
+  if (input.totalModules > 0 && remainingModules === 0) {
+    const finishedAt = completionDates[completionDates.length - 1] ?? now;
+    const finishedLate = cohortEndsAt ? finishedAt > cohortEndsAt : null;
+    return {
+      ...base,
+      status: "completed",
+      estimatedCompletionDate: finishedAt,
+      cohortOutlook: finishedLate === null ? null : finishedLate ? "off_track" : "on_track",
+      projectedToMissCohortEnd: finishedLate,
+    };
+  }
+
+  if (completedModules === 0) {
+    // Without a single completion there is no pace to project, only a missed deadline to report
+    const cohortOver = cohortEndsAt ? cohortEndsAt <= now : null;
+    return {
+      ...base,
+      status: "not_started",
+      estimatedCompletionDate: null,
+      cohortOutlook: cohortOver ? "off_track" : null,
+      projectedToMissCohortEnd: cohortOver ? true : null,
+    };
+  }
+
+  const intervals: number[] = [];
+  let previous = input.startedAt;
+  completionDates.slice(0, completedModules).forEach((date) => {
+    intervals.push(Math.max((date.getTime() - previous.getTime()) / DAY_MS, MIN_DAYS_PER_MODULE));
+    previous = date;
+  });
+
+  const mean = intervals.reduce((sum, value) => sum + value, 0) / intervals.length;
+  const variance =
+    intervals.length > 1
+      ? intervals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (intervals.length - 1)
+      : 0;
+  const daysPerModule = mean * cadenceFactor;
+
+  // Time already spent since the last completion counts towards the module in progress
+  const lastCompletion = completionDates[completedModules - 1];
+  const elapsedOnCurrent = Math.max((now.getTime() - lastCompletion.getTime()) / DAY_MS, 0);
+  const remainingDays = Math.max(remainingModules * daysPerModule - Math.min(elapsedOnCurrent, daysPerModule), 0);
+  const spread =
+    intervals.length > 1
+      ? CONFIDENCE_Z * Math.sqrt(variance) * cadenceFactor * Math.sqrt(remainingModules)
+      : 0.5 * remainingDays;
+
+  const estimatedCompletionDate = addDays(now, remainingDays);
+  const range = {
+    earliest: addDays(now, Math.max(remainingDays - spread, 0)),
+    latest: addDays(now, remainingDays + spread),
+  };
+
+  let cohortOutlook: CohortOutlook | null = null;
+  if (cohortEndsAt) {
+    if (range.latest <= cohortEndsAt) {
+      cohortOutlook = "on_track";
+    } else if (estimatedCompletionDate > cohortEndsAt) {
+      cohortOutlook = "off_track";
+    } else {
+      cohortOutlook = "at_risk";
+    }
+  }
+
+  return {
+    ...base,
+    status: "forecast",
+    daysPerModule: roundTo(daysPerModule, 1),
+    estimatedCompletionDate,
+    range,
+    confidence: intervals.length >= 6 ? "high" : intervals.length >= 3 ? "medium" : "low",
+    cohortOutlook,
+    projectedToMissCohortEnd: cohortEndsAt ? estimatedCompletionDate > cohortEndsAt : null,
+  };
+}
+
+/**
+ * Builds a forecast for each learner from their quiz passes and recent activity events.
+ */
+export async function getCompletionForecasts(
+  courseId: string,
+  totalModules: number,
+  learners: ForecastLearner[],
+  now: Date = new Date(),
+): Promise<Map<string, CompletionForecast>> {
+  const forecasts = new Map<string, CompletionForecast>();
+  if (learners.length === 0) {
+    return forecasts;
+  }
+
+  const userIds = learners.map((learner) => learner.userId);
+  const recentStart = addDays(now, -RECENT_WINDOW_DAYS);
+  const baselineStart = addDays(recentStart, -BASELINE_WINDOW_DAYS);
+
+  const [completionDatesByUser, activityRows] = await Promise.all([
+    getFirstPassDatesByUser(courseId, userIds),
+    prisma.$queryRaw<{ user_id: string; recent_days: bigint; baseline_days: bigint }[]>(Prisma.sql`
+      SELECT user_id::text AS user_id,
+             COUNT(DISTINCT date_trunc('day', created_at)) FILTER (WHERE created_at >= ${recentStart}) AS recent_days,
+             COUNT(DISTINCT date_trunc('day', created_at)) FILTER (WHERE created_at < ${recentStart}) AS baseline_days
+      FROM learner_activity_events
+      WHERE course_id = ${courseId}::uuid
+        AND user_id::text IN (${Prisma.join(userIds)})
+        AND created_at >= ${baselineStart}
+      GROUP BY user_id
+    `),
+  ]);
+
+  const activityByUser = new Map(activityRows.map((row) => [row.user_id, row]));
+  learners.forEach((learner) => {
+    const activity = activityByUser.get(learner.userId);
+    forecasts.set(
+      learner.userId,
+      forecastCompletion({
+        startedAt: learner.startedAt,
+        completionDates: completionDatesByUser.get(learner.userId) ?? [],
+        totalModules,
+        recentActiveDays: Number(activity?.recent_days ?? 0),
+        baselineActiveDays: Number(activity?.baseline_days ?? 0),
+        cohortEndsAt: learner.cohortEndsAt,
+        now,
+      }),
+    );
+  });
+
+  return forecasts;
+}
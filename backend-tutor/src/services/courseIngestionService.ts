@@ -0,0 +1,273 @@
+import type { CourseIngestRun, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { createEmbeddings } from "../rag/openAiClient";
+import { syncSourceChunks, type ChunkDraft, type ChunkSyncResult } from "../rag/ragService";
+import { chunkSections } from "../rag/textChunker";
+import {
+  detectDocumentFormat,
+  htmlToText,
+  parseDocument,
+  sanitizeExtractedText,
+  type DocumentFormat,
+  type DocumentSection,
+} from "../rag/documentParsers";
+
+export type IngestSource = "cli" | "upload";
+
+export type IngestDocument = {
+  fileName: string;
+  data: Buffer;
+};
+
+type IngestDocumentResult = ChunkSyncResult & {
+  fileName: string;
+  format: DocumentFormat | "topic_text" | null;
+  sections: number;
+  chunks: number;
+  error: string | null;
+};
+
+const emptyResult = (fileName: string, format: IngestDocumentResult["format"]): IngestDocumentResult => ({
+  fileName,
+  format,
+  sections: 0,
+  chunks: 0,
+  added: 0,
+  updated: 0,
+  removed: 0,
+  unchanged: 0,
+  embedded: 0,
+  error: null,
+});
+
+type IngestSection = DocumentSection & {
+  topicId: string | null;
+  moduleNo: number | null;
+};
+
+// Source label for chunks built from the lesson text stored on topics
+export const TOPIC_TEXT_SOURCE = "Lesson text";
+
+const EMBEDDING_BATCH_SIZE = 64;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const normalizeHeading = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80) || "document";
+
+// Stray "\u" sequences break the JSON encoding of chunks on their way back out of Postgres
+const sanitizeChunkContent = (content: string) => sanitizeExtractedText(content).replace(/\\u(?![0-9a-fA-F]{4})/g, "u");
+
+/**
+ * Accepts a course uuid or slug and returns the uuid, or null when no such course exists.
+ */
+export async function resolveCourseId(courseIdOrSlug: string): Promise<string | null> {
+  const course = await prisma.course.findFirst({
+    where: UUID_PATTERN.test(courseIdOrSlug) ? { courseId: courseIdOrSlug } : { slug: courseIdOrSlug },
+    select: { courseId: true },
+  });
+  return course?.courseId ?? null;
+}
+
+type TopicHeading = { topicId: string; moduleNo: number; heading: string };
+
+async function loadTopicHeadings(courseId: string): Promise<TopicHeading[]> {
+  const topics = await prisma.topic.findMany({
+    where: { courseId },
+    orderBy: [{ moduleNo: "asc" }, { topicNumber: "asc" }],
+    select: { topicId: true, moduleNo: true, topicName: true },
+  });
+  return topics
+    .map((topic) => ({ topicId: topic.topicId, moduleNo: topic.moduleNo, heading: normalizeHeading(topic.topicName) }))
+    .filter((topic) => topic.heading.length > 0);
+}
+
+/**
+ * Sections belong to the last topic whose title appeared on or before them, since course
+ * decks and handouts open each topic with its title.
+ */
+function assignTopics(sections: DocumentSection[], headings: TopicHeading[]): IngestSection[] {
+  let current: TopicHeading | null = null;
+  return sections.map((section) => {
+    const text = normalizeHeading(`${section.heading ?? ""} ${section.text}`);
+    const found = headings.filter((topic) => text.includes(topic.heading));
+    if (found.length > 0) {
+      current = found[found.length - 1];
+    }
+    const topic = current as TopicHeading | null;
+    return { ...section, topicId: topic?.topicId ?? null, moduleNo: topic?.moduleNo ?? null };
+  });
+}
+
+async function loadTopicTextSections(courseId: string): Promise<IngestSection[]> {
+  const topics = await prisma.topic.findMany({
+    where: { courseId, textContent: { not: null } },
+    orderBy: [{ moduleNo: "asc" }, { topicNumber: "asc" }],
+    select: { topicId: true, moduleNo: true, topicName: true, textContent: true },
+  });
+  return topics
+    .map((topic) => ({
+      heading: topic.topicName,
+      text: sanitizeExtractedText(htmlToText(topic.textContent ?? "")),
+      page: null,
+      topicId: topic.topicId,
+      moduleNo: topic.moduleNo,
+    }))
+    .filter((section) => section.text.length > 0);
+}
+
+/**
+ * Chunks one source and syncs it into the index under its name, embedding only new text.
+ */
+async function indexSource(
+  courseId: string,
+  sourceDocument: string,
+  sections: IngestSection[],
+): Promise<ChunkSyncResult & { chunks: number }> {
+  const chunks = chunkSections(sections).map((chunk) => ({ ...chunk, content: sanitizeChunkContent(chunk.content) }));
+  if (chunks.length === 0) {
+    throw new Error("No text could be extracted");
+  }
+
+  const sourceKey = slugify(sourceDocument);
+  const drafts: ChunkDraft[] = chunks.map((chunk, index) => ({
+    chunkId: `${courseId}-${sourceKey}-${index + 1}`,
+    courseId,
+    position: index,
+    content: chunk.content,
+    sourceDocument,
+    sourcePage: chunk.section.page,
+    topicId: chunk.section.topicId,
+    moduleNo: chunk.section.moduleNo,
+  }));
+
+  const sync = await syncSourceChunks(courseId, sourceDocument, drafts, async (texts) => {
+    const embeddings: number[][] = [];
+    for (let index = 0; index < texts.length; index += EMBEDDING_BATCH_SIZE) {
+      embeddings.push(...(await createEmbeddings(texts.slice(index, index + EMBEDDING_BATCH_SIZE), { feature: "ingest", courseId })));
+    }
+    return embeddings;
+  });
+  return { ...sync, chunks: drafts.length };
+}
+
+export async function createIngestRun(options: {
+  courseId: string;
+  source: IngestSource;
+  triggeredBy?: string | null;
+  fileNames: string[];
+  includeTopicText?: boolean;
+}): Promise<CourseIngestRun> {
+  const fileNames = options.includeTopicText ? [...options.fileNames, TOPIC_TEXT_SOURCE] : options.fileNames;
+  return prisma.courseIngestRun.create({
+    data: {
+      courseId: options.courseId,
+      source: options.source,
+      triggeredBy: options.triggeredBy ?? null,
+      documents: fileNames.map((fileName) =>
+        emptyResult(fileName, fileName === TOPIC_TEXT_SOURCE ? "topic_text" : detectDocumentFormat(fileName)),
+      ),
+    },
+  });
+}
+
+/**
+ * Indexes each document (and optionally the topics' lesson text) into the course's chunks and
+ * records the outcome on the run. A document that fails is reported without stopping the others,
+ * and the run is marked failed if any did.
+ */
+export async function executeIngestRun(
+  runId: string,
+  options: { courseId: string; documents: IngestDocument[]; includeTopicText?: boolean },
+): Promise<CourseIngestRun> {
+  const { courseId } = options;
+  const results: IngestDocumentResult[] = [];
+
+  try {
+    const headings = await loadTopicHeadings(courseId);
+    for (const document of options.documents) {
+      const result = emptyResult(document.fileName, detectDocumentFormat(document.fileName));
+      try {
+        const { sections } = await parseDocument(document.fileName, document.data);
+        result.sections = sections.length;
+        Object.assign(result, await indexSource(courseId, document.fileName, assignTopics(sections, headings)));
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+      results.push(result);
+    }
+
+    if (options.includeTopicText) {
+      const sections = await loadTopicTextSections(courseId);
+      const result = { ...emptyResult(TOPIC_TEXT_SOURCE, "topic_text"), sections: sections.length };
+      try {
+        Object.assign(result, await indexSource(courseId, TOPIC_TEXT_SOURCE, sections));
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+      results.push(result);
+    }
+  } catch (error) {
+    return finishIngestRun(runId, results, error instanceof Error ? error.message : String(error));
+  }
+
+  const failures = results.filter((result) => result.error);
+  return finishIngestRun(
+    runId,
+    results,
+    failures.length > 0 ? failures.map((result) => `${result.fileName}: ${result.error}`).join("; ") : null,
+  );
+}
+
+async function finishIngestRun(runId: string, results: IngestDocumentResult[], errorMessage: string | null) {
+  return prisma.courseIngestRun.update({
+    where: { runId },
+    data: {
+      status: errorMessage ? "failed" : "succeeded",
+      documents: results as unknown as Prisma.InputJsonValue,
+      chunkCount: results.reduce((sum, result) => sum + result.chunks, 0),
+      addedCount: results.reduce((sum, result) => sum + result.added, 0),
+      updatedCount: results.reduce((sum, result) => sum + result.updated, 0),
+      removedCount: results.reduce((sum, result) => sum + result.removed, 0),
+      errorMessage: errorMessage ? errorMessage.slice(0, 1000) : null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+export async function listIngestRuns(courseId: string, limit = 20) {
+  return prisma.courseIngestRun.findMany({
+    where: { courseId },
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Records a run and indexes in the background so uploads return straight away; callers
+ * follow the run through listIngestRuns.
+ */
+export async function startIngestInBackground(options: {
+  courseId: string;
+  source: IngestSource;
+  triggeredBy?: string | null;
+  documents: IngestDocument[];
+  includeTopicText?: boolean;
+}): Promise<CourseIngestRun> {
+  const run = await createIngestRun({
+    courseId: options.courseId,
+    source: options.source,
+    triggeredBy: options.triggeredBy,
+    fileNames: options.documents.map((document) => document.fileName),
+    includeTopicText: options.includeTopicText,
+  });
+  void executeIngestRun(run.runId, options).catch((error) => {
+    console.error("Course content ingest failed", error);
+  });
+  return run;
+}
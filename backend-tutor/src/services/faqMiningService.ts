@@ -0,0 +1,197 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { calculateSimilarity, isSimilarQuestion } from "./chatbot-stats.service";
+import { appendTopicPromptSuggestion } from "./topicPromptSuggestionService";
+
+// Percent Levenshtein similarity for a question to join a cluster
+const CLUSTER_SIMILARITY_THRESHOLD = 65;
+// Smaller groups are noise rather than a recurring question
+const MIN_CLUSTER_SIZE = 3;
+const SAMPLE_QUESTION_LIMIT = 5;
+// Long questions are compared on their opening, which keeps the pairwise matching affordable
+const COMPARE_LENGTH = 160;
+const QUESTIONS_PER_TOPIC_LIMIT = 500;
+export const DEFAULT_FAQ_WINDOW_DAYS = 90;
+
+type MinedQuestion = {
+  text: string;
+  normalized: string;
+  userId: string;
+  askedAt: Date;
+};
+
+type QuestionGroup = {
+  leader: string;
+  members: MinedQuestion[];
+};
+
+const normalizeQuestion = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, COMPARE_LENGTH);
+
+// Similarity can never exceed the length ratio, so most pairs are ruled out without the full comparison
+function isSameQuestion(a: string, b: string): boolean {
+  const shorter = Math.min(a.length, b.length);
+  const longer = Math.max(a.length, b.length);
+  if (longer === 0 || (shorter / longer) * 100 < CLUSTER_SIMILARITY_THRESHOLD) {
+    return false;
+  }
+  return calculateSimilarity(a, b) >= CLUSTER_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Greedy leader clustering: each question joins the first group whose leader it resembles,
+ * otherwise it starts a new group.
+ */
+function clusterQuestions(questions: MinedQuestion[]): QuestionGroup[] {
+  const groups: QuestionGroup[] = [];
+  questions.forEach((question) => {
+    const group = groups.find((candidate) => isSameQuestion(candidate.leader, question.normalized));
+    if (group) {
+      group.members.push(question);
+    } else {
+      groups.push({ leader: question.normalized, members: [question] });
+    }
+  });
+  return groups;
+}
+
+function summarizeGroup(group: QuestionGroup) {
+  const phrasings = new Map<string, { text: string; count: number }>();
+  group.members.forEach((member) => {
+    const entry = phrasings.get(member.normalized);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      phrasings.set(member.normalized, { text: member.text.trim(), count: 1 });
+    }
+  });
+  const ranked = Array.from(phrasings.values()).sort((a, b) => b.count - a.count || a.text.length - b.text.length);
+  const askedAt = group.members.map((member) => member.askedAt.getTime());
+
+  return {
+    representativeQuestion: ranked[0].text,
+    sampleQuestions: ranked.slice(0, SAMPLE_QUESTION_LIMIT).map((phrasing) => phrasing.text),
+    questionCount: group.members.length,
+    learnerCount: new Set(group.members.map((member) => member.userId)).size,
+    firstAskedAt: new Date(Math.min(...askedAt)),
+    lastAskedAt: new Date(Math.max(...askedAt)),
+  };
+}
+
+/**
+ * Re-mines the course's recurring learner questions per topic from assistant chats over the window.
+ * Questions classified as suggested prompts are left out, and clusters a tutor has promoted are
+ * kept while the rest are replaced.
+ */
+export async function refreshFaqClusters(courseId: string, windowDays: number = DEFAULT_FAQ_WINDOW_DAYS) {
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+  const [topics, suggestions] = await Promise.all([
+    prisma.topic.findMany({ where: { courseId }, select: { topicId: true } }),
+    prisma.topicPromptSuggestion.findMany({
+      where: { OR: [{ courseId }, { topic: { courseId } }] },
+      select: { topicId: true, promptText: true },
+    }),
+  ]);
+
+  const clusters: Prisma.FaqClusterCreateManyInput[] = [];
+  for (const topic of topics) {
+    const messages = await prisma.ragChatMessage.findMany({
+      where: {
+        role: "user",
+        handoffId: null,
+        createdAt: { gte: since },
+        session: { courseId, topicId: topic.topicId },
+        OR: [{ isPredefined: false }, { isPredefined: null }],
+      },
+      orderBy: { createdAt: "desc" },
+      take: QUESTIONS_PER_TOPIC_LIMIT,
+      select: { content: true, userId: true, createdAt: true },
+    });
+    const topicPrompts = suggestions.filter((suggestion) => !suggestion.topicId || suggestion.topicId === topic.topicId);
+
+    // Every question is screened against today's suggestions: one classified before its prompt
+    // existed, e.g. a cluster promoted since, would otherwise keep resurfacing as unanswered
+    const questions = messages
+      .filter((message) => !topicPrompts.some((prompt) => isSimilarQuestion(message.content, prompt.promptText)))
+      .map((message) => ({
+        text: message.content,
+        normalized: normalizeQuestion(message.content),
+        userId: message.userId,
+        askedAt: message.createdAt,
+      }))
+      .filter((question) => question.normalized.length > 0);
+
+    clusterQuestions(questions)
+      .filter((group) => group.members.length >= MIN_CLUSTER_SIZE)
+      .forEach((group) => clusters.push({ courseId, topicId: topic.topicId, ...summarizeGroup(group) }));
+  }
+
+  await prisma.$transaction([
+    prisma.faqCluster.deleteMany({ where: { courseId, promotedSuggestionId: null } }),
+    prisma.faqCluster.createMany({ data: clusters }),
+  ]);
+
+  return listFaqClusters(courseId);
+}
+
+export async function listFaqClusters(courseId: string, options: { topicId?: string; includePromoted?: boolean } = {}) {
+  const clusters = await prisma.faqCluster.findMany({
+    where: {
+      courseId,
+      ...(options.topicId ? { topicId: options.topicId } : {}),
+      ...(options.includePromoted ? {} : { promotedSuggestionId: null }),
+    },
+    orderBy: [{ questionCount: "desc" }, { lastAskedAt: "desc" }],
+    include: { topic: { select: { topicName: true, moduleNo: true, moduleName: true } } },
+  });
+
+  return clusters.map(({ topic, ...cluster }) => ({
+    ...cluster,
+    sampleQuestions: cluster.sampleQuestions as string[],
+    topicName: topic.topicName,
+    moduleNo: topic.moduleNo,
+    moduleName: topic.moduleName,
+  }));
+}
+
+/**
+ * Turns a cluster into a suggested prompt with a curated answer on the cluster's topic.
+ * Returns null when the cluster does not exist or was already promoted.
+ */
+export async function promoteFaqCluster(
+  courseId: string,
+  clusterId: string,
+  input: { promptText?: string; answer: string },
+) {
+  const cluster = await prisma.faqCluster.findFirst({ where: { clusterId, courseId } });
+  if (!cluster || cluster.promotedSuggestionId) {
+    return null;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Claiming the cluster first means two tutors promoting it at once cannot both add a prompt
+    const claimed = await tx.faqCluster.updateMany({
+      where: { clusterId, courseId, promotedSuggestionId: null },
+      data: { promotedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+    const suggestion = await appendTopicPromptSuggestion(tx, {
+      courseId,
+      topicId: cluster.topicId,
+      promptText: input.promptText?.trim() || cluster.representativeQuestion,
+      answer: input.answer,
+    });
+    const promoted = await tx.faqCluster.update({
+      where: { clusterId },
+      data: { promotedSuggestionId: suggestion.suggestionId },
+    });
+    return { suggestion, cluster: promoted };
+  });
+}
@@ -0,0 +1,338 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getLastAttemptAtByUser, getPassedModulesByUser } from "./moduleQuizAttemptService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Friction and attention-drift events counted over the last week, like the stuck indicators
+const FRICTION_WINDOW_DAYS = 7;
+const CHATBOT_WINDOW_DAYS = 14;
+const FRICTION_STATUSES = ["content_friction", "attention_drift"];
+
+// A few quiet days are normal; inactivity points build up after that
+const INACTIVITY_GRACE_DAYS = 3;
+const INACTIVITY_FULL_DAYS = 21;
+// Trailing peers by less than this is noise rather than a pace problem
+const PACE_GRACE_POINTS = 10;
+const PACE_FULL_POINTS = 50;
+// Failing a module this many times without passing it means the learner needs help with it
+export const STUCK_MODULE_ATTEMPTS = 3;
+
+const FACTOR_MAX_POINTS = {
+  inactivity: 30,
+  failed_attempts: 25,
+  pace: 20,
+  friction: 15,
+  chatbot_struggle: 10,
+} as const;
+
+export const RISK_LEVELS = ["low", "medium", "high"] as const;
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+export type RiskFactorKey = keyof typeof FACTOR_MAX_POINTS;
+
+export type RiskFactor = {
+  key: RiskFactorKey;
+  points: number;
+  maxPoints: number;
+  detail: string;
+};
+
+export type RiskSignals = {
+  daysInactive: number;
+  completionPercent: number;
+  // Average completion of the learner's cohort, or of the course when they have none
+  peerCompletionPercent: number | null;
+  failedAttemptsOnOpenModules: number;
+  mostFailedModule: { moduleNo: number; failedAttempts: number } | null;
+  frictionEvents: number;
+  thumbsDownAnswers: number;
+  tutorHandoffs: number;
+};
+
+export type RiskAssessment = {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const scale = (value: number, from: number, to: number, maxPoints: number) =>
+  value <= from ? 0 : Math.min(maxPoints, Math.round(((value - from) / (to - from)) * maxPoints));
+
+export function riskLevelFor(score: number): RiskLevel {
+  if (score >= 60) {
+    return "high";
+  }
+  return score >= 30 ? "medium" : "low";
+}
+
+/**
+ * Turns a learner's signals into a 0-100 risk score with the points each factor contributed
+ * and why. Learners who finished the course carry no inactivity or pace risk.
+ */
+export function scoreLearnerRisk(signals: RiskSignals): RiskAssessment {
+  const finished = signals.completionPercent >= 100;
+  const paceGap =
+    signals.peerCompletionPercent === null ? 0 : signals.peerCompletionPercent - signals.completionPercent;
+  const worstModule = signals.mostFailedModule;
+
+  const factors: RiskFactor[] = [
+    {
+      key: "inactivity",
+      points: finished ? 0 : scale(signals.daysInactive, INACTIVITY_GRACE_DAYS, INACTIVITY_FULL_DAYS, FACTOR_MAX_POINTS.inactivity),
+      maxPoints: FACTOR_MAX_POINTS.inactivity,
+      detail: `No activity for ${plural(signals.daysInactive, "day")}`,
+    },
+    {
+      key: "failed_attempts",
+      points: Math.min(
+        FACTOR_MAX_POINTS.failed_attempts,
+        signals.failedAttemptsOnOpenModules * 6 +
+          (worstModule && worstModule.failedAttempts >= STUCK_MODULE_ATTEMPTS ? 5 : 0),
+      ),
+      maxPoints: FACTOR_MAX_POINTS.failed_attempts,
+      detail: worstModule
+        ? `${plural(signals.failedAttemptsOnOpenModules, "failed quiz attempt")} on unpassed modules, ` +
+          `${worstModule.failedAttempts} on module ${worstModule.moduleNo}`
+        : "No failed quiz attempts on unpassed modules",
+    },
+    {
+      key: "pace",
+      points: finished ? 0 : scale(paceGap, PACE_GRACE_POINTS, PACE_FULL_POINTS, FACTOR_MAX_POINTS.pace),
+      maxPoints: FACTOR_MAX_POINTS.pace,
+      detail:
+        signals.peerCompletionPercent === null
+          ? "No peers to compare pace with"
+          : `${signals.completionPercent}% complete against a peer average of ${signals.peerCompletionPercent}%`,
+    },
+    {
+      key: "friction",
+      points: Math.min(FACTOR_MAX_POINTS.friction, signals.frictionEvents * 3),
+      maxPoints: FACTOR_MAX_POINTS.friction,
+      detail: `${plural(signals.frictionEvents, "friction or attention-drift signal")} in the last ${FRICTION_WINDOW_DAYS} days`,
+    },
+    {
+      key: "chatbot_struggle",
+      points: Math.min(FACTOR_MAX_POINTS.chatbot_struggle, signals.thumbsDownAnswers * 3 + signals.tutorHandoffs * 5),
+      maxPoints: FACTOR_MAX_POINTS.chatbot_struggle,
+      detail:
+        `${plural(signals.thumbsDownAnswers, "unhelpful assistant answer")} and ` +
+        `${plural(signals.tutorHandoffs, "request")} for a tutor in the last ${CHATBOT_WINDOW_DAYS} days`,
+    },
+  ];
+
+  factors.sort((a, b) => b.points - a.points);
+  const score = Math.min(100, factors.reduce((total, factor) => total + factor.points, 0));
+  return { score, level: riskLevelFor(score), factors };
+}
+
+async function getTotalModules(courseId: string): Promise<number> {
+  const maxModule = await prisma.topic.aggregate({
+    where: { courseId, moduleNo: { gt: 0 } },
+    _max: { moduleNo: true },
+  });
+  return maxModule._max.moduleNo || (await prisma.topic.count({ where: { courseId, moduleNo: { gt: 0 } } })) || 1;
+}
+
+/**
+ * Recomputes and stores the risk score of every actively enrolled learner and active cohort
+ * member with an account in the course, replacing the previous scores. Returns how many were scored.
+ */
+export async function refreshCourseRiskScores(courseId: string, now: Date = new Date()): Promise<number> {
+  const [enrollments, memberships, totalModules] = await Promise.all([
+    prisma.enrollment.findMany({ where: { courseId, status: "active" }, select: { userId: true, enrolledAt: true } }),
+    prisma.cohortMember.findMany({
+      where: { cohort: { courseId }, userId: { not: null }, status: "active" },
+      orderBy: { addedAt: "asc" },
+      select: { userId: true, addedAt: true, cohortId: true },
+    }),
+    getTotalModules(courseId),
+  ]);
+
+  const startedAtByUser = new Map<string, Date>();
+  enrollments.forEach((enrollment) => startedAtByUser.set(enrollment.userId, enrollment.enrolledAt));
+  // Learners are compared with the first cohort they belong to
+  const cohortByUser = new Map<string, string>();
+  memberships.forEach((membership) => {
+    const userId = membership.userId as string;
+    if (!startedAtByUser.has(userId)) {
+      startedAtByUser.set(userId, membership.addedAt);
+    }
+    if (!cohortByUser.has(userId)) {
+      cohortByUser.set(userId, membership.cohortId);
+    }
+  });
+
+  const userIds = Array.from(startedAtByUser.keys());
+  if (userIds.length === 0) {
+    await prisma.learnerRiskScore.deleteMany({ where: { courseId } });
+    return 0;
+  }
+
+  const frictionSince = new Date(now.getTime() - FRICTION_WINDOW_DAYS * DAY_MS);
+  const chatbotSince = new Date(now.getTime() - CHATBOT_WINDOW_DAYS * DAY_MS);
+  const [passedByUser, lastAttemptByUser, lastEvents, lastMessages, failedGroups, frictionGroups, thumbsDownGroups, handoffGroups] =
+    await Promise.all([
+      getPassedModulesByUser(courseId, userIds),
+      getLastAttemptAtByUser(courseId, userIds),
+      prisma.learnerActivityEvent.groupBy({
+        by: ["userId"],
+        where: { courseId, userId: { in: userIds } },
+        _max: { createdAt: true },
+      }),
+      prisma.ragChatMessage.groupBy({
+        by: ["userId"],
+        where: { userId: { in: userIds }, role: "user", session: { courseId } },
+        _max: { createdAt: true },
+      }),
+      prisma.moduleQuizAttempt.groupBy({
+        by: ["userId", "moduleNo"],
+        where: { courseId, userId: { in: userIds }, passed: false },
+        _count: { _all: true },
+      }),
+      prisma.learnerActivityEvent.groupBy({
+        by: ["userId"],
+        where: {
+          courseId,
+          userId: { in: userIds },
+          derivedStatus: { in: FRICTION_STATUSES },
+          createdAt: { gte: frictionSince },
+        },
+        _count: { _all: true },
+      }),
+      prisma.assistantAnswerFeedback.groupBy({
+        by: ["userId"],
+        where: { courseId, userId: { in: userIds }, rating: "down", createdAt: { gte: chatbotSince } },
+        _count: { _all: true },
+      }),
+      prisma.tutorHandoff.groupBy({
+        by: ["learnerId"],
+        where: { courseId, learnerId: { in: userIds }, escalatedAt: { gte: chatbotSince } },
+        _count: { _all: true },
+      }),
+    ]);
+
+  const completionByUser = new Map(
+    userIds.map((userId) => [
+      userId,
+      Math.min(100, Math.floor(((passedByUser.get(userId)?.size ?? 0) / totalModules) * 100)),
+    ]),
+  );
+  const average = (ids: string[]) =>
+    ids.length === 0 ? null : Math.round(ids.reduce((sum, id) => sum + (completionByUser.get(id) ?? 0), 0) / ids.length);
+  const peerAverageByCohort = new Map<string, number | null>();
+  cohortByUser.forEach((cohortId) => {
+    if (!peerAverageByCohort.has(cohortId)) {
+      peerAverageByCohort.set(cohortId, average(userIds.filter((id) => cohortByUser.get(id) === cohortId)));
+    }
+  });
+  const courseAverage = average(userIds);
+
+  const latestByUser = new Map<string, Date>();
+  const noteActivity = (userId: string, at: Date | null | undefined) => {
+    const current = latestByUser.get(userId);
+    if (at && (!current || at > current)) {
+      latestByUser.set(userId, at);
+    }
+  };
+  lastAttemptByUser.forEach((at, userId) => noteActivity(userId, at));
+  lastEvents.forEach((row) => noteActivity(row.userId, row._max.createdAt));
+  lastMessages.forEach((row) => noteActivity(row.userId, row._max.createdAt));
+
+  const failedByUser = new Map<string, { moduleNo: number; failedAttempts: number }[]>();
+  failedGroups.forEach((group) => {
+    if (passedByUser.get(group.userId)?.has(group.moduleNo)) {
+      return;
+    }
+    const list = failedByUser.get(group.userId) ?? [];
+    list.push({ moduleNo: group.moduleNo, failedAttempts: group._count._all });
+    failedByUser.set(group.userId, list);
+  });
+  const frictionByUser = new Map(frictionGroups.map((group) => [group.userId, group._count._all]));
+  const thumbsDownByUser = new Map(thumbsDownGroups.map((group) => [group.userId, group._count._all]));
+  const handoffsByUser = new Map(handoffGroups.map((group) => [group.learnerId, group._count._all]));
+
+  const rows: Prisma.LearnerRiskScoreCreateManyInput[] = userIds.map((userId) => {
+    const lastActiveAt = latestByUser.get(userId) ?? (startedAtByUser.get(userId) as Date);
+    const failedModules = failedByUser.get(userId) ?? [];
+    const cohortId = cohortByUser.get(userId);
+    const signals: RiskSignals = {
+      daysInactive: Math.max(0, Math.floor((now.getTime() - lastActiveAt.getTime()) / DAY_MS)),
+      completionPercent: completionByUser.get(userId) ?? 0,
+      peerCompletionPercent: cohortId ? peerAverageByCohort.get(cohortId) ?? null : courseAverage,
+      failedAttemptsOnOpenModules: failedModules.reduce((total, module) => total + module.failedAttempts, 0),
+      mostFailedModule:
+        failedModules.sort((a, b) => b.failedAttempts - a.failedAttempts || a.moduleNo - b.moduleNo)[0] ?? null,
+      frictionEvents: frictionByUser.get(userId) ?? 0,
+      thumbsDownAnswers: thumbsDownByUser.get(userId) ?? 0,
+      tutorHandoffs: handoffsByUser.get(userId) ?? 0,
+    };
+    const assessment = scoreLearnerRisk(signals);
+    return {
+      userId,
+      courseId,
+      score: assessment.score,
+      level: assessment.level,
+      factors: assessment.factors,
+      signals,
+      computedAt: now,
+    };
+  });
+
+  await prisma.$transaction([
+    prisma.learnerRiskScore.deleteMany({ where: { courseId } }),
+    prisma.learnerRiskScore.createMany({ data: rows }),
+  ]);
+  return rows.length;
+}
+
+/**
+ * Scores a course that has never been scored, so the first tutor to look does not find an empty
+ * risk view. Returns false when the course still has no one to score.
+ */
+export async function ensureCourseRiskScores(courseId: string): Promise<boolean> {
+  if ((await prisma.learnerRiskScore.count({ where: { courseId } })) > 0) {
+    return true;
+  }
+  return (await refreshCourseRiskScores(courseId)) > 0;
+}
+
+/**
+ * Stored risk scores for a course, highest first. Read-only: scores are only written by
+ * refreshCourseRiskScores.
+ */
+export async function listLearnerRiskScores(
+  courseId: string,
+  options: { cohortId?: string; minLevel?: RiskLevel; userIds?: string[] } = {},
+) {
+  const levels = options.minLevel ? RISK_LEVELS.slice(RISK_LEVELS.indexOf(options.minLevel)) : RISK_LEVELS;
+  const scores = await prisma.learnerRiskScore.findMany({
+    where: {
+      courseId,
+      level: { in: [...levels] },
+      ...(options.userIds ? { userId: { in: options.userIds } } : {}),
+      ...(options.cohortId ? { user: { cohortMemberships: { some: { cohortId: options.cohortId } } } } : {}),
+    },
+    orderBy: [{ score: "desc" }, { computedAt: "desc" }],
+    include: { user: { select: { fullName: true, email: true } } },
+  });
+
+  return scores.map(({ user, ...score }) => ({
+    ...score,
+    level: score.level as RiskLevel,
+    factors: score.factors as RiskFactor[],
+    signals: score.signals as RiskSignals,
+    name: user.fullName,
+    email: user.email,
+  }));
+}
+
+export type StoredRiskScore = Awaited<ReturnType<typeof listLearnerRiskScores>>[number];
+
+/**
+ * The factors that actually added to a score, as short reasons for tutors and the copilot.
+ */
+export function describeRiskReasons(score: Pick<StoredRiskScore, "factors">): string[] {
+  return score.factors.filter((factor) => factor.points > 0).map((factor) => factor.detail);
+}
@@ -0,0 +1,166 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { calculateSimilarity, QUESTION_SIMILARITY_THRESHOLD } from "./chatbot-stats.service";
+
+export type CourseBudgetState = "unbudgeted" | "ok" | "warning" | "exceeded";
+
+export type CourseBudgetStatus = {
+  courseId: string;
+  monthlyLimitUsd: number | null;
+  softLimitPercent: number | null;
+  hardLimitPercent: number | null;
+  periodStart: Date;
+  periodEnd: Date;
+  spentUsd: number;
+  percentUsed: number | null;
+  state: CourseBudgetState;
+};
+
+export const BUDGET_EXHAUSTED_ANSWER =
+  "The course assistant has reached its usage limit for this month, so right now I can only answer the suggested questions for this topic. Try one of those, or ask your tutor directly.";
+
+/**
+ * Budgets run per calendar month in UTC.
+ */
+export function getBudgetPeriod(now: Date = new Date()): { start: Date; end: Date } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+const roundUsd = (value: number) => Math.round(value * 10000) / 10000;
+
+export async function getCourseBudgetStatus(courseId: string, now: Date = new Date()): Promise<CourseBudgetStatus> {
+  const { start, end } = getBudgetPeriod(now);
+  const [budget, spend] = await Promise.all([
+    prisma.courseLlmBudget.findUnique({ where: { courseId } }),
+    prisma.llmUsageEvent.aggregate({
+      where: { courseId, createdAt: { gte: start, lt: end } },
+      _sum: { estimatedCostUsd: true },
+    }),
+  ]);
+
+  const spentUsd = roundUsd(Number(spend._sum.estimatedCostUsd ?? 0));
+  if (!budget) {
+    return {
+      courseId,
+      monthlyLimitUsd: null,
+      softLimitPercent: null,
+      hardLimitPercent: null,
+      periodStart: start,
+      periodEnd: end,
+      spentUsd,
+      percentUsed: null,
+      state: "unbudgeted",
+    };
+  }
+
+  const monthlyLimitUsd = Number(budget.monthlyLimitUsd);
+  // A zero cap means the course has opted out of model calls entirely
+  const percentUsed = monthlyLimitUsd > 0 ? Math.round((spentUsd / monthlyLimitUsd) * 1000) / 10 : 100;
+  const state: CourseBudgetState =
+    percentUsed >= budget.hardLimitPercent ? "exceeded" : percentUsed >= budget.softLimitPercent ? "warning" : "ok";
+
+  return {
+    courseId,
+    monthlyLimitUsd,
+    softLimitPercent: budget.softLimitPercent,
+    hardLimitPercent: budget.hardLimitPercent,
+    periodStart: start,
+    periodEnd: end,
+    spentUsd,
+    percentUsed,
+    state,
+  };
+}
+
+/**
+ * Budget status plus cumulative spend for every day of the current period so far.
+ */
+export async function getCourseBudgetBurnDown(courseId: string, now: Date = new Date()) {
+  const status = await getCourseBudgetStatus(courseId, now);
+  const rows = await prisma.$queryRaw<Array<{ day: string; cost_usd: Prisma.Decimal | null }>>(Prisma.sql`
+    SELECT to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS day,
+           SUM(estimated_cost_usd) AS cost_usd
+    FROM llm_usage_events
+    WHERE course_id = ${courseId}::uuid
+      AND created_at >= ${status.periodStart}
+      AND created_at < ${status.periodEnd}
+    GROUP BY 1
+  `);
+  const costByDay = new Map(rows.map((row) => [row.day, Number(row.cost_usd ?? 0)]));
+
+  let cumulativeUsd = 0;
+  const days: Array<{ day: string; costUsd: number; cumulativeUsd: number }> = [];
+  for (let cursor = new Date(status.periodStart); cursor <= now && cursor < status.periodEnd; cursor.setUTCDate(cursor.getUTCDate() + 1)) {
+    const day = cursor.toISOString().slice(0, 10);
+    const costUsd = costByDay.get(day) ?? 0;
+    cumulativeUsd += costUsd;
+    days.push({ day, costUsd: roundUsd(costUsd), cumulativeUsd: roundUsd(cumulativeUsd) });
+  }
+
+  const elapsedDays = Math.max(days.length, 1);
+  const periodDays = Math.round((status.periodEnd.getTime() - status.periodStart.getTime()) / (24 * 60 * 60 * 1000));
+  return {
+    ...status,
+    days,
+    projectedUsd: roundUsd((status.spentUsd / elapsedDays) * periodDays),
+  };
+}
+
+export async function setCourseBudget(
+  courseId: string,
+  input: { monthlyLimitUsd: number; softLimitPercent: number; hardLimitPercent: number },
+): Promise<void> {
+  const data = {
+    monthlyLimitUsd: new Prisma.Decimal(input.monthlyLimitUsd.toFixed(2)),
+    softLimitPercent: input.softLimitPercent,
+    hardLimitPercent: input.hardLimitPercent,
+  };
+  await prisma.courseLlmBudget.upsert({
+    where: { courseId },
+    create: { courseId, ...data },
+    update: data,
+  });
+}
+
+export async function clearCourseBudget(courseId: string): Promise<void> {
+  await prisma.courseLlmBudget.deleteMany({ where: { courseId } });
+}
+
+/**
+ * Finds the authored answer of the suggested prompt closest to the question, preferring the
+ * learner's topic over course-wide suggestions on a tie. Used instead of the model once a course
+ * is over budget, with the same text match that classifies questions while over budget.
+ */
+export async function findPredefinedAnswer(options: {
+  courseId: string;
+  topicId: string;
+  question: string;
+}): Promise<string | null> {
+  const suggestions = await prisma.topicPromptSuggestion.findMany({
+    where: {
+      isActive: true,
+      answer: { not: null },
+      OR: [{ topicId: options.topicId }, { courseId: options.courseId, topicId: null }],
+    },
+    select: { topicId: true, promptText: true, answer: true },
+  });
+
+  let best: { answer: string; score: number; onTopic: boolean } | null = null;
+  for (const suggestion of suggestions) {
+    const answer = suggestion.answer?.trim();
+    if (!answer) {
+      continue;
+    }
+    const score = calculateSimilarity(options.question, suggestion.promptText);
+    const onTopic = Boolean(suggestion.topicId);
+    if (
+      score >= QUESTION_SIMILARITY_THRESHOLD &&
+      (!best || score > best.score || (score === best.score && onTopic && !best.onTopic))
+    ) {
+      best = { answer, score, onTopic };
+    }
+  }
+  return best?.answer ?? null;
+}
@@ -0,0 +1,190 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { LlmUsage } from "../rag/llmProvider";
+
+export const LLM_FEATURES = [
+  "copilot",
+  "learner_rag",
+  "email_improve",
+  "persona_classify",
+  "rewrite",
+  "summarize",
+  "rerank",
+  "eval",
+  "ingest",
+  "question_classify",
+] as const;
+export type LlmFeature = (typeof LLM_FEATURES)[number];
+
+export type LlmUsageScope = {
+  userId?: string | null;
+  courseId?: string | null;
+  cohortId?: string | null;
+};
+
+export type LlmUsageTag = LlmUsageScope & { feature: LlmFeature };
+
+export type LlmUsageEntry = LlmUsageTag & {
+  operation: "chat" | "embedding";
+  provider: string;
+  model: string;
+  usage: LlmUsage;
+  latencyMs: number;
+  status: "success" | "error";
+  errorMessage?: string | null;
+};
+
+export const LLM_USAGE_GROUPS = ["day", "course", "cohort", "feature", "model", "user"] as const;
+export type LlmUsageGroup = (typeof LLM_USAGE_GROUPS)[number];
+
+// USD per million tokens; matched on the longest model-name prefix so dated snapshots resolve too
+const MODEL_PRICING_PER_MILLION: Record<string, { input: number; output: number }> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+/**
+ * Estimates the cost of one call from list prices. Unknown models (local or fake) cost nothing.
+ */
+export function estimateLlmCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const key = Object.keys(MODEL_PRICING_PER_MILLION)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) {
+    return 0;
+  }
+  const price = MODEL_PRICING_PER_MILLION[key];
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+export async function recordLlmUsage(entry: LlmUsageEntry): Promise<void> {
+  await prisma.llmUsageEvent.create({
+    data: {
+      feature: entry.feature,
+      operation: entry.operation,
+      provider: entry.provider,
+      model: entry.model,
+      promptTokens: entry.usage.promptTokens,
+      completionTokens: entry.usage.completionTokens,
+      totalTokens: entry.usage.totalTokens,
+      latencyMs: Math.round(entry.latencyMs),
+      status: entry.status,
+      errorMessage: entry.errorMessage ? entry.errorMessage.slice(0, 500) : null,
+      estimatedCostUsd: new Prisma.Decimal(
+        estimateLlmCostUsd(entry.model, entry.usage.promptTokens, entry.usage.completionTokens).toFixed(6),
+      ),
+      userId: entry.userId ?? null,
+      courseId: entry.courseId ?? null,
+      cohortId: entry.cohortId ?? null,
+    },
+  });
+}
+
+const GROUP_COLUMNS: Record<LlmUsageGroup, { select: Prisma.Sql; alias: string }> = {
+  day: { select: Prisma.sql`to_char(date_trunc('day', e.created_at), 'YYYY-MM-DD')`, alias: "day" },
+  course: { select: Prisma.sql`e.course_id::text`, alias: "course_id" },
+  // Learner calls do not know their cohort, so fall back to the learner's latest membership in the course
+  cohort: {
+    select: Prisma.sql`COALESCE(e.cohort_id, (
+      SELECT cm.cohort_id
+      FROM cohort_members cm
+      JOIN cohorts c ON c.cohort_id = cm.cohort_id
+      WHERE cm.user_id = e.user_id AND c.course_id = e.course_id
+      ORDER BY cm.added_at DESC
+      LIMIT 1
+    ))::text`,
+    alias: "cohort_id",
+  },
+  feature: { select: Prisma.sql`e.feature`, alias: "feature" },
+  model: { select: Prisma.sql`e.model`, alias: "model" },
+  user: { select: Prisma.sql`e.user_id::text`, alias: "user_id" },
+};
+
+type UsageTotalsRow = {
+  calls: bigint;
+  errors: bigint;
+  prompt_tokens: bigint | null;
+  completion_tokens: bigint | null;
+  total_tokens: bigint | null;
+  cost_usd: Prisma.Decimal | null;
+  avg_latency_ms: number | null;
+};
+
+const toTotals = (row: UsageTotalsRow) => ({
+  calls: Number(row.calls),
+  errors: Number(row.errors),
+  promptTokens: Number(row.prompt_tokens ?? 0),
+  completionTokens: Number(row.completion_tokens ?? 0),
+  totalTokens: Number(row.total_tokens ?? 0),
+  costUsd: Number(row.cost_usd ?? 0),
+  avgLatencyMs: row.avg_latency_ms === null ? null : Math.round(Number(row.avg_latency_ms)),
+});
+
+const totalsSelect = Prisma.sql`
+  COUNT(*) AS calls,
+  COUNT(*) FILTER (WHERE e.status = 'error') AS errors,
+  SUM(e.prompt_tokens) AS prompt_tokens,
+  SUM(e.completion_tokens) AS completion_tokens,
+  SUM(e.total_tokens) AS total_tokens,
+  SUM(e.estimated_cost_usd) AS cost_usd,
+  AVG(e.latency_ms)::float AS avg_latency_ms
+`;
+
+/**
+ * Aggregates the usage ledger over a time window, grouped by any of day, course, cohort,
+ * feature, model and user, with overall totals for the same window.
+ */
+export async function getLlmUsageReport(options: {
+  from: Date;
+  to: Date;
+  groupBy: LlmUsageGroup[];
+  courseId?: string;
+  feature?: LlmFeature;
+}) {
+  const filters = [
+    Prisma.sql`e.created_at >= ${options.from}`,
+    Prisma.sql`e.created_at < ${options.to}`,
+    ...(options.courseId ? [Prisma.sql`e.course_id = ${options.courseId}::uuid`] : []),
+    ...(options.feature ? [Prisma.sql`e.feature = ${options.feature}`] : []),
+  ];
+  const where = Prisma.join(filters, " AND ");
+
+  const groups = options.groupBy.map((group) => GROUP_COLUMNS[group]);
+  const groupSelect = groups.map((group) => Prisma.sql`${group.select} AS ${Prisma.raw(group.alias)}`);
+  const groupPositions = Prisma.raw(groups.map((_, index) => String(index + 1)).join(", "));
+
+  const [rows, totals] = await Promise.all([
+    groups.length > 0
+      ? prisma.$queryRaw<Array<UsageTotalsRow & Record<string, unknown>>>(Prisma.sql`
+          SELECT ${Prisma.join(groupSelect)}, ${totalsSelect}
+          FROM llm_usage_events e
+          WHERE ${where}
+          GROUP BY ${groupPositions}
+          ORDER BY ${groupPositions}
+        `)
+      : Promise.resolve([]),
+    prisma.$queryRaw<UsageTotalsRow[]>(Prisma.sql`
+      SELECT ${totalsSelect}
+      FROM llm_usage_events e
+      WHERE ${where}
+    `),
+  ]);
+
+  return {
+    from: options.from,
+    to: options.to,
+    groupBy: options.groupBy,
+    totals: toTotals(totals[0]),
+    rows: rows.map((row) => ({
+      ...Object.fromEntries(groups.map((group) => [group.alias, (row[group.alias] as string | null) ?? null])),
+      ...toTotals(row),
+    })),
+  };
+}
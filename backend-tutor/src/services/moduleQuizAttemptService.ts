@@ -0,0 +1,240 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export const QUIZ_PASS_THRESHOLD_PERCENT = 70;
+// Regrading every attempt of a busy module can outlast the default 5s interactive transaction
+const REGRADE_TRANSACTION_TIMEOUT_MS = 60_000;
+
+export type QuizAnswerInput = {
+  questionId: string;
+  selectedOptionId: string;
+  isCorrect: boolean;
+};
+
+export type QuizAttemptFilter = {
+  courseId: string;
+  userIds?: string[];
+  moduleNo?: number;
+  passed?: boolean;
+  since?: Date;
+};
+
+const quizAttemptSelect = {
+  attemptId: true,
+  userId: true,
+  moduleNo: true,
+  attemptNumber: true,
+  score: true,
+  passed: true,
+  selfReported: true,
+  startedAt: true,
+  submittedAt: true,
+} satisfies Prisma.ModuleQuizAttemptSelect;
+
+export type QuizAttemptRow = Prisma.ModuleQuizAttemptGetPayload<{ select: typeof quizAttemptSelect }>;
+
+const buildAttemptWhere = (filter: QuizAttemptFilter): Prisma.ModuleQuizAttemptWhereInput => ({
+  courseId: filter.courseId,
+  ...(filter.userIds ? { userId: { in: filter.userIds } } : {}),
+  ...(filter.moduleNo !== undefined ? { moduleNo: filter.moduleNo } : {}),
+  ...(filter.passed !== undefined ? { passed: filter.passed } : {}),
+  ...(filter.since ? { submittedAt: { gte: filter.since } } : {}),
+});
+
+export async function listQuizAttempts(filter: QuizAttemptFilter, order: Prisma.SortOrder = "asc"): Promise<QuizAttemptRow[]> {
+  return prisma.moduleQuizAttempt.findMany({
+    where: buildAttemptWhere(filter),
+    orderBy: [{ submittedAt: order }, { attemptNumber: order }],
+    select: quizAttemptSelect,
+  });
+}
+
+export async function countQuizAttempts(filter: QuizAttemptFilter): Promise<number> {
+  return prisma.moduleQuizAttempt.count({ where: buildAttemptWhere(filter) });
+}
+
+/**
+ * Maps each learner to the set of modules they have passed at least once.
+ */
+export async function getPassedModulesByUser(courseId: string, userIds?: string[]): Promise<Map<string, Set<number>>> {
+  const rows = await prisma.moduleQuizAttempt.findMany({
+    where: buildAttemptWhere({ courseId, userIds, passed: true }),
+    distinct: ["userId", "moduleNo"],
+    select: { userId: true, moduleNo: true },
+  });
+
+  const passedByUser = new Map<string, Set<number>>();
+  rows.forEach((row) => {
+    const modules = passedByUser.get(row.userId) ?? new Set<number>();
+    modules.add(row.moduleNo);
+    passedByUser.set(row.userId, modules);
+  });
+  return passedByUser;
+}
+
+/**
+ * Maps each learner to the dates they first passed each module, oldest first.
+ */
+export async function getFirstPassDatesByUser(courseId: string, userIds?: string[]): Promise<Map<string, Date[]>> {
+  const rows = await prisma.moduleQuizAttempt.findMany({
+    where: buildAttemptWhere({ courseId, userIds, passed: true }),
+    orderBy: { submittedAt: "asc" },
+    distinct: ["userId", "moduleNo"],
+    select: { userId: true, submittedAt: true },
+  });
+
+  const datesByUser = new Map<string, Date[]>();
+  rows.forEach((row) => {
+    datesByUser.set(row.userId, [...(datesByUser.get(row.userId) ?? []), row.submittedAt]);
+  });
+  return datesByUser;
+}
+
+/**
+ * Maps each learner to the time of their most recent quiz submission.
+ */
+export async function getLastAttemptAtByUser(courseId: string, userIds?: string[]): Promise<Map<string, Date>> {
+  const rows = await prisma.moduleQuizAttempt.groupBy({
+    by: ["userId"],
+    where: buildAttemptWhere({ courseId, userIds }),
+    _max: { submittedAt: true },
+  });
+
+  const lastByUser = new Map<string, Date>();
+  rows.forEach((row) => {
+    if (row._max.submittedAt) {
+      lastByUser.set(row.userId, row._max.submittedAt);
+    }
+  });
+  return lastByUser;
+}
+
+export function scoreQuizAnswers(answers: QuizAnswerInput[]): { score: number; passed: boolean } {
+  const correct = answers.filter((answer) => answer.isCorrect).length;
+  const score = answers.length > 0 ? Math.round((correct / answers.length) * 100) : 0;
+  return { score, passed: score >= QUIZ_PASS_THRESHOLD_PERCENT };
+}
+
+/**
+ * Scores answers against the module's answer key, ignoring the client's correctness claims.
+ * Every keyed question counts, so questions left out of the submission score as wrong.
+ */
+export function scoreQuizAgainstKey(
+  answers: QuizAnswerInput[],
+  answerKey: Map<string, string>,
+): { answers: QuizAnswerInput[]; score: number; passed: boolean } {
+  const graded = answers
+    .filter((answer) => answerKey.has(answer.questionId))
+    .map((answer) => ({ ...answer, isCorrect: answerKey.get(answer.questionId) === answer.selectedOptionId }));
+  const correct = graded.filter((answer) => answer.isCorrect).length;
+  const score = answerKey.size > 0 ? Math.round((correct / answerKey.size) * 100) : 0;
+  return { answers: graded, score, passed: score >= QUIZ_PASS_THRESHOLD_PERCENT };
+}
+
+export async function getQuizAnswerKey(courseId: string, moduleNo: number): Promise<Map<string, string>> {
+  const rows = await prisma.moduleQuizAnswerKey.findMany({
+    where: { courseId, moduleNo },
+    select: { questionId: true, correctOptionId: true },
+  });
+  return new Map(rows.map((row) => [row.questionId, row.correctOptionId]));
+}
+
+/**
+ * Replaces the module's answer key and regrades every stored attempt with answers against it, so
+ * results scored on the client before the key existed stop standing on the learner's word.
+ * An empty list removes the key: stored grades stay and later attempts are self-reported again.
+ */
+export async function replaceQuizAnswerKey(
+  courseId: string,
+  moduleNo: number,
+  questions: Array<{ questionId: string; correctOptionId: string }>,
+): Promise<{ keyed: number; regraded: number }> {
+  const answerKey = new Map(questions.map((question) => [question.questionId, question.correctOptionId]));
+
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.moduleQuizAnswerKey.deleteMany({ where: { courseId, moduleNo } });
+      if (answerKey.size === 0) {
+        return { keyed: 0, regraded: 0 };
+      }
+      await tx.moduleQuizAnswerKey.createMany({ data: questions.map((question) => ({ courseId, moduleNo, ...question })) });
+
+      const attempts = await tx.moduleQuizAttempt.findMany({
+        where: { courseId, moduleNo },
+        select: { attemptId: true, answers: true },
+      });
+      let regraded = 0;
+      for (const attempt of attempts) {
+        const answers = Array.isArray(attempt.answers) ? (attempt.answers as QuizAnswerInput[]) : [];
+        // Rows carried over from module_progress kept only their outcome
+        if (answers.length === 0) {
+          continue;
+        }
+        const graded = scoreQuizAgainstKey(answers, answerKey);
+        await tx.moduleQuizAttempt.update({
+          where: { attemptId: attempt.attemptId },
+          data: {
+            score: graded.score,
+            passed: graded.passed,
+            selfReported: false,
+            answers: graded.answers as Prisma.InputJsonValue,
+          },
+        });
+        regraded += 1;
+      }
+      return { keyed: answerKey.size, regraded };
+    },
+    { timeout: REGRADE_TRANSACTION_TIMEOUT_MS },
+  );
+}
+
+/**
+ * Stores a submitted quiz as the learner's next attempt for the module, scored against the module's
+ * answer key. Without a key the client's own scoring is kept and counts, but the attempt is marked
+ * self-reported until a key arrives and regrades it.
+ * A concurrent submission claiming the same attempt number is retried once.
+ */
+export async function recordQuizAttempt(input: {
+  userId: string;
+  courseId: string;
+  moduleNo: number;
+  answers: QuizAnswerInput[];
+  startedAt?: Date | null;
+}): Promise<QuizAttemptRow> {
+  const answerKey = await getQuizAnswerKey(input.courseId, input.moduleNo);
+  const selfReported = answerKey.size === 0;
+  const { answers, score, passed } = selfReported
+    ? { answers: input.answers, ...scoreQuizAnswers(input.answers) }
+    : scoreQuizAgainstKey(input.answers, answerKey);
+
+  const create = () =>
+    prisma.$transaction(async (tx) => {
+      const latest = await tx.moduleQuizAttempt.aggregate({
+        where: { userId: input.userId, courseId: input.courseId, moduleNo: input.moduleNo },
+        _max: { attemptNumber: true },
+      });
+      return tx.moduleQuizAttempt.create({
+        data: {
+          userId: input.userId,
+          courseId: input.courseId,
+          moduleNo: input.moduleNo,
+          attemptNumber: (latest._max.attemptNumber ?? 0) + 1,
+          score,
+          passed,
+          selfReported,
+          answers: answers as Prisma.InputJsonValue,
+          startedAt: input.startedAt ?? null,
+        },
+        select: quizAttemptSelect,
+      });
+    });
+
+  try {
+    return await create();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return create();
+    }
+    throw error;
+  }
+}
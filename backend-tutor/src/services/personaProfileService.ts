@@ -1,6 +1,7 @@
 import { type LearnerPersonaProfileKey, Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
 import { classifyLearnerPersona } from "../rag/openAiClient";
+import type { LlmUsageScope } from "./llmUsageService";
 import { PERSONA_KEYS, PERSONA_PROFILE_VERSION } from "./personaPromptTemplates";
 
 export type PersonaProfileResponse = {
@@ -49,6 +50,7 @@ function scorePersonaFromText(text: string): {
 
 export async function analyzePersonaProfile(
   responses: PersonaProfileResponse[],
+  scope: LlmUsageScope = {},
 ): Promise<{ personaKey: LearnerPersonaProfileKey; analysisSummary: string; analysisVersion: string }> {
   const joined = responses
     .map((item) => `${item.prompt}\n${item.answer}`)
@@ -57,6 +59,7 @@ export async function analyzePersonaProfile(
   try {
     const result = await classifyLearnerPersona({
       responses: responses.map((item) => ({ question: item.prompt, answer: item.answer })),
+      scope,
     });
     const personaKey = PERSONA_KEYS.find((key) => key === result.personaKey) ?? null;
     if (!personaKey) {
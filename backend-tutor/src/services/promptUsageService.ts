@@ -1,3 +1,4 @@
+import { Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
 
 export const PROMPT_LIMIT_PER_MODULE = 5;
@@ -21,30 +22,34 @@ export async function getModulePromptUsageCount(
   return record?.typedCount ?? 0;
 }
 
-export async function incrementModulePromptUsage(
+/**
+ * Claims one of the learner's typed questions for the module and returns the new count, or null
+ * when the limit is already used up. The check and the increment are one statement, so
+ * concurrent questions cannot overrun the limit.
+ */
+export async function reserveModulePrompt(
   userId: string,
   courseId: string,
   moduleNo: number,
-): Promise<number> {
-  const updated = await prisma.modulePromptUsage.upsert({
-    where: {
-      userId_courseId_moduleNo: {
-        userId,
-        courseId,
-        moduleNo,
-      },
-    },
-    create: {
-      userId,
-      courseId,
-      moduleNo,
-      typedCount: 1,
-    },
-    update: {
-      typedCount: { increment: 1 },
-    },
-    select: { typedCount: true },
-  });
+): Promise<number | null> {
+  const rows = await prisma.$queryRaw<Array<{ typed_count: number }>>(Prisma.sql`
+    INSERT INTO module_prompt_usage (user_id, course_id, module_no, typed_count)
+    VALUES (${userId}::uuid, ${courseId}::uuid, ${moduleNo}, 1)
+    ON CONFLICT (user_id, course_id, module_no)
+    DO UPDATE SET typed_count = module_prompt_usage.typed_count + 1, updated_at = NOW()
+    WHERE module_prompt_usage.typed_count < ${PROMPT_LIMIT_PER_MODULE}
+    RETURNING typed_count
+  `);
 
-  return updated.typedCount;
+  return rows[0]?.typed_count ?? null;
+}
+
+/**
+ * Gives back a question claimed with reserveModulePrompt that was never answered.
+ */
+export async function releaseModulePrompt(userId: string, courseId: string, moduleNo: number): Promise<void> {
+  await prisma.modulePromptUsage.updateMany({
+    where: { userId, courseId, moduleNo, typedCount: { gt: 0 } },
+    data: { typedCount: { decrement: 1 } },
+  });
 }
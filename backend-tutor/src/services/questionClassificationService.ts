@@ -0,0 +1,171 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { createEmbedding, createEmbeddings } from "../rag/openAiClient";
+import { getCourseBudgetStatus } from "./llmBudgetService";
+import { calculateSimilarity, QUESTION_SIMILARITY_THRESHOLD } from "./chatbot-stats.service";
+
+// Cosine similarity at which a question counts as one of the topic's suggested prompts
+const SEMANTIC_MATCH_THRESHOLD = 0.85;
+const BACKFILL_BATCH_SIZE = 200;
+
+export type QuestionClassification = {
+  isPredefined: boolean;
+  // Only set when the question matched
+  matchedSuggestionId: string | null;
+  // Similarity to the closest suggestion, 0-1; null when the topic has none
+  matchScore: number | null;
+};
+
+const NO_SUGGESTIONS: QuestionClassification = { isPredefined: false, matchedSuggestionId: null, matchScore: null };
+
+// Suggestions a learner on the topic is offered: the topic's own plus course-wide ones
+const suggestionScope = (courseId: string, topicId: string) => Prisma.sql`
+  is_active = true
+  AND (topic_id = ${topicId}::uuid OR (course_id = ${courseId}::uuid AND topic_id IS NULL))
+`;
+
+const toVectorParam = (embedding: number[]) => Prisma.sql`${`[${embedding.join(",")}]`}::vector`;
+
+const normalizePrompt = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Embeds suggestions that have no cached vector yet, or whose text changed since it was computed.
+ */
+async function ensureSuggestionEmbeddings(courseId: string, topicId: string): Promise<void> {
+  const stale = await prisma.$queryRaw<Array<{ suggestion_id: string; prompt_text: string }>>(Prisma.sql`
+    SELECT suggestion_id, prompt_text
+    FROM topic_prompt_suggestions
+    WHERE ${suggestionScope(courseId, topicId)}
+      AND (prompt_embedding IS NULL OR prompt_embedding_text IS DISTINCT FROM prompt_text)
+  `);
+  if (stale.length === 0) {
+    return;
+  }
+
+  const embeddings = await createEmbeddings(
+    stale.map((row) => row.prompt_text),
+    { feature: "question_classify", courseId },
+  );
+  for (let index = 0; index < stale.length; index += 1) {
+    await prisma.$executeRaw(Prisma.sql`
+      UPDATE topic_prompt_suggestions
+      SET prompt_embedding = ${toVectorParam(embeddings[index])},
+          prompt_embedding_text = ${stale[index].prompt_text}
+      WHERE suggestion_id = ${stale[index].suggestion_id}::uuid
+    `);
+  }
+}
+
+async function classifyLexically(courseId: string, topicId: string, question: string): Promise<QuestionClassification> {
+  const suggestions = await prisma.$queryRaw<Array<{ suggestion_id: string; prompt_text: string }>>(Prisma.sql`
+    SELECT suggestion_id, prompt_text
+    FROM topic_prompt_suggestions
+    WHERE ${suggestionScope(courseId, topicId)}
+  `);
+  let best: { suggestionId: string; similarity: number } | null = null;
+  for (const suggestion of suggestions) {
+    const similarity = calculateSimilarity(question, suggestion.prompt_text);
+    if (!best || similarity > best.similarity) {
+      best = { suggestionId: suggestion.suggestion_id, similarity };
+    }
+  }
+  if (!best) {
+    return NO_SUGGESTIONS;
+  }
+  const isPredefined = best.similarity >= QUESTION_SIMILARITY_THRESHOLD;
+  return { isPredefined, matchedSuggestionId: isPredefined ? best.suggestionId : null, matchScore: best.similarity / 100 };
+}
+
+/**
+ * Decides whether a learner question is one of the topic's suggested prompts, by embedding
+ * similarity so paraphrases count too. Clicked suggestions match verbatim without a model call,
+ * and a course over its budget falls back to Levenshtein similarity.
+ */
+export async function classifyQuestion(options: {
+  courseId: string;
+  topicId: string;
+  question: string;
+}): Promise<QuestionClassification> {
+  const { courseId, topicId, question } = options;
+
+  const exact = await prisma.$queryRaw<Array<{ suggestion_id: string }>>(Prisma.sql`
+    SELECT suggestion_id
+    FROM topic_prompt_suggestions
+    WHERE ${suggestionScope(courseId, topicId)}
+      AND lower(regexp_replace(trim(prompt_text), '[[:space:]]+', ' ', 'g')) = ${normalizePrompt(question)}
+    LIMIT 1
+  `);
+  if (exact.length > 0) {
+    return { isPredefined: true, matchedSuggestionId: exact[0].suggestion_id, matchScore: 1 };
+  }
+
+  const budget = await getCourseBudgetStatus(courseId);
+  if (budget.state === "exceeded") {
+    return classifyLexically(courseId, topicId, question);
+  }
+
+  await ensureSuggestionEmbeddings(courseId, topicId);
+  const hasSuggestions = await prisma.$queryRaw<Array<{ found: number }>>(Prisma.sql`
+    SELECT 1 AS found
+    FROM topic_prompt_suggestions
+    WHERE ${suggestionScope(courseId, topicId)}
+      AND prompt_embedding IS NOT NULL
+    LIMIT 1
+  `);
+  if (hasSuggestions.length === 0) {
+    return NO_SUGGESTIONS;
+  }
+
+  const embedding = await createEmbedding(question, { feature: "question_classify", courseId });
+  const [closest] = await prisma.$queryRaw<Array<{ suggestion_id: string; score: number }>>(Prisma.sql`
+    SELECT suggestion_id, (1 - (prompt_embedding <=> ${toVectorParam(embedding)}))::float AS score
+    FROM topic_prompt_suggestions
+    WHERE ${suggestionScope(courseId, topicId)}
+      AND prompt_embedding IS NOT NULL
+    ORDER BY prompt_embedding <=> ${toVectorParam(embedding)}
+    LIMIT 1
+  `);
+  if (!closest) {
+    return NO_SUGGESTIONS;
+  }
+
+  const isPredefined = closest.score >= SEMANTIC_MATCH_THRESHOLD;
+  return { isPredefined, matchedSuggestionId: isPredefined ? closest.suggestion_id : null, matchScore: closest.score };
+}
+
+/**
+ * Classifies a stored learner question and writes the outcome onto the message.
+ */
+export async function classifyChatMessage(messageId: string): Promise<void> {
+  const message = await prisma.ragChatMessage.findUnique({
+    where: { messageId },
+    select: { role: true, content: true, session: { select: { courseId: true, topicId: true } } },
+  });
+  if (!message || message.role !== "user") {
+    return;
+  }
+
+  const classification = await classifyQuestion({
+    courseId: message.session.courseId,
+    topicId: message.session.topicId,
+    question: message.content,
+  });
+  await prisma.ragChatMessage.update({ where: { messageId }, data: classification });
+}
+
+/**
+ * Classifies learner questions written before classification existed, oldest first.
+ * Returns how many were classified.
+ */
+export async function classifyPendingMessages(limit: number = BACKFILL_BATCH_SIZE): Promise<number> {
+  const pending = await prisma.ragChatMessage.findMany({
+    where: { role: "user", isPredefined: null, handoffId: null },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+    select: { messageId: true },
+  });
+  for (const message of pending) {
+    await classifyChatMessage(message.messageId);
+  }
+  return pending.length;
+}
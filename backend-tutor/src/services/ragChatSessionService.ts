@@ -0,0 +1,129 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { summarizeConversation } from "../rag/openAiClient";
+
+type ConversationTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+const RECENT_TURN_LIMIT = 6;
+const SUMMARY_TRIGGER_COUNT = 10;
+const SUMMARY_KEEP_RECENT = 4;
+
+export async function getOrCreateChatSession(params: { userId: string; courseId: string; topicId: string }) {
+  return prisma.ragChatSession.upsert({
+    where: {
+      userId_courseId_topicId: {
+        userId: params.userId,
+        courseId: params.courseId,
+        topicId: params.topicId,
+      },
+    },
+    update: {},
+    create: {
+      userId: params.userId,
+      courseId: params.courseId,
+      topicId: params.topicId,
+    },
+    select: {
+      sessionId: true,
+      summary: true,
+      summaryMessageCount: true,
+    },
+  });
+}
+
+/**
+ * Returns the most recent turns that are not yet folded into the session summary.
+ */
+export async function loadUnsummarizedTurns(sessionId: string, summaryMessageCount: number): Promise<ConversationTurn[]> {
+  const messages = await prisma.ragChatMessage.findMany({
+    // Messages exchanged with a tutor during a handoff are not part of the assistant conversation
+    where: { sessionId, role: { in: ["user", "assistant"] }, handoffId: null },
+    orderBy: { createdAt: "asc" },
+    skip: summaryMessageCount,
+    select: { role: true, content: true },
+  });
+
+  return messages
+    .slice(-RECENT_TURN_LIMIT)
+    .map((message) => ({ role: message.role as ConversationTurn["role"], content: message.content }));
+}
+
+export async function appendChatTurn(params: {
+  sessionId: string;
+  userId: string;
+  question: string;
+  answer: string;
+  citations?: Prisma.InputJsonValue;
+  contexts?: Prisma.InputJsonValue;
+}): Promise<{ questionMessageId: string; answerMessageId: string }> {
+  const now = new Date();
+  const [question, answer] = await prisma.$transaction([
+    prisma.ragChatMessage.create({
+      data: { sessionId: params.sessionId, userId: params.userId, role: "user", content: params.question, createdAt: now },
+    }),
+    prisma.ragChatMessage.create({
+      // Keep the assistant turn strictly after the question it answers
+      data: {
+        sessionId: params.sessionId,
+        userId: params.userId,
+        role: "assistant",
+        content: params.answer,
+        citations: params.citations,
+        retrievedContexts: params.contexts,
+        createdAt: new Date(now.getTime() + 1),
+      },
+    }),
+    prisma.ragChatSession.update({
+      where: { sessionId: params.sessionId },
+      data: { lastMessageAt: now },
+    }),
+  ]);
+  return { questionMessageId: question.messageId, answerMessageId: answer.messageId };
+}
+
+/**
+ * Folds older turns into the session summary once enough unsummarized turns pile up,
+ * leaving the latest few verbatim for the next prompt.
+ */
+export async function rollChatSummary(sessionId: string): Promise<void> {
+  const session = await prisma.ragChatSession.findUnique({
+    where: { sessionId },
+    select: { userId: true, courseId: true, summary: true, summaryMessageCount: true },
+  });
+  if (!session) {
+    return;
+  }
+
+  const pending = await prisma.ragChatMessage.findMany({
+    where: { sessionId, role: { in: ["user", "assistant"] }, handoffId: null },
+    orderBy: { createdAt: "asc" },
+    skip: session.summaryMessageCount,
+    select: { role: true, content: true },
+  });
+  if (pending.length < SUMMARY_TRIGGER_COUNT) {
+    return;
+  }
+
+  const toSummarize = pending.slice(0, pending.length - SUMMARY_KEEP_RECENT);
+  const summary = await summarizeConversation({
+    previousSummary: session.summary,
+    messages: toSummarize.map((message) => ({
+      role: message.role as ConversationTurn["role"],
+      content: message.content,
+    })),
+    scope: { userId: session.userId, courseId: session.courseId },
+  });
+
+  // Guard on the count we read so two concurrent rolls cannot double-advance it
+  await prisma.ragChatSession.updateMany({
+    where: { sessionId, summaryMessageCount: session.summaryMessageCount },
+    data: {
+      summary: summary.trim(),
+      summaryMessageCount: session.summaryMessageCount + toSummarize.length,
+      summaryUpdatedAt: new Date(),
+    },
+  });
+}
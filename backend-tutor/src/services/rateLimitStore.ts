@@ -0,0 +1,51 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export type RateLimitRule = {
+  max: number;
+  windowMs: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  retryAfterSeconds: number;
+};
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+let lastPrunedAt = 0;
+
+/**
+ * Counts one hit against a fixed window shared by every replica. The upsert is atomic,
+ * so concurrent requests for the same key never read a stale count.
+ */
+export async function consumeRateLimit(key: string, rule: RateLimitRule, now: Date = new Date()): Promise<RateLimitResult> {
+  const windowStart = new Date(Math.floor(now.getTime() / rule.windowMs) * rule.windowMs);
+  const resetAt = new Date(windowStart.getTime() + rule.windowMs);
+
+  const rows = await prisma.$queryRaw<Array<{ hits: number }>>(Prisma.sql`
+    INSERT INTO rate_limit_buckets (bucket_key, window_start, hits, expires_at)
+    VALUES (${key}, ${windowStart}, 1, ${resetAt})
+    ON CONFLICT (bucket_key, window_start)
+    DO UPDATE SET hits = rate_limit_buckets.hits + 1
+    RETURNING hits
+  `);
+  const hits = Number(rows[0]?.hits ?? 1);
+
+  if (now.getTime() - lastPrunedAt > PRUNE_INTERVAL_MS) {
+    lastPrunedAt = now.getTime();
+    void prisma.rateLimitBucket.deleteMany({ where: { expiresAt: { lt: now } } }).catch((error) => {
+      console.error("Failed to prune expired rate limit buckets", error);
+    });
+  }
+
+  return {
+    allowed: hits <= rule.max,
+    limit: rule.max,
+    remaining: Math.max(rule.max - hits, 0),
+    resetAt,
+    retryAfterSeconds: Math.max(Math.ceil((resetAt.getTime() - now.getTime()) / 1000), 1),
+  };
+}
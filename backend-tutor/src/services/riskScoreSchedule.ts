@@ -0,0 +1,44 @@
+import { env } from "../config/env";
+import { prisma } from "./prisma";
+import { refreshCourseRiskScores } from "./learnerRiskService";
+
+/**
+ * Rescores every course now and then every `intervalMinutes` from inside the API process, so
+ * risk levels follow learners without anyone pressing Rescore. Returns a function that stops it.
+ * An interval of 0 leaves scheduling off, e.g. on all but one replica or when cron runs
+ * `npm run risk:score` instead.
+ */
+export function startRiskScoreSchedule(intervalMinutes: number = env.riskScoreIntervalMinutes): () => void {
+  if (intervalMinutes <= 0) {
+    return () => undefined;
+  }
+
+  let running = false;
+  const scoreAllCourses = async () => {
+    // A slow pass is never overlapped by the next tick
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const courses = await prisma.course.findMany({ select: { courseId: true } });
+      for (const { courseId } of courses) {
+        try {
+          await refreshCourseRiskScores(courseId);
+        } catch (error) {
+          console.error(`Scheduled risk scoring failed for course ${courseId}`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Scheduled risk scoring failed", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void scoreAllCourses();
+  const timer = setInterval(() => void scoreAllCourses(), intervalMinutes * 60 * 1000);
+  // The schedule alone never keeps the process alive
+  timer.unref();
+  return () => clearInterval(timer);
+}
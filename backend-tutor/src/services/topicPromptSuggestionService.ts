@@ -0,0 +1,24 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Adds a top-level suggested prompt with a curated answer after the topic's existing ones.
+ * Runs on the caller's transaction so the prompt lands together with whatever it resolves.
+ */
+export async function appendTopicPromptSuggestion(
+  tx: Prisma.TransactionClient,
+  input: { courseId: string; topicId: string; promptText: string; answer: string },
+) {
+  const last = await tx.topicPromptSuggestion.aggregate({
+    where: { topicId: input.topicId, parentSuggestionId: null },
+    _max: { displayOrder: true },
+  });
+  return tx.topicPromptSuggestion.create({
+    data: {
+      courseId: input.courseId,
+      topicId: input.topicId,
+      promptText: input.promptText,
+      answer: input.answer.trim(),
+      displayOrder: (last._max.displayOrder ?? -1) + 1,
+    },
+  });
+}
@@ -0,0 +1,194 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { summarizeConversation } from "../rag/openAiClient";
+import type { CopilotToolTrace } from "../rag/openAiClient";
+
+type ConversationTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+const RECENT_TURN_LIMIT = 6;
+const SUMMARY_TRIGGER_COUNT = 10;
+const SUMMARY_KEEP_RECENT = 4;
+const TITLE_MAX_LENGTH = 80;
+
+const conversationSelect = {
+  conversationId: true,
+  courseId: true,
+  title: true,
+  lastMessageAt: true,
+  createdAt: true,
+} satisfies Prisma.TutorCopilotConversationSelect;
+
+export type CopilotConversationRow = Prisma.TutorCopilotConversationGetPayload<{ select: typeof conversationSelect }>;
+
+export function buildConversationTitle(question: string): string {
+  const singleLine = question.replace(/\s+/g, " ").trim();
+  return singleLine.length > TITLE_MAX_LENGTH ? `${singleLine.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : singleLine;
+}
+
+/**
+ * Finds a conversation only if it belongs to this tutor and course.
+ */
+export async function findCopilotConversation(params: { conversationId: string; userId: string; courseId: string }) {
+  return prisma.tutorCopilotConversation.findFirst({
+    where: { conversationId: params.conversationId, userId: params.userId, courseId: params.courseId },
+    select: {
+      conversationId: true,
+      title: true,
+      summary: true,
+      summaryMessageCount: true,
+    },
+  });
+}
+
+export async function createCopilotConversation(params: { userId: string; courseId: string; title: string }) {
+  return prisma.tutorCopilotConversation.create({
+    data: { userId: params.userId, courseId: params.courseId, title: params.title },
+    select: { conversationId: true, title: true },
+  });
+}
+
+export async function listCopilotConversations(userId: string, courseId: string) {
+  const conversations = await prisma.tutorCopilotConversation.findMany({
+    where: { userId, courseId },
+    orderBy: [{ lastMessageAt: { sort: "desc", nulls: "last" } }, { createdAt: "desc" }],
+    select: { ...conversationSelect, _count: { select: { messages: true } } },
+  });
+
+  return conversations.map(({ _count, ...conversation }) => ({
+    ...conversation,
+    messageCount: _count.messages,
+  }));
+}
+
+export async function listCopilotConversationMessages(conversationId: string) {
+  return prisma.tutorCopilotMessage.findMany({
+    where: { conversationId, role: { in: ["user", "assistant"] } },
+    orderBy: { createdAt: "asc" },
+    select: {
+      messageId: true,
+      role: true,
+      content: true,
+      cohortId: true,
+      trace: true,
+      createdAt: true,
+    },
+  });
+}
+
+export async function renameCopilotConversation(conversationId: string, title: string): Promise<CopilotConversationRow> {
+  return prisma.tutorCopilotConversation.update({
+    where: { conversationId },
+    data: { title },
+    select: conversationSelect,
+  });
+}
+
+export async function deleteCopilotConversation(conversationId: string): Promise<void> {
+  await prisma.tutorCopilotConversation.delete({ where: { conversationId } });
+}
+
+/**
+ * Returns the most recent turns that are not yet folded into the conversation summary.
+ */
+export async function loadUnsummarizedCopilotTurns(
+  conversationId: string,
+  summaryMessageCount: number,
+): Promise<ConversationTurn[]> {
+  const messages = await prisma.tutorCopilotMessage.findMany({
+    where: { conversationId, role: { in: ["user", "assistant"] } },
+    orderBy: { createdAt: "asc" },
+    skip: summaryMessageCount,
+    select: { role: true, content: true },
+  });
+
+  return messages
+    .slice(-RECENT_TURN_LIMIT)
+    .map((message) => ({ role: message.role as ConversationTurn["role"], content: message.content }));
+}
+
+export async function appendCopilotTurn(params: {
+  conversationId: string;
+  userId: string;
+  cohortId?: string | null;
+  question: string;
+  answer: string;
+  trace: CopilotToolTrace[];
+}): Promise<void> {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.tutorCopilotMessage.create({
+      data: {
+        conversationId: params.conversationId,
+        userId: params.userId,
+        role: "user",
+        content: params.question,
+        cohortId: params.cohortId ?? null,
+        createdAt: now,
+      },
+    }),
+    prisma.tutorCopilotMessage.create({
+      // Keep the assistant turn strictly after the question it answers
+      data: {
+        conversationId: params.conversationId,
+        userId: params.userId,
+        role: "assistant",
+        content: params.answer,
+        cohortId: params.cohortId ?? null,
+        trace: params.trace as unknown as Prisma.InputJsonValue,
+        createdAt: new Date(now.getTime() + 1),
+      },
+    }),
+    prisma.tutorCopilotConversation.update({
+      where: { conversationId: params.conversationId },
+      data: { lastMessageAt: now },
+    }),
+  ]);
+}
+
+/**
+ * Folds older turns into the conversation summary once enough unsummarized turns pile up,
+ * leaving the latest few verbatim for the next prompt.
+ */
+export async function rollCopilotSummary(conversationId: string): Promise<void> {
+  const conversation = await prisma.tutorCopilotConversation.findUnique({
+    where: { conversationId },
+    select: { userId: true, courseId: true, summary: true, summaryMessageCount: true },
+  });
+  if (!conversation) {
+    return;
+  }
+
+  const pending = await prisma.tutorCopilotMessage.findMany({
+    where: { conversationId, role: { in: ["user", "assistant"] } },
+    orderBy: { createdAt: "asc" },
+    skip: conversation.summaryMessageCount,
+    select: { role: true, content: true },
+  });
+  if (pending.length < SUMMARY_TRIGGER_COUNT) {
+    return;
+  }
+
+  const toSummarize = pending.slice(0, pending.length - SUMMARY_KEEP_RECENT);
+  const summary = await summarizeConversation({
+    previousSummary: conversation.summary,
+    messages: toSummarize.map((message) => ({
+      role: message.role as ConversationTurn["role"],
+      content: message.content,
+    })),
+    audience: "tutor",
+    scope: { userId: conversation.userId, courseId: conversation.courseId },
+  });
+
+  // Guard on the count we read so two concurrent rolls cannot double-advance it
+  await prisma.tutorCopilotConversation.updateMany({
+    where: { conversationId, summaryMessageCount: conversation.summaryMessageCount },
+    data: {
+      summary: summary.trim(),
+      summaryMessageCount: conversation.summaryMessageCount + toSummarize.length,
+      summaryUpdatedAt: new Date(),
+    },
+  });
+}
@@ -0,0 +1,266 @@
+import type { Prisma, TutorHandoff } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getOrCreateChatSession } from "./ragChatSessionService";
+import { recordServerActivityEvent } from "./activityEventService";
+
+export const HANDOFF_STATUSES = ["open", "resolved"] as const;
+export type HandoffStatus = (typeof HANDOFF_STATUSES)[number];
+
+const INBOX_LIMIT = 50;
+const PREVIEW_LENGTH = 160;
+
+const transcriptSelect = {
+  messageId: true,
+  role: true,
+  content: true,
+  citations: true,
+  handoffId: true,
+  createdAt: true,
+  user: { select: { fullName: true } },
+} satisfies Prisma.RagChatMessageSelect;
+
+type TranscriptRow = Prisma.RagChatMessageGetPayload<{ select: typeof transcriptSelect }>;
+
+// Tutor replies carry the tutor's name so the chat can tell them apart from the assistant
+const toTranscriptMessage = ({ user, ...message }: TranscriptRow) => ({
+  ...message,
+  authorName: message.role === "tutor" ? user.fullName : null,
+});
+
+async function loadTranscript(sessionId: string) {
+  const messages = await prisma.ragChatMessage.findMany({
+    where: { sessionId, role: { in: ["user", "assistant", "tutor"] } },
+    orderBy: { createdAt: "asc" },
+    select: transcriptSelect,
+  });
+  return messages.map(toTranscriptMessage);
+}
+
+/**
+ * Hands the learner's assistant conversation on a topic to the course tutors, opening a
+ * ticket on the chat session (or reopening a resolved one) with the learner's message as
+ * its first entry.
+ */
+export async function escalateChatSession(options: {
+  userId: string;
+  courseId: string;
+  topicId: string;
+  moduleNo: number;
+  message: string;
+}): Promise<TutorHandoff> {
+  const session = await getOrCreateChatSession({
+    userId: options.userId,
+    courseId: options.courseId,
+    topicId: options.topicId,
+  });
+  const now = new Date();
+
+  const handoff = await prisma.$transaction(async (tx) => {
+    const ticket = await tx.tutorHandoff.upsert({
+      where: { sessionId: session.sessionId },
+      create: {
+        sessionId: session.sessionId,
+        courseId: options.courseId,
+        learnerId: options.userId,
+        escalatedAt: now,
+        lastMessageAt: now,
+        learnerReadAt: now,
+      },
+      update: {
+        status: "open",
+        escalatedAt: now,
+        lastMessageAt: now,
+        learnerReadAt: now,
+        resolvedBy: null,
+        resolvedAt: null,
+      },
+    });
+    await tx.ragChatMessage.create({
+      data: {
+        sessionId: session.sessionId,
+        userId: options.userId,
+        role: "user",
+        content: options.message,
+        handoffId: ticket.handoffId,
+        createdAt: now,
+      },
+    });
+    await tx.ragChatSession.update({ where: { sessionId: session.sessionId }, data: { lastMessageAt: now } });
+    return ticket;
+  });
+
+  await recordServerActivityEvent(options.userId, {
+    courseId: options.courseId,
+    moduleNo: options.moduleNo,
+    topicId: options.topicId,
+    eventType: "tutor.handoff",
+    payload: { handoffId: handoff.handoffId },
+  });
+
+  return handoff;
+}
+
+/**
+ * The learner's conversation on a topic, assistant and tutor turns alike, with its handoff
+ * if there is one. Loading it marks the tutor's replies as read.
+ */
+export async function getLearnerConversation(options: { userId: string; courseId: string; topicId: string }) {
+  const session = await prisma.ragChatSession.findUnique({
+    where: {
+      userId_courseId_topicId: { userId: options.userId, courseId: options.courseId, topicId: options.topicId },
+    },
+    select: { sessionId: true, handoff: true },
+  });
+  if (!session) {
+    return { sessionId: null, handoff: null, messages: [] };
+  }
+
+  const messages = await loadTranscript(session.sessionId);
+  const handoff = session.handoff
+    ? await prisma.tutorHandoff.update({
+        where: { handoffId: session.handoff.handoffId },
+        data: { learnerReadAt: new Date() },
+      })
+    : null;
+
+  return { sessionId: session.sessionId, handoff, messages };
+}
+
+/**
+ * Adds a learner message to their handoff; writing to a resolved handoff reopens it.
+ * Returns null when the handoff is not the learner's.
+ */
+export async function postLearnerHandoffMessage(userId: string, handoffId: string, content: string) {
+  const handoff = await prisma.tutorHandoff.findFirst({ where: { handoffId, learnerId: userId } });
+  if (!handoff) {
+    return null;
+  }
+
+  const now = new Date();
+  const [message] = await prisma.$transaction([
+    prisma.ragChatMessage.create({
+      data: { sessionId: handoff.sessionId, userId, role: "user", content, handoffId, createdAt: now },
+      select: transcriptSelect,
+    }),
+    prisma.tutorHandoff.update({
+      where: { handoffId },
+      data: { status: "open", lastMessageAt: now, learnerReadAt: now, resolvedBy: null, resolvedAt: null },
+    }),
+    prisma.ragChatSession.update({ where: { sessionId: handoff.sessionId }, data: { lastMessageAt: now } }),
+  ]);
+  return toTranscriptMessage(message);
+}
+
+/**
+ * The course's handoff inbox, most recently active first, each with the number of learner
+ * messages the tutors have not read yet.
+ */
+export async function listTutorHandoffs(courseId: string, status: HandoffStatus | "all" = "open") {
+  const handoffs = await prisma.tutorHandoff.findMany({
+    where: { courseId, ...(status === "all" ? {} : { status }) },
+    orderBy: { lastMessageAt: "desc" },
+    take: INBOX_LIMIT,
+    include: {
+      learner: { select: { fullName: true, email: true } },
+      session: { select: { topic: { select: { topicId: true, topicName: true, moduleNo: true } } } },
+      messages: { orderBy: { createdAt: "desc" }, take: 1, select: { role: true, content: true } },
+    },
+  });
+
+  return Promise.all(
+    handoffs.map(async ({ learner, session, messages, ...handoff }) => {
+      const unreadCount = await prisma.ragChatMessage.count({
+        where: {
+          handoffId: handoff.handoffId,
+          role: "user",
+          ...(handoff.tutorReadAt ? { createdAt: { gt: handoff.tutorReadAt } } : {}),
+        },
+      });
+      const lastMessage = messages[0] ?? null;
+      return {
+        ...handoff,
+        learnerName: learner.fullName,
+        learnerEmail: learner.email,
+        topicId: session.topic.topicId,
+        topicName: session.topic.topicName,
+        moduleNo: session.topic.moduleNo,
+        lastMessage: lastMessage
+          ? { role: lastMessage.role, preview: lastMessage.content.slice(0, PREVIEW_LENGTH) }
+          : null,
+        unreadCount,
+      };
+    }),
+  );
+}
+
+/**
+ * The full conversation behind a handoff, from the learner's first assistant question on.
+ * Opening it marks the learner's messages as read for the course's tutors.
+ */
+export async function getHandoffTranscript(courseId: string, handoffId: string) {
+  const handoff = await prisma.tutorHandoff.findFirst({
+    where: { handoffId, courseId },
+    include: {
+      learner: { select: { fullName: true, email: true } },
+      session: { select: { summary: true, topic: { select: { topicId: true, topicName: true, moduleNo: true } } } },
+    },
+  });
+  if (!handoff) {
+    return null;
+  }
+
+  const [messages] = await Promise.all([
+    loadTranscript(handoff.sessionId),
+    prisma.tutorHandoff.update({ where: { handoffId }, data: { tutorReadAt: new Date() } }),
+  ]);
+
+  const { learner, session, ...ticket } = handoff;
+  return {
+    handoff: {
+      ...ticket,
+      learnerName: learner.fullName,
+      learnerEmail: learner.email,
+      topicId: session.topic.topicId,
+      topicName: session.topic.topicName,
+      moduleNo: session.topic.moduleNo,
+      sessionSummary: session.summary,
+    },
+    messages,
+  };
+}
+
+/**
+ * Writes a tutor reply into the learner's conversation. Returns null when the handoff is not
+ * on the course.
+ */
+export async function postTutorReply(courseId: string, handoffId: string, tutorId: string, content: string) {
+  const handoff = await prisma.tutorHandoff.findFirst({ where: { handoffId, courseId } });
+  if (!handoff) {
+    return null;
+  }
+
+  const now = new Date();
+  const [message] = await prisma.$transaction([
+    prisma.ragChatMessage.create({
+      data: { sessionId: handoff.sessionId, userId: tutorId, role: "tutor", content, handoffId, createdAt: now },
+      select: transcriptSelect,
+    }),
+    prisma.tutorHandoff.update({
+      where: { handoffId },
+      data: { lastMessageAt: now, tutorReadAt: now },
+    }),
+    prisma.ragChatSession.update({ where: { sessionId: handoff.sessionId }, data: { lastMessageAt: now } }),
+  ]);
+  return toTranscriptMessage(message);
+}
+
+export async function resolveHandoff(courseId: string, handoffId: string, tutorId: string) {
+  const handoff = await prisma.tutorHandoff.findFirst({ where: { handoffId, courseId }, select: { handoffId: true } });
+  if (!handoff) {
+    return null;
+  }
+  return prisma.tutorHandoff.update({
+    where: { handoffId },
+    data: { status: "resolved", resolvedBy: tutorId, resolvedAt: new Date() },
+  });
+}
@@ -1,6 +1,8 @@
 import { Prisma } from "@prisma/client";
 import { differenceInDays } from "date-fns";
 import { prisma } from "./prisma";
+import { getLastAttemptAtByUser, getPassedModulesByUser } from "./moduleQuizAttemptService";
+import { describeRiskReasons, ensureCourseRiskScores, listLearnerRiskScores, type RiskLevel } from "./learnerRiskService";
 
 export type TutorLearnerSnapshot = {
   userId: string;
@@ -13,6 +15,7 @@ export type TutorLearnerSnapshot = {
   lastActivity?: Date | null;
   cohortName?: string;
   recentTelemetry?: { type: string; reason: string; at: Date }[];
+  risk?: { score: number; level: RiskLevel; reasons: string[] } | null;
 };
 
 export type CohortSummary = {
@@ -111,26 +114,11 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
     orderBy: { enrolledAt: "asc" },
   });
 
-  // Fetch progress for ALL users in the course - strictly matching UI casting
-  const progressRows = await prisma.$queryRaw<
-    { user_id: string; module_no: number; quiz_passed: boolean; updated_at: Date | null }[]
-  >(Prisma.sql`
-    SELECT user_id::text as user_id, module_no, quiz_passed, updated_at
-    FROM module_progress
-    WHERE course_id::text = ${courseId}
-  `);
-
-  const progressByUser = new Map<string, { passedModules: Set<number>; lastActivity?: Date | null }>();
-  progressRows.forEach((row) => {
-    if (!row.quiz_passed) return;
-    const uid = String(row.user_id);
-    const entry = progressByUser.get(uid) ?? { passedModules: new Set<number>(), lastActivity: null };
-    entry.passedModules.add(row.module_no);
-    if (!entry.lastActivity || (row.updated_at && row.updated_at > entry.lastActivity)) {
-      entry.lastActivity = row.updated_at;
-    }
-    progressByUser.set(uid, entry);
-  });
+  // Fetch quiz progress for ALL users in the course
+  const [passedModulesByUser, lastAttemptByUser] = await Promise.all([
+    getPassedModulesByUser(courseId),
+    getLastAttemptAtByUser(courseId),
+  ]);
 
   // Fetch RECENT telemetry events for all users in the course to identify friction
   const telemetryRows = await prisma.$queryRaw<
@@ -167,8 +155,7 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
         displayName = emailPrefix.charAt(0).toUpperCase() + emailPrefix.slice(1);
       }
 
-      const progress = member.userId ? progressByUser.get(String(member.userId)) : null;
-      const completedModules = progress ? progress.passedModules.size : 0;
+      const completedModules = member.userId ? passedModulesByUser.get(member.userId)?.size ?? 0 : 0;
       const percent =
         totalModules === 0 ? 0 : Math.min(100, Math.floor((completedModules / totalModules) * 100));
 
@@ -180,7 +167,7 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
         completedModules,
         totalModules,
         percent,
-        lastActivity: progress?.lastActivity ?? member.addedAt,
+        lastActivity: (member.userId ? lastAttemptByUser.get(member.userId) : null) ?? member.addedAt,
         cohortName: cohort.name,
         recentTelemetry: telemetryByUser.get(String(member.userId || "")) || [],
       };
@@ -198,9 +185,9 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
     let validMemberCount = 0;
 
     memberUserIds.forEach(userId => {
-      const progress = progressByUser.get(userId);
-      if (progress) {
-        const completedModules = progress.passedModules.size;
+      const passedModules = passedModulesByUser.get(userId);
+      if (passedModules) {
+        const completedModules = passedModules.size;
         const percent = totalModules === 0 ? 0 : Math.min(100, Math.floor((completedModules / totalModules) * 100));
         totalCompletion += percent;
         validMemberCount++;
@@ -241,8 +228,7 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
     } else {
       // Cohort not found, fall back to all enrollments
       learners = allEnrollments.map((enrollment) => {
-        const progress = progressByUser.get(String(enrollment.userId));
-        const completedModules = progress ? progress.passedModules.size : 0;
+        const completedModules = passedModulesByUser.get(enrollment.userId)?.size ?? 0;
         const percent =
           totalModules === 0 ? 0 : Math.min(100, Math.floor((completedModules / totalModules) * 100));
         return {
@@ -253,7 +239,7 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
           completedModules,
           totalModules,
           percent,
-          lastActivity: progress?.lastActivity ?? enrollment.enrolledAt,
+          lastActivity: lastAttemptByUser.get(enrollment.userId) ?? enrollment.enrolledAt,
           recentTelemetry: telemetryByUser.get(String(enrollment.userId)) || [],
         };
       });
@@ -261,8 +247,7 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
   } else {
     // No cohort selected, show all enrollments
     learners = allEnrollments.map((enrollment) => {
-      const progress = progressByUser.get(String(enrollment.userId));
-      const completedModules = progress ? progress.passedModules.size : 0;
+      const completedModules = passedModulesByUser.get(enrollment.userId)?.size ?? 0;
       const percent =
         totalModules === 0 ? 0 : Math.min(100, Math.floor((completedModules / totalModules) * 100));
       return {
@@ -273,7 +258,7 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
         completedModules,
         totalModules,
         percent,
-        lastActivity: progress?.lastActivity ?? enrollment.enrolledAt,
+        lastActivity: lastAttemptByUser.get(enrollment.userId) ?? enrollment.enrolledAt,
         recentTelemetry: telemetryByUser.get(String(enrollment.userId)) || [],
       };
     });
@@ -291,7 +276,16 @@ export async function buildTutorCourseSnapshot(courseId: string, cohortId?: stri
     return differenceInDays(now, learner.lastActivity) <= 7;
   }).length;
 
-  const atRiskLearners = learners.filter((learner) => learner.percent < 50).length;
+  // At risk means a stored risk score of medium or above, the same score every tutor view reads
+  await ensureCourseRiskScores(courseId);
+  const riskScores = await listLearnerRiskScores(courseId);
+  const riskByUser = new Map(
+    riskScores.map((risk) => [risk.userId, { score: risk.score, level: risk.level, reasons: describeRiskReasons(risk) }]),
+  );
+  learners.forEach((learner) => {
+    learner.risk = riskByUser.get(learner.userId) ?? null;
+  });
+  const atRiskLearners = learners.filter((learner) => learner.risk && learner.risk.level !== "low").length;
 
   const averageCompletion =
     learners.length === 0
@@ -363,9 +357,13 @@ export function formatTutorSnapshot(snapshot: TutorCourseSnapshot): string {
         ? ` signals="${(learner as any).recentTelemetry.map((t: any) => `${t.reason}`).join(" | ")}"`
         : " signals=\"none\"";
 
+      const risk = learner.risk
+        ? ` risk="${learner.risk.score}/100 ${learner.risk.level}${learner.risk.reasons.length > 0 ? `: ${learner.risk.reasons.join("; ")}` : ""}"`
+        : "";
+
       // Add ranking number to make it crystal clear for the AI
       const rank = index + 1;
-      return `[RECORD #${rank}] name="${learner.fullName}" email="${learner.email}"${cohortInfo} progress="${learner.percent}%" count="${learner.completedModules}/${learner.totalModules}" enrolled="${enrolled}" last_active="${lastActivity}"${telemetry}`;
+      return `[RECORD #${rank}] name="${learner.fullName}" email="${learner.email}"${cohortInfo} progress="${learner.percent}%" count="${learner.completedModules}/${learner.totalModules}" enrolled="${enrolled}" last_active="${lastActivity}"${telemetry}${risk}`;
     })
     .join("\n");
 
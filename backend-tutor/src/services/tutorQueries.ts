@@ -1,5 +1,22 @@
 import { prisma } from "./prisma";
-import { Prisma } from "@prisma/client";
+import {
+    countQuizAttempts,
+    getLastAttemptAtByUser,
+    getPassedModulesByUser,
+    listQuizAttempts,
+    type QuizAttemptRow,
+} from "./moduleQuizAttemptService";
+import { getCompletionForecasts, resolveForecastStart } from "./completionForecastService";
+import { analyzeCohortPerformanceFactors } from "./cohortPerformanceService";
+import {
+    STUCK_MODULE_ATTEMPTS,
+    describeRiskReasons,
+    ensureCourseRiskScores,
+    listLearnerRiskScores,
+    type RiskFactorKey,
+    type RiskLevel,
+    type StoredRiskScore,
+} from "./learnerRiskService";
 
 /**
  * READ-ONLY Database Query Functions for Tutor Copilot
@@ -76,24 +93,8 @@ export async function getTopLearnersByCohort(params: {
         })).slice(0, limit);
     }
 
-    const progressRows = await prisma.$queryRaw<
-        { user_id: string; module_no: number; quiz_passed: boolean }[]
-    >(Prisma.sql`
-    SELECT user_id::text as user_id, module_no, quiz_passed
-    FROM module_progress
-    WHERE course_id::text = ${courseId}
-    AND user_id::text IN (${Prisma.join(userIds)})
-  `);
-
     // Calculate completion for each learner
-    const progressByUser = new Map<string, Set<number>>();
-    progressRows.forEach(row => {
-        if (!row.quiz_passed) return;
-        const uid = String(row.user_id);
-        const modules = progressByUser.get(uid) || new Set<number>();
-        modules.add(row.module_no);
-        progressByUser.set(uid, modules);
-    });
+    const progressByUser = await getPassedModulesByUser(courseId, userIds);
 
     const learnersWithProgress = learners.map(learner => {
         const completedModules = learner.userId ? (progressByUser.get(learner.userId)?.size || 0) : 0;
@@ -150,16 +151,9 @@ export async function getLearnerProgress(params: {
     });
     const totalModules = maxModule._max.moduleNo || 8;
 
-    // Get progress
-    const progressRows = await prisma.$queryRaw<
-        { module_no: number; quiz_passed: boolean; updated_at: Date }[]
-    >(Prisma.sql`
-    SELECT module_no, quiz_passed, updated_at
-    FROM module_progress
-    WHERE course_id::text = ${courseId}
-    AND user_id::text = ${user.userId}
-    ORDER BY module_no ASC
-  `);
+    // Get quiz attempts, folded into one entry per module
+    const attempts = await listQuizAttempts({ courseId, userIds: [user.userId] });
+    const moduleDetails = summarizeModuleAttempts(attempts);
 
     // Get absolute latest activity from events table (Browser signals, idle heartbeats, friction)
     const latestEvent = await prisma.learnerActivityEvent.findFirst({
@@ -168,11 +162,11 @@ export async function getLearnerProgress(params: {
         select: { createdAt: true }
     });
 
-    const completedModules = progressRows.filter(r => r.quiz_passed).length;
+    const completedModules = moduleDetails.filter(m => m.completed).length;
     const percent = Math.floor((completedModules / totalModules) * 100);
 
-    // Final last activity is the max of progress updates or browser events
-    let lastActivity = progressRows.length > 0 ? progressRows[progressRows.length - 1].updated_at : user.createdAt;
+    // Final last activity is the max of quiz submissions or browser events
+    let lastActivity = attempts.length > 0 ? attempts[attempts.length - 1].submittedAt : user.createdAt;
     if (latestEvent && latestEvent.createdAt > lastActivity) {
         lastActivity = latestEvent.createdAt;
     }
@@ -184,14 +178,47 @@ export async function getLearnerProgress(params: {
         totalModules,
         percent,
         lastActivity,
-        moduleDetails: progressRows.map(r => ({
-            moduleNo: r.module_no,
-            completed: r.quiz_passed,
-            completedAt: r.updated_at,
-        })),
+        moduleDetails,
     };
 }
 
+/**
+ * Collapse a learner's attempts (oldest first) into one entry per module
+ */
+function summarizeModuleAttempts(attempts: QuizAttemptRow[]) {
+    const byModule = new Map<number, {
+        moduleNo: number;
+        completed: boolean;
+        completedAt: Date | null;
+        attempts: number;
+        bestScore: number | null;
+        lastAttemptAt: Date;
+    }>();
+
+    attempts.forEach(attempt => {
+        const entry = byModule.get(attempt.moduleNo) ?? {
+            moduleNo: attempt.moduleNo,
+            completed: false,
+            completedAt: null,
+            attempts: 0,
+            bestScore: null,
+            lastAttemptAt: attempt.submittedAt,
+        };
+        entry.attempts += 1;
+        entry.lastAttemptAt = attempt.submittedAt;
+        if (attempt.score !== null && (entry.bestScore === null || attempt.score > entry.bestScore)) {
+            entry.bestScore = attempt.score;
+        }
+        if (attempt.passed && !entry.completed) {
+            entry.completed = true;
+            entry.completedAt = attempt.submittedAt;
+        }
+        byModule.set(attempt.moduleNo, entry);
+    });
+
+    return Array.from(byModule.values()).sort((a, b) => a.moduleNo - b.moduleNo);
+}
+
 // ============================================================================
 // COHORT ANALYTICS QUERIES
 // ============================================================================
@@ -232,23 +259,7 @@ export async function getCohortStats(params: {
     const totalModules = maxModule._max.moduleNo || 8;
 
     // Get progress
-    const progressRows = await prisma.$queryRaw<
-        { user_id: string; module_no: number; quiz_passed: boolean }[]
-    >(Prisma.sql`
-    SELECT user_id::text as user_id, module_no, quiz_passed
-    FROM module_progress
-    WHERE course_id::text = ${courseId}
-    AND user_id::text IN (${Prisma.join(userIds)})
-  `);
-
-    const progressByUser = new Map<string, Set<number>>();
-    progressRows.forEach(row => {
-        if (!row.quiz_passed) return;
-        const uid = String(row.user_id);
-        const modules = progressByUser.get(uid) || new Set<number>();
-        modules.add(row.module_no);
-        progressByUser.set(uid, modules);
-    });
+    const progressByUser = await getPassedModulesByUser(courseId, userIds);
 
     let totalCompletion = 0;
     userIds.forEach(userId => {
@@ -320,52 +331,88 @@ export async function getActiveLearners(params: {
     }
 
     // Get recent activity
-    const activeUsers = await prisma.$queryRaw<
-        { user_id: string; last_activity: Date }[]
-    >(Prisma.sql`
-    SELECT DISTINCT user_id::text as user_id, MAX(updated_at) as last_activity
-    FROM module_progress
-    WHERE course_id::text = ${courseId}
-    AND user_id::text IN (${Prisma.join(userIds)})
-    AND updated_at >= ${cutoffDate}
-    GROUP BY user_id
-  `);
+    const lastAttemptByUser = await getLastAttemptAtByUser(courseId, userIds);
+    const activeUserIds = Array.from(lastAttemptByUser.entries())
+        .filter(([, lastActivity]) => lastActivity >= cutoffDate)
+        .map(([userId]) => userId);
 
     // Get user details
-    const activeUserIds = activeUsers.map(u => u.user_id);
     const users = await prisma.user.findMany({
         where: { userId: { in: activeUserIds } },
         select: { userId: true, fullName: true, email: true },
     });
 
-    return users.map(user => {
-        const activity = activeUsers.find(a => a.user_id === user.userId);
-        return {
-            name: user.fullName,
-            email: user.email,
-            lastActivity: activity?.last_activity,
-        };
-    });
+    return users.map(user => ({
+        name: user.fullName,
+        email: user.email,
+        lastActivity: lastAttemptByUser.get(user.userId),
+    }));
+}
+
+// ============================================================================
+// LEARNER RISK QUERIES
+// All of these read the stored risk scores, so they agree with each other and the dashboard
+// ============================================================================
+
+const RISK_SCORES_MISSING = {
+    error: true,
+    message: 'No learner in this course has a risk score because it has no active learners to score yet.',
+};
+
+function formatRiskScore(score: StoredRiskScore) {
+    return {
+        name: score.name,
+        email: score.email,
+        riskScore: score.score,
+        riskLevel: score.level,
+        reasons: describeRiskReasons(score),
+        completionPercent: score.signals.completionPercent,
+        daysInactive: score.signals.daysInactive,
+        scoredAt: score.computedAt,
+    };
+}
+
+const hasFactor = (score: StoredRiskScore, keys: RiskFactorKey[]) =>
+    score.factors.some(factor => keys.includes(factor.key) && factor.points > 0);
+
+async function loadRiskScores(courseId: string, options: { cohortId?: string; minLevel?: RiskLevel } = {}) {
+    if (!(await ensureCourseRiskScores(courseId))) return null;
+    return listLearnerRiskScores(courseId, options);
 }
 
 /**
- * Get at-risk learners (low completion, inactive)
+ * Get at-risk learners by their risk score, with the reasons behind it
  */
 export async function getAtRiskLearners(params: {
     courseId: string;
     cohortId?: string;
-    thresholdPercent: number;
+    minLevel?: RiskLevel;
 }) {
-    const { courseId, cohortId, thresholdPercent } = params;
-
-    const topLearners = await getTopLearnersByCohort({
-        courseId,
-        cohortId,
-        limit: 100,
-        sortOrder: 'asc', // Get lowest performers
+    const scores = await loadRiskScores(params.courseId, {
+        cohortId: params.cohortId,
+        minLevel: params.minLevel ?? 'medium',
     });
+    if (!scores) return RISK_SCORES_MISSING;
+    return scores.map(formatRiskScore);
+}
+
+/**
+ * Get one learner's risk score and the factors behind it
+ */
+export async function getLearnerRiskScore(params: {
+    courseId: string;
+    learnerEmail: string;
+}) {
+    const scores = await loadRiskScores(params.courseId);
+    if (!scores) return RISK_SCORES_MISSING;
 
-    return topLearners.filter(l => l.percent < thresholdPercent);
+    const score = scores.find(s => s.email.toLowerCase() === params.learnerEmail.toLowerCase());
+    if (!score) return { error: true, message: 'No risk score for this learner in this course' };
+    return {
+        ...formatRiskScore(score),
+        factors: score.factors,
+        signals: score.signals,
+    };
 }
 
 /**
@@ -536,22 +583,19 @@ export async function getLearnerModuleProgress(params: {
 
     if (!user) return { error: true, message: "Learner not found" };
 
-    const progress = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT * FROM module_progress
-        WHERE course_id::text = ${courseId}
-        AND user_id::text = ${user.userId}
-        AND module_no = ${moduleNo}
-    `);
+    const attempts = await listQuizAttempts({ courseId, userIds: [user.userId], moduleNo });
+    const [summary] = summarizeModuleAttempts(attempts);
 
-    if (progress.length === 0) {
+    if (!summary) {
         return { moduleNo, completed: false, attempts: 0 };
     }
 
     return {
         moduleNo,
-        completed: progress[0].quiz_passed,
-        attempts: progress.length,
-        lastAttempt: progress[progress.length - 1].updated_at,
+        completed: summary.completed,
+        attempts: summary.attempts,
+        bestScore: summary.bestScore,
+        lastAttempt: summary.lastAttemptAt,
     };
 }
 
@@ -660,14 +704,14 @@ export async function getModuleAttemptHistory(params: {
 
     if (!user) return { error: true, message: "Learner not found" };
 
-    return await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT module_no, quiz_passed, updated_at
-        FROM module_progress
-        WHERE course_id::text = ${courseId}
-        AND user_id::text = ${user.userId}
-        AND module_no = ${moduleNo}
-        ORDER BY updated_at ASC
-    `);
+    const attempts = await listQuizAttempts({ courseId, userIds: [user.userId], moduleNo });
+    return attempts.map(attempt => ({
+        moduleNo: attempt.moduleNo,
+        attemptNumber: attempt.attemptNumber,
+        score: attempt.score,
+        passed: attempt.passed,
+        submittedAt: attempt.submittedAt,
+    }));
 }
 
 /**
@@ -686,7 +730,8 @@ export async function getFailedModules(params: {
 }
 
 /**
- * Estimate completion date based on current progress rate
+ * Forecast a learner's completion date from their own pace, with a confidence range
+ * and a check against their cohort's end date
  */
 export async function getEstimatedCompletionDate(params: {
     courseId: string;
@@ -697,15 +742,48 @@ export async function getEstimatedCompletionDate(params: {
 
     if ('error' in progress) return progress;
 
-    if (progress.percent === 100) return { message: "Already completed" };
-    if (progress.percent === 0) return { message: "Not started yet" };
+    const user = await prisma.user.findUnique({
+        where: { email: learnerEmail.toLowerCase() },
+        select: { userId: true },
+    });
+    const enrollment = user
+        ? await prisma.enrollment.findFirst({ where: { userId: user.userId, courseId }, select: { enrolledAt: true } })
+        : null;
+    if (!user || !enrollment) {
+        return { error: true, message: `${progress.name} is not enrolled in this course` };
+    }
+
+    const membership = await prisma.cohortMember.findFirst({
+        where: { userId: user.userId, status: "active", cohort: { courseId } },
+        orderBy: { addedAt: "desc" },
+        select: { addedAt: true, cohort: { select: { name: true, startsAt: true, endsAt: true } } },
+    });
+
+    const forecasts = await getCompletionForecasts(courseId, progress.totalModules, [{
+        userId: user.userId,
+        startedAt: resolveForecastStart(membership?.addedAt ?? enrollment.enrolledAt, membership?.cohort.startsAt),
+        cohortEndsAt: membership?.cohort.endsAt ?? null,
+    }]);
+    const forecast = forecasts.get(user.userId)!;
+    const toDay = (date: Date | null | undefined) => date ? date.toISOString().slice(0, 10) : null;
 
-    // Simple estimation: (remaining modules / modules completed) * days since enrollment
-    // or just say "at current pace, [X] more weeks"
-    const remaining = progress.totalModules - progress.completedModules;
     return {
-        remainingModules: remaining,
-        estimatedWeeks: Math.ceil(remaining * 1.5), // Arbitrary multiplier
+        name: progress.name,
+        email: progress.email,
+        status: forecast.status,
+        completedModules: forecast.completedModules,
+        totalModules: forecast.totalModules,
+        remainingModules: forecast.remainingModules,
+        daysPerModule: forecast.daysPerModule,
+        recentCadenceFactor: forecast.cadenceFactor,
+        estimatedCompletionDate: toDay(forecast.estimatedCompletionDate),
+        earliestCompletionDate: toDay(forecast.range?.earliest),
+        latestCompletionDate: toDay(forecast.range?.latest),
+        confidence: forecast.confidence,
+        cohortName: membership?.cohort.name ?? null,
+        cohortEndsAt: toDay(forecast.cohortEndsAt),
+        cohortOutlook: forecast.cohortOutlook,
+        projectedToMissCohortEnd: forecast.projectedToMissCohortEnd,
     };
 }
 
@@ -720,14 +798,9 @@ export async function getEngagementScore(params: {
 
     if ('error' in progress) return progress;
 
-    const res = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT COUNT(*) as count 
-        FROM module_progress mp 
-        JOIN users u ON mp.user_id::uuid = u.user_id 
-        WHERE mp.course_id::text = ${params.courseId} 
-        AND u.email = ${params.learnerEmail.toLowerCase()}
-    `);
-    const activityCount = Number(res[0].count);
+    const activityCount = await prisma.moduleQuizAttempt.count({
+        where: { courseId: params.courseId, user: { email: params.learnerEmail.toLowerCase() } },
+    });
 
     const completionScore = progress.percent;
     const activityScore = Math.min(100, activityCount * 5);
@@ -763,18 +836,17 @@ export async function getRecentlyActiveLearners(params: {
     const cutoff = new Date();
     cutoff.setHours(cutoff.getHours() - params.hours);
 
-    const activeUsers = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT DISTINCT ON (mp.user_id) u.full_name as "fullName", u.email, mp.updated_at as "updatedAt"
-        FROM module_progress mp
-        JOIN users u ON mp.user_id::uuid = u.user_id
-        WHERE mp.course_id::text = ${params.courseId}
-        AND mp.updated_at >= ${cutoff}
-    `);
-
-    return activeUsers.map(a => ({
-        name: a.fullName,
-        email: a.email,
-        lastActivity: a.updatedAt,
+    const latestAttempts = await prisma.moduleQuizAttempt.findMany({
+        where: { courseId: params.courseId, submittedAt: { gte: cutoff } },
+        orderBy: { submittedAt: "desc" },
+        distinct: ["userId"],
+        select: { submittedAt: true, user: { select: { fullName: true, email: true } } },
+    });
+
+    return latestAttempts.map(a => ({
+        name: a.user.fullName,
+        email: a.user.email,
+        lastActivity: a.submittedAt,
     }));
 }
 
@@ -795,14 +867,15 @@ export async function getLearnerActivityHistory(params: {
     const cutoff = new Date();
     cutoff.setDate(cutoff.getDate() - params.days);
 
-    return await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT module_no, quiz_passed, updated_at as "updatedAt"
-        FROM module_progress
-        WHERE user_id::text = ${user.userId}
-        AND course_id::text = ${params.courseId}
-        AND updated_at >= ${cutoff}
-        ORDER BY updated_at DESC
-    `);
+    const attempts = await listQuizAttempts({ courseId: params.courseId, userIds: [user.userId], since: cutoff }, "desc");
+    return attempts.map(attempt => ({
+        moduleNo: attempt.moduleNo,
+        attemptNumber: attempt.attemptNumber,
+        score: attempt.score,
+        passed: attempt.passed,
+        selfReported: attempt.selfReported,
+        submittedAt: attempt.submittedAt,
+    }));
 }
 
 /**
@@ -812,29 +885,7 @@ export async function getMostActiveLearners(params: {
     courseId: string;
     limit: number;
 }) {
-    const activityCounts = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT user_id, COUNT(*) as "count"
-        FROM module_progress
-        WHERE course_id::text = ${params.courseId}
-        GROUP BY user_id
-        ORDER BY "count" DESC
-        LIMIT ${params.limit}
-    `);
-
-    const userIds = activityCounts.map(a => a.user_id);
-    const users = await prisma.user.findMany({
-        where: { userId: { in: userIds } },
-        select: { userId: true, fullName: true, email: true },
-    });
-
-    return activityCounts.map(a => {
-        const user = users.find(u => u.userId === a.user_id);
-        return {
-            name: user?.fullName,
-            email: user?.email,
-            activityCount: Number(a.count),
-        };
-    });
+    return await getAttemptCountsByLearner(params.courseId, params.limit, "desc");
 }
 
 /**
@@ -844,27 +895,33 @@ export async function getLeastActiveLearners(params: {
     courseId: string;
     limit: number;
 }) {
-    const activityCounts = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT user_id, COUNT(*) as "count"
-        FROM module_progress
-        WHERE course_id::text = ${params.courseId}
-        GROUP BY user_id
-        ORDER BY "count" ASC
-        LIMIT ${params.limit}
-    `);
-
-    const userIds = activityCounts.map(a => a.user_id);
+    return await getAttemptCountsByLearner(params.courseId, params.limit, "asc");
+}
+
+/**
+ * Count quiz attempts per learner, ranked by volume
+ */
+async function getAttemptCountsByLearner(courseId: string, limit: number, order: "asc" | "desc") {
+    const activityCounts = await prisma.moduleQuizAttempt.groupBy({
+        by: ["userId"],
+        where: { courseId },
+        _count: { _all: true },
+        orderBy: { _count: { userId: order } },
+        take: limit,
+    });
+
+    const userIds = activityCounts.map(a => a.userId);
     const users = await prisma.user.findMany({
         where: { userId: { in: userIds } },
         select: { userId: true, fullName: true, email: true },
     });
 
     return activityCounts.map(a => {
-        const user = users.find(u => u.userId === a.user_id);
+        const user = users.find(u => u.userId === a.userId);
         return {
             name: user?.fullName,
             email: user?.email,
-            activityCount: Number(a.count),
+            activityCount: a._count._all,
         };
     });
 }
@@ -873,17 +930,16 @@ export async function getLeastActiveLearners(params: {
  * Get activity breakdown by hour of day
  */
 export async function getActivityByTimeOfDay(params: { courseId: string }) {
-    const activity = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT updated_at as "updatedAt"
-        FROM module_progress
-        WHERE course_id::text = ${params.courseId}
-    `);
+    const activity = await prisma.moduleQuizAttempt.findMany({
+        where: { courseId: params.courseId },
+        select: { submittedAt: true },
+    });
 
     const hoursBreakdown: Record<number, number> = {};
     for (let i = 0; i < 24; i++) hoursBreakdown[i] = 0;
 
     activity.forEach(a => {
-        const hour = new Date(a.updatedAt).getHours();
+        const hour = a.submittedAt.getHours();
         hoursBreakdown[hour]++;
     });
 
@@ -894,11 +950,10 @@ export async function getActivityByTimeOfDay(params: { courseId: string }) {
  * Get activity breakdown by day of week
  */
 export async function getActivityByDayOfWeek(params: { courseId: string }) {
-    const activity = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT updated_at as "updatedAt"
-        FROM module_progress
-        WHERE course_id::text = ${params.courseId}
-    `);
+    const activity = await prisma.moduleQuizAttempt.findMany({
+        where: { courseId: params.courseId },
+        select: { submittedAt: true },
+    });
 
     const daysBreakdown: Record<string, number> = {
         "Sunday": 0, "Monday": 0, "Tuesday": 0, "Wednesday": 0,
@@ -907,7 +962,7 @@ export async function getActivityByDayOfWeek(params: { courseId: string }) {
     const daysArr = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
     activity.forEach(a => {
-        const day = daysArr[new Date(a.updatedAt).getDay()];
+        const day = daysArr[a.submittedAt.getDay()];
         daysBreakdown[day]++;
     });
 
@@ -915,63 +970,54 @@ export async function getActivityByDayOfWeek(params: { courseId: string }) {
 }
 
 /**
- * Identify learners at risk of dropping out
+ * High-risk learners whose risk comes from being away or falling behind their peers
  */
 export async function getDropoutRiskLearners(params: { courseId: string }) {
-    const atRisk = await getAtRiskLearners({ ...params, thresholdPercent: 20 });
-    const inactive = await getActiveLearners({ ...params, days: 7 });
-    const activeEmails = new Set(inactive.map(i => i.email));
-
-    return atRisk.filter(l => !activeEmails.has(l.email));
+    const scores = await loadRiskScores(params.courseId, { minLevel: 'high' });
+    if (!scores) return RISK_SCORES_MISSING;
+    return scores.filter(s => hasFactor(s, ['inactivity', 'pace'])).map(formatRiskScore);
 }
 
 /**
- * Learners with < 30% completion
+ * At-risk learners who are active but struggling: failed quizzes, friction, or assistant trouble
  */
 export async function getStrugglingLearners(params: {
     courseId: string;
     cohortId?: string;
 }) {
-    return await getAtRiskLearners({ ...params, thresholdPercent: 30 });
+    const scores = await loadRiskScores(params.courseId, { cohortId: params.cohortId, minLevel: 'medium' });
+    if (!scores) return RISK_SCORES_MISSING;
+    return scores
+        .filter(s => hasFactor(s, ['failed_attempts', 'friction', 'chatbot_struggle']))
+        .map(formatRiskScore);
 }
 
 /**
- * No progress recorded in last N days
+ * No activity recorded in last N days, as of the latest risk scoring
  */
 export async function getStagnantLearners(params: {
     courseId: string;
     days: number;
 }) {
-    return await getInactiveLearners(params);
+    const scores = await loadRiskScores(params.courseId);
+    if (!scores) return RISK_SCORES_MISSING;
+    return scores.filter(s => s.signals.daysInactive >= params.days).map(formatRiskScore);
 }
 
 /**
- * Learners who failed quizzes 3+ times
+ * Learners who failed a module's quiz 3+ times without passing it
  */
 export async function getLearnersNeedingHelp(params: { courseId: string }) {
-    const attempts = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT user_id, module_no, COUNT(*) as count 
-        FROM module_progress 
-        WHERE course_id::text = ${params.courseId} AND quiz_passed = false 
-        GROUP BY user_id, module_no 
-        HAVING COUNT(*) >= 3
-    `);
-
-    const userIds = attempts.map(n => n.user_id);
-    const users = await prisma.user.findMany({
-        where: { userId: { in: userIds } },
-        select: { userId: true, fullName: true, email: true },
-    });
-
-    return attempts.map(n => {
-        const user = users.find(u => u.userId === n.user_id);
-        return {
-            name: user?.fullName,
-            email: user?.email,
-            moduleNo: n.module_no,
-            failedAttempts: Number(n.count),
-        };
-    });
+    const scores = await loadRiskScores(params.courseId);
+    if (!scores) return RISK_SCORES_MISSING;
+
+    return scores
+        .filter(s => (s.signals.mostFailedModule?.failedAttempts ?? 0) >= STUCK_MODULE_ATTEMPTS)
+        .map(s => ({
+            ...formatRiskScore(s),
+            moduleNo: s.signals.mostFailedModule?.moduleNo,
+            failedAttempts: s.signals.mostFailedModule?.failedAttempts,
+        }));
 }
 
 /**
@@ -1035,12 +1081,8 @@ export async function getModuleStatistics(params: {
     moduleNo: number;
 }) {
     const rate = await getModuleCompletionRate(params);
-    const res = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT COUNT(*) as count 
-        FROM module_progress 
-        WHERE course_id::text = ${params.courseId} AND module_no = ${params.moduleNo}
-    `);
-    return { ...rate, totalAttempts: Number(res[0].count) };
+    const totalAttempts = await countQuizAttempts({ courseId: params.courseId, moduleNo: params.moduleNo });
+    return { ...rate, totalAttempts };
 }
 
 /**
@@ -1050,29 +1092,32 @@ export async function getLearnersCompletedModule(params: {
     courseId: string;
     moduleNo: number;
 }) {
-    const completions = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT u.full_name as "fullName", u.email 
-        FROM module_progress mp 
-        JOIN users u ON mp.user_id::uuid = u.user_id 
-        WHERE mp.course_id::text = ${params.courseId} AND mp.module_no = ${params.moduleNo} AND mp.quiz_passed = true
-    `);
-    return completions.map(c => ({ name: c.fullName, email: c.email }));
+    const completions = await prisma.moduleQuizAttempt.findMany({
+        where: { courseId: params.courseId, moduleNo: params.moduleNo, passed: true },
+        distinct: ["userId"],
+        select: { user: { select: { fullName: true, email: true } } },
+    });
+    return completions.map(c => ({ name: c.user.fullName, email: c.user.email }));
 }
 
 /**
- * List all who have failed a module so far
+ * List all who have failed a module and not yet passed it
  */
 export async function getLearnersFailedModule(params: {
     courseId: string;
     moduleNo: number;
 }) {
-    const fails = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT u.full_name as "fullName", u.email 
-        FROM module_progress mp 
-        JOIN users u ON mp.user_id::uuid = u.user_id 
-        WHERE mp.course_id::text = ${params.courseId} AND mp.module_no = ${params.moduleNo} AND mp.quiz_passed = false
-    `);
-    return fails.map(f => ({ name: f.fullName, email: f.email }));
+    const fails = await prisma.moduleQuizAttempt.findMany({
+        where: {
+            courseId: params.courseId,
+            moduleNo: params.moduleNo,
+            passed: false,
+            user: { quizAttempts: { none: { courseId: params.courseId, moduleNo: params.moduleNo, passed: true } } },
+        },
+        distinct: ["userId"],
+        select: { user: { select: { fullName: true, email: true } } },
+    });
+    return fails.map(f => ({ name: f.user.fullName, email: f.user.email }));
 }
 
 /**
@@ -1082,19 +1127,13 @@ export async function getModuleAverageAttempts(params: {
     courseId: string;
     moduleNo: number;
 }) {
-    const resCount = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT COUNT(*) as count 
-        FROM module_progress 
-        WHERE course_id::text = ${params.courseId} AND module_no = ${params.moduleNo}
-    `);
-    const totalAttempts = Number(resCount[0].count);
-
-    const resUsers = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT DISTINCT user_id 
-        FROM module_progress 
-        WHERE course_id::text = ${params.courseId} AND module_no = ${params.moduleNo}
-    `);
-    const uniqueUsersCount = resUsers.length;
+    const attemptsByUser = await prisma.moduleQuizAttempt.groupBy({
+        by: ["userId"],
+        where: { courseId: params.courseId, moduleNo: params.moduleNo },
+        _count: { _all: true },
+    });
+    const totalAttempts = attemptsByUser.reduce((sum, row) => sum + row._count._all, 0);
+    const uniqueUsersCount = attemptsByUser.length;
 
     const avg = uniqueUsersCount > 0 ? (totalAttempts / uniqueUsersCount).toFixed(2) : 0;
     return { moduleNo: params.moduleNo, averageAttempts: avg };
@@ -1127,9 +1166,9 @@ export async function getProgressOverTime(params: {
     const history = await getLearnerActivityHistory({ ...params, days: 365 });
     if ("error" in history) return history;
 
-    return (history as any[])
-        .filter((h: any) => h.quiz_passed)
-        .sort((a: any, b: any) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime());
+    return history
+        .filter(h => h.passed)
+        .sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
 }
 
 /**
@@ -1215,12 +1254,13 @@ export async function getModuleFailureReasons(params: {
         take: 5
     });
 
-    const attempts = await getModuleAttemptHistory(params) as any[];
+    const history = await getModuleAttemptHistory(params);
+    const failedAttempts = "error" in history ? 0 : history.filter(a => !a.passed).length;
 
     return {
-        failedQuizAttempts: attempts.length,
+        failedQuizAttempts: failedAttempts,
         frictionSignals: signals.map(s => s.statusReason),
-        message: attempts.length > 0 ? `The learner failed the quiz ${attempts.length} times.` : "No quiz failures found."
+        message: failedAttempts > 0 ? `The learner failed the quiz ${failedAttempts} times.` : "No quiz failures found."
     };
 }
 
@@ -1233,14 +1273,23 @@ export async function getDropoffPoints(params: {
     return { lastModuleCompleted: progress.completedModules, dropoffModule: progress.completedModules + 1 };
 }
 
+/**
+ * Rank the signals on which a cohort differs most from the rest of the course
+ */
 export async function getCohortPerformanceFactors(params: {
     courseId: string;
     cohortId: string;
+    days?: number;
 }) {
-    const stats = await getCohortStats(params);
+    const analysis = await analyzeCohortPerformanceFactors(params.courseId, params.cohortId, params.days);
+    if (!analysis) {
+        return { error: true, message: 'Cohort not found or does not belong to this course' };
+    }
+
     return {
-        factors: ["High engagement", "Regular activity"],
-        averageCompletion: (stats as any).averageCompletion
+        ...analysis,
+        // Only differences of at least a small effect are worth explaining to a tutor
+        notableFactors: analysis.factors.filter(f => f.magnitude !== null && f.magnitude !== "negligible"),
     };
 }
 
@@ -1519,11 +1568,12 @@ export async function getModuleCompletionRate(params: {
     moduleNo: number;
 }) {
     const total = await getTotalEnrollments(params);
-    const completedCount = await prisma.$queryRaw<any[]>(Prisma.sql`
-        SELECT COUNT(*) as count 
-        FROM module_progress 
-        WHERE course_id::text = ${params.courseId} AND module_no = ${params.moduleNo} AND quiz_passed = true
-    `).then((res) => Number(res[0].count));
+    const completedCount = await prisma.moduleQuizAttempt
+        .groupBy({
+            by: ["userId"],
+            where: { courseId: params.courseId, moduleNo: params.moduleNo, passed: true },
+        })
+        .then((rows) => rows.length);
 
     const rate = total.count > 0 ? Math.floor((completedCount / total.count) * 100) : 0;
     return { moduleNo: params.moduleNo, completedCount, totalEnrollments: total.count, completionRate: rate };
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { classifyEffect, cohensD, compareSignal } from "../src/services/cohortPerformanceService";
+
+describe("cohensD", () => {
+  it("divides the difference in means by the pooled standard deviation", () => {
+    // Means 4 and 2, both groups with a sample variance of 2.5
+    expect(cohensD([2, 3, 4, 5, 6], [0, 1, 2, 3, 4])).toBeCloseTo(2 / Math.sqrt(2.5), 6);
+  });
+
+  it("is negative when the first group sits below the second", () => {
+    expect(cohensD([1, 2, 3], [4, 5, 6])).toBeLessThan(0);
+  });
+
+  it("needs at least two values in each group", () => {
+    expect(cohensD([1], [1, 2, 3])).toBeNull();
+  });
+
+  it("returns 0 for identical constant groups and null when only the means differ", () => {
+    expect(cohensD([3, 3], [3, 3])).toBe(0);
+    expect(cohensD([3, 3], [5, 5])).toBeNull();
+  });
+});
+
+describe("compareSignal", () => {
+  it("marks a cohort lower on a higher-is-better signal as a negative factor", () => {
+    const factor = compareSignal(
+      {
+        key: "quiz.pass_rate",
+        label: "Quiz pass rate",
+        category: "quiz",
+        unit: "percent",
+        higherIsBetter: true,
+        values: new Map([
+          ["c1", 40],
+          ["c2", 50],
+          ["b1", 80],
+          ["b2", 90],
+        ]),
+      },
+      ["c1", "c2"],
+      ["b1", "b2", "missing"],
+    );
+
+    expect(factor.direction).toBe("lower");
+    expect(factor.impact).toBe("negative");
+    expect(factor.magnitude).toBe(classifyEffect(factor.effectSize!));
+    expect(factor.baselineSampleSize).toBe(2);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { computeCadenceFactor, forecastCompletion } from "../src/services/completionForecastService";
+
+const now = new Date("2026-03-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe("forecastCompletion", () => {
+  it("projects the remaining modules at the learner's own pace", () => {
+    const forecast = forecastCompletion({
+      startedAt: daysAgo(30),
+      completionDates: [daysAgo(20), daysAgo(10), now],
+      totalModules: 6,
+      recentActiveDays: 4,
+      baselineActiveDays: 12,
+      now,
+    });
+
+    expect(forecast.status).toBe("forecast");
+    expect(forecast.daysPerModule).toBe(10);
+    expect(forecast.estimatedCompletionDate?.toISOString()).toBe("2026-03-31T00:00:00.000Z");
+    expect(forecast.range?.earliest.getTime()).toBeLessThanOrEqual(forecast.estimatedCompletionDate!.getTime());
+    expect(forecast.range?.latest.getTime()).toBeGreaterThanOrEqual(forecast.estimatedCompletionDate!.getTime());
+  });
+
+  it("flags learners projected to finish after the cohort ends", () => {
+    const forecast = forecastCompletion({
+      startedAt: daysAgo(30),
+      completionDates: [daysAgo(20), daysAgo(10), now],
+      totalModules: 6,
+      recentActiveDays: 4,
+      baselineActiveDays: 12,
+      cohortEndsAt: daysAgo(-14),
+      now,
+    });
+
+    expect(forecast.projectedToMissCohortEnd).toBe(true);
+    expect(forecast.cohortOutlook).toBe("off_track");
+  });
+
+  it("marks learners who finished after the cohort ended as off track", () => {
+    const forecast = forecastCompletion({
+      startedAt: daysAgo(60),
+      completionDates: [daysAgo(40), daysAgo(20)],
+      totalModules: 2,
+      recentActiveDays: 0,
+      baselineActiveDays: 6,
+      cohortEndsAt: daysAgo(30),
+      now,
+    });
+
+    expect(forecast.status).toBe("completed");
+    expect(forecast.projectedToMissCohortEnd).toBe(true);
+    expect(forecast.cohortOutlook).toBe("off_track");
+  });
+
+  it("does not invent a date before the first completion", () => {
+    const forecast = forecastCompletion({
+      startedAt: daysAgo(5),
+      completionDates: [],
+      totalModules: 6,
+      recentActiveDays: 2,
+      baselineActiveDays: 0,
+      now,
+    });
+
+    expect(forecast.status).toBe("not_started");
+    expect(forecast.estimatedCompletionDate).toBeNull();
+  });
+});
+
+describe("computeCadenceFactor", () => {
+  it("slows the pace when recent activity drops below the learner's baseline", () => {
+    expect(computeCadenceFactor(2, 12)).toBe(2);
+    expect(computeCadenceFactor(0, 12)).toBe(3);
+    expect(computeCadenceFactor(5, 0)).toBe(1);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// Stands in for the rows the course database would return, so the answer paths run without Postgres
+const { fakePrisma } = vi.hoisted(() => ({
+  fakePrisma: {
+    $queryRaw: async () => [
+      {
+        chunk_id: "chunk-1",
+        content: "A for loop repeats its body once for every item in a sequence.",
+        score: 0.82,
+        source_document: "week-2.pdf",
+        source_page: 4,
+        topic_id: "topic-loops",
+        module_no: 2,
+      },
+    ],
+    topic: { findMany: async () => [{ topicId: "topic-loops", topicName: "Loops" }] },
+    cohort: { findMany: async () => [] },
+    enrollment: { count: async () => 12 },
+    llmUsageEvent: { create: async () => ({}) },
+  },
+}));
+
+vi.mock("../src/services/prisma", () => ({ prisma: fakePrisma }));
+
+import { setLlmProvider } from "../src/rag/llmProvider";
+import { classifyLearnerPersona, generateTutorCopilotAnswer } from "../src/rag/openAiClient";
+import { createFakeLlmProvider, FAKE_EMBEDDING_DIMENSIONS, hashEmbedding } from "../src/rag/providers/fakeLlmProvider";
+import { askCourseAssistant } from "../src/rag/ragService";
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe("fake LLM provider", () => {
+  afterEach(() => setLlmProvider(null));
+
+  it("embeds text deterministically with related texts closer together", () => {
+    const first = hashEmbedding("loops and arrays in python");
+
+    expect(first).toHaveLength(FAKE_EMBEDDING_DIMENSIONS);
+    expect(hashEmbedding("loops and arrays in python")).toEqual(first);
+    expect(cosine(first, hashEmbedding("python arrays"))).toBeGreaterThan(cosine(first, hashEmbedding("cooking recipes")));
+  });
+
+  it("calls scripted tools once, then answers after the results come back", async () => {
+    const provider = createFakeLlmProvider({
+      rules: [{ when: "bottom 3", toolCalls: [{ name: "get_top_learners", arguments: { limit: 3 } }], reply: "Three learners are behind." }],
+    });
+    const tools = [{ name: "get_top_learners", description: "Top learners", parameters: { type: "object" } }];
+
+    const first = await provider.chat({ messages: [{ role: "user", content: "Who are the bottom 3?" }], tools });
+    expect(first.toolCalls).toEqual([{ id: expect.any(String), name: "get_top_learners", arguments: '{"limit":3}' }]);
+
+    const second = await provider.chat({
+      messages: [
+        { role: "user", content: "Who are the bottom 3?" },
+        { role: "assistant", content: null, toolCalls: first.toolCalls },
+        { role: "tool", toolCallId: first.toolCalls[0].id, content: "[]" },
+      ],
+      tools,
+    });
+    expect(second).toMatchObject({ content: "Three learners are behind.", toolCalls: [] });
+  });
+
+  it("drives the persona classifier end to end", async () => {
+    setLlmProvider(
+      createFakeLlmProvider({
+        rules: [{ reply: '{"personaKey": "pseudo_coder", "reasoning": "Copies code without reading it."}' }],
+      }),
+    );
+
+    const result = await classifyLearnerPersona({ responses: [{ question: "How do you debug?", answer: "I paste the error into Google." }] });
+
+    expect(result.personaKey).toBe("pseudo_coder");
+  });
+
+  it("drives the tutor copilot through a tool call to its answer", async () => {
+    setLlmProvider(
+      createFakeLlmProvider({
+        rules: [{ when: "how many", toolCalls: [{ name: "get_total_enrollments" }], reply: "12 learners are enrolled." }],
+      }),
+    );
+
+    const result = await generateTutorCopilotAnswer({
+      question: "How many learners are enrolled?",
+      userId: "user-1",
+      courseId: "course-1",
+    });
+
+    expect(result.answer).toBe("12 learners are enrolled.");
+    expect(result.trace).toEqual([expect.objectContaining({ name: "get_total_enrollments", status: "ok" })]);
+    expect(result.usage).toMatchObject({ iterations: 2, toolCalls: 1 });
+  });
+
+  it("answers a learner question from retrieved course material with citations", async () => {
+    setLlmProvider(
+      createFakeLlmProvider({ rules: [{ when: "for loop", reply: "It runs the body once per item [1]." }] }),
+    );
+
+    const result = await askCourseAssistant({
+      courseId: "course-1",
+      question: "What does a for loop do?",
+      userId: "user-1",
+    });
+
+    expect(result.answer).toBe("It runs the body once per item [1].");
+    expect(result.citations).toEqual([
+      expect.objectContaining({ index: 1, chunkId: "chunk-1", topicName: "Loops", sourcePage: 4 }),
+    ]);
+    expect(result.contexts.map((context) => context.chunkId)).toEqual(["chunk-1"]);
+  });
+});
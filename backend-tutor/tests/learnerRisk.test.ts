@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { riskLevelFor, scoreLearnerRisk, type RiskSignals } from "../src/services/learnerRiskService";
+
+const onTrack: RiskSignals = {
+  daysInactive: 1,
+  completionPercent: 50,
+  peerCompletionPercent: 50,
+  failedAttemptsOnOpenModules: 0,
+  mostFailedModule: null,
+  frictionEvents: 0,
+  thumbsDownAnswers: 0,
+  tutorHandoffs: 0,
+};
+
+const pointsFor = (signals: RiskSignals, key: string) =>
+  scoreLearnerRisk(signals).factors.find((factor) => factor.key === key)?.points;
+
+describe("scoreLearnerRisk", () => {
+  it("gives an active learner keeping pace with peers no risk", () => {
+    const risk = scoreLearnerRisk(onTrack);
+
+    expect(risk.score).toBe(0);
+    expect(risk.level).toBe("low");
+    expect(risk.factors).toHaveLength(5);
+  });
+
+  it("reaches high risk when an absent learner who fell behind is also failing quizzes", () => {
+    const risk = scoreLearnerRisk({ ...onTrack, daysInactive: 30, completionPercent: 0, peerCompletionPercent: 60 });
+
+    expect(risk.score).toBe(50);
+    expect(risk.level).toBe("medium");
+    expect(risk.factors[0]).toMatchObject({ key: "inactivity", points: 30, detail: "No activity for 30 days" });
+
+    const withFailures = scoreLearnerRisk({
+      ...onTrack,
+      daysInactive: 30,
+      completionPercent: 0,
+      peerCompletionPercent: 60,
+      failedAttemptsOnOpenModules: 3,
+      mostFailedModule: { moduleNo: 2, failedAttempts: 3 },
+    });
+    expect(withFailures.level).toBe("high");
+  });
+
+  it("adds extra weight once a module has been failed three times", () => {
+    expect(pointsFor({ ...onTrack, failedAttemptsOnOpenModules: 2, mostFailedModule: { moduleNo: 1, failedAttempts: 2 } }, "failed_attempts")).toBe(12);
+    expect(pointsFor({ ...onTrack, failedAttemptsOnOpenModules: 3, mostFailedModule: { moduleNo: 1, failedAttempts: 3 } }, "failed_attempts")).toBe(23);
+  });
+
+  it("caps each factor at its maximum", () => {
+    const risk = scoreLearnerRisk({ ...onTrack, frictionEvents: 40, thumbsDownAnswers: 10, tutorHandoffs: 4 });
+
+    expect(risk.factors.find((factor) => factor.key === "friction")?.points).toBe(15);
+    expect(risk.factors.find((factor) => factor.key === "chatbot_struggle")?.points).toBe(10);
+    expect(risk.score).toBe(25);
+  });
+
+  it("does not penalise a learner who finished the course for being quiet", () => {
+    const risk = scoreLearnerRisk({ ...onTrack, daysInactive: 60, completionPercent: 100, peerCompletionPercent: 40 });
+
+    expect(risk.score).toBe(0);
+  });
+});
+
+describe("riskLevelFor", () => {
+  it("maps scores onto levels", () => {
+    expect(riskLevelFor(29)).toBe("low");
+    expect(riskLevelFor(30)).toBe("medium");
+    expect(riskLevelFor(60)).toBe("high");
+  });
+});
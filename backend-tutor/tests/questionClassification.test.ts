@@ -0,0 +1,152 @@
+import type { Prisma } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Answers the classifier's raw queries from an in-memory list of the topic's suggested prompts
+const { fakePrisma, suggestions, budget } = vi.hoisted(() => {
+  const suggestions: Array<{ suggestion_id: string; prompt_text: string }> = [];
+  const budget: { limit: { monthlyLimitUsd: number; softLimitPercent: number; hardLimitPercent: number } | null } = {
+    limit: null,
+  };
+  return {
+    suggestions,
+    budget,
+    fakePrisma: {
+      $queryRaw: vi.fn(),
+      $executeRaw: async () => 1,
+      courseLlmBudget: { findUnique: async () => budget.limit },
+      llmUsageEvent: {
+        aggregate: async () => ({ _sum: { estimatedCostUsd: null } }),
+        create: async () => ({}),
+      },
+      ragChatMessage: { findUnique: vi.fn(), update: vi.fn(async () => ({})) },
+    },
+  };
+});
+
+vi.mock("../src/services/prisma", () => ({ prisma: fakePrisma }));
+
+import { setLlmProvider } from "../src/rag/llmProvider";
+import { createFakeLlmProvider, hashEmbedding } from "../src/rag/providers/fakeLlmProvider";
+import { classifyChatMessage, classifyQuestion } from "../src/services/questionClassificationService";
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+const answerQuery = async (query: Prisma.Sql) => {
+  const sql = query.sql;
+  if (sql.includes("regexp_replace")) {
+    const question = query.values.at(-1);
+    return suggestions.filter((row) => normalize(row.prompt_text) === question).slice(0, 1);
+  }
+  if (sql.includes("prompt_embedding IS NULL")) {
+    return suggestions;
+  }
+  if (sql.includes("AS found")) {
+    return suggestions.length > 0 ? [{ found: 1 }] : [];
+  }
+  if (sql.includes("ORDER BY prompt_embedding")) {
+    const vector = JSON.parse(query.values.find((value) => typeof value === "string" && value.startsWith("[")) as string);
+    return suggestions
+      .map((row) => ({ suggestion_id: row.suggestion_id, score: cosine(vector, hashEmbedding(row.prompt_text)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 1);
+  }
+  return suggestions;
+};
+
+const topic = { courseId: "course-1", topicId: "topic-loops" };
+
+describe("classifyQuestion", () => {
+  let provider = createFakeLlmProvider();
+
+  beforeEach(() => {
+    provider = createFakeLlmProvider();
+    suggestions.splice(0, suggestions.length, {
+      suggestion_id: "suggestion-loop",
+      prompt_text: "What is a for loop in Python",
+    });
+    budget.limit = null;
+    fakePrisma.$queryRaw.mockImplementation(answerQuery);
+    setLlmProvider(provider);
+  });
+  afterEach(() => setLlmProvider(null));
+
+  it("matches a clicked suggestion verbatim without calling the model", async () => {
+    const embed = vi.spyOn(provider, "embed");
+
+    const result = await classifyQuestion({ ...topic, question: "  what is a FOR loop   in python " });
+
+    expect(result).toEqual({ isPredefined: true, matchedSuggestionId: "suggestion-loop", matchScore: 1 });
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it("matches by embedding similarity and leaves unrelated questions custom", async () => {
+    const paraphrase = await classifyQuestion({ ...topic, question: "What is a for loop in Python?" });
+    expect(paraphrase.isPredefined).toBe(true);
+    expect(paraphrase.matchedSuggestionId).toBe("suggestion-loop");
+
+    const unrelated = await classifyQuestion({ ...topic, question: "How do I install the course software?" });
+    expect(unrelated.isPredefined).toBe(false);
+    expect(unrelated.matchedSuggestionId).toBeNull();
+    expect(unrelated.matchScore).toBeLessThan(0.85);
+  });
+
+  it("falls back to text similarity once the course is over budget", async () => {
+    budget.limit = { monthlyLimitUsd: 0, softLimitPercent: 80, hardLimitPercent: 100 };
+    const embed = vi.spyOn(provider, "embed");
+
+    const result = await classifyQuestion({ ...topic, question: "What is a for-loop in Python?" });
+
+    expect(result.isPredefined).toBe(true);
+    expect(result.matchedSuggestionId).toBe("suggestion-loop");
+    expect(result.matchScore).toBeGreaterThanOrEqual(0.7);
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it("reports no match score when the topic has no suggestions", async () => {
+    suggestions.splice(0, suggestions.length);
+    const expected = { isPredefined: false, matchedSuggestionId: null, matchScore: null };
+
+    expect(await classifyQuestion({ ...topic, question: "What is a for loop in Python?" })).toEqual(expected);
+
+    budget.limit = { monthlyLimitUsd: 0, softLimitPercent: 80, hardLimitPercent: 100 };
+    expect(await classifyQuestion({ ...topic, question: "What is a for loop in Python?" })).toEqual(expected);
+  });
+});
+
+describe("classifyChatMessage", () => {
+  beforeEach(() => {
+    suggestions.splice(0, suggestions.length, {
+      suggestion_id: "suggestion-loop",
+      prompt_text: "What is a for loop in Python",
+    });
+    budget.limit = null;
+    fakePrisma.$queryRaw.mockImplementation(answerQuery);
+    fakePrisma.ragChatMessage.update.mockClear();
+    setLlmProvider(createFakeLlmProvider());
+  });
+  afterEach(() => setLlmProvider(null));
+
+  it("writes the classification onto a learner question", async () => {
+    fakePrisma.ragChatMessage.findUnique.mockResolvedValue({
+      role: "user",
+      content: "What is a for loop in Python",
+      session: topic,
+    });
+
+    await classifyChatMessage("message-1");
+
+    expect(fakePrisma.ragChatMessage.update).toHaveBeenCalledWith({
+      where: { messageId: "message-1" },
+      data: { isPredefined: true, matchedSuggestionId: "suggestion-loop", matchScore: 1 },
+    });
+  });
+
+  it("leaves assistant answers alone", async () => {
+    fakePrisma.ragChatMessage.findUnique.mockResolvedValue({ role: "assistant", content: "A loop repeats.", session: topic });
+
+    await classifyChatMessage("message-2");
+
+    expect(fakePrisma.ragChatMessage.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { QUIZ_PASS_THRESHOLD_PERCENT, scoreQuizAgainstKey, scoreQuizAnswers } from "../src/services/moduleQuizAttemptService";
+
+const answer = (questionId: string, isCorrect: boolean) => ({ questionId, selectedOptionId: "a", isCorrect });
+
+describe("scoreQuizAnswers", () => {
+  it("scores the share of correct answers as a rounded percentage", () => {
+    const result = scoreQuizAnswers([answer("q1", true), answer("q2", true), answer("q3", false)]);
+
+    expect(result).toEqual({ score: 67, passed: false });
+  });
+
+  it("passes attempts that reach the threshold", () => {
+    const answers = Array.from({ length: 10 }, (_, index) => answer(`q${index}`, index < 7));
+
+    expect(scoreQuizAnswers(answers)).toEqual({ score: QUIZ_PASS_THRESHOLD_PERCENT, passed: true });
+  });
+});
+
+describe("scoreQuizAgainstKey", () => {
+  const answerKey = new Map([
+    ["q1", "a"],
+    ["q2", "b"],
+    ["q3", "c"],
+    ["q4", "d"],
+  ]);
+
+  it("ignores the client's correctness claims", () => {
+    const claimed = ["q1", "q2", "q3", "q4"].map((questionId) => answer(questionId, true));
+
+    const result = scoreQuizAgainstKey(claimed, answerKey);
+
+    expect(result.score).toBe(25);
+    expect(result.passed).toBe(false);
+    expect(result.answers.map((graded) => graded.isCorrect)).toEqual([true, false, false, false]);
+  });
+
+  it("counts keyed questions missing from the submission as wrong", () => {
+    const result = scoreQuizAgainstKey([answer("q1", true), answer("extra", true)], answerKey);
+
+    expect(result).toEqual({ answers: [answer("q1", true)], score: 25, passed: false });
+  });
+});
@@ -0,0 +1,112 @@
+import jwt from "jsonwebtoken";
+import request from "supertest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { fakePrisma } = vi.hoisted(() => ({
+  fakePrisma: {
+    $queryRaw: async () => [{ hits: 1 }],
+    rateLimitBucket: { deleteMany: async () => ({ count: 0 }) },
+    tutor: { findUnique: async () => ({ tutorId: "tutor-1" }) },
+    courseTutor: { findFirst: async () => ({ courseTutorId: "assignment-1" }) },
+    courseLlmBudget: { findUnique: async () => null },
+    llmUsageEvent: {
+      aggregate: async () => ({ _sum: { estimatedCostUsd: null } }),
+      create: async () => ({}),
+    },
+    cohort: { findMany: async () => [] },
+    enrollment: { count: async () => 12 },
+  },
+}));
+
+vi.mock("../src/services/prisma", () => ({ prisma: fakePrisma }));
+vi.mock("../src/services/tutorCopilotConversationService", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/services/tutorCopilotConversationService")>()),
+  createCopilotConversation: vi.fn(async () => ({ conversationId: "conversation-1" })),
+  appendCopilotTurn: vi.fn(async () => undefined),
+  rollCopilotSummary: vi.fn(async () => undefined),
+}));
+
+import { createApp } from "../src/app";
+import { env } from "../src/config/env";
+import { getLlmProvider, setLlmProvider } from "../src/rag/llmProvider";
+import { generateTutorCopilotAnswer } from "../src/rag/openAiClient";
+import { createFakeLlmProvider } from "../src/rag/providers/fakeLlmProvider";
+
+const tutorToken = () =>
+  jwt.sign({ sub: "user-1", sid: "session-1", jti: "token-1", role: "tutor" }, env.jwtSecret, { expiresIn: 300 });
+
+// Splits a text/event-stream body into its events
+const parseEvents = (body: string) =>
+  body
+    .split("\n\n")
+    .filter((block) => block.startsWith("event: "))
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return { event: eventLine.slice("event: ".length), data: JSON.parse(dataLine.slice("data: ".length)) };
+    });
+
+describe("POST /tutors/assistant/query/stream", () => {
+  beforeEach(() => {
+    const provider = createFakeLlmProvider({
+      rules: [{ when: "how many", toolCalls: [{ name: "get_total_enrollments" }], reply: "12 learners are enrolled." }],
+    });
+    // A model takes a while to answer; the stream has to stay open well after the request body was read
+    setLlmProvider({
+      ...provider,
+      chat: async (chatRequest) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return provider.chat(chatRequest);
+      },
+    });
+  });
+  afterEach(() => setLlmProvider(null));
+
+  it("streams tool progress and answer tokens, then the done event", async () => {
+    const response = await request(createApp())
+      .post("/tutors/assistant/query/stream")
+      .set("Authorization", `Bearer ${tutorToken()}`)
+      .send({ courseId: "course-1", question: "How many learners are enrolled?" })
+      .buffer(true)
+      .parse((res, callback) => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          body += chunk;
+        });
+        res.on("end", () => callback(null, body));
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toContain("text/event-stream");
+
+    const events = parseEvents(response.body as string);
+    expect(events.map((event) => event.event)).toContain("tool_call");
+    expect(events.find((event) => event.event === "tool_result")?.data.step).toMatchObject({
+      name: "get_total_enrollments",
+      status: "ok",
+    });
+    expect(events.filter((event) => event.event === "token").map((event) => event.data.delta).join("")).toBe(
+      "12 learners are enrolled.",
+    );
+
+    const done = events.at(-1);
+    expect(done?.event).toBe("done");
+    expect(done?.data).toMatchObject({ answer: "12 learners are enrolled.", conversationId: "conversation-1" });
+  });
+
+  it("stops the tool loop once the tutor has disconnected", async () => {
+    const chat = vi.spyOn(getLlmProvider(), "chat");
+    const disconnect = new AbortController();
+    disconnect.abort();
+
+    await expect(
+      generateTutorCopilotAnswer({
+        question: "How many learners are enrolled?",
+        userId: "user-1",
+        courseId: "course-1",
+        signal: disconnect.signal,
+      }),
+    ).rejects.toThrow();
+    expect(chat).not.toHaveBeenCalled();
+  });
+});
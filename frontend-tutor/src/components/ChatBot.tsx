@@ -3,24 +3,84 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { MessageCircle, Send, X, Bot, User, Loader2 } from "lucide-react";
+import { MessageCircle, Send, X, Bot, User, Loader2, FileText, ThumbsUp, ThumbsDown, GraduationCap } from "lucide-react";
 import { buildApiUrl } from "@/lib/api";
-import { apiRequest } from "@/lib/queryClient";
 import { ensureSessionFresh, logoutAndRedirect, subscribeToSession } from "@/utils/session";
 import type { StoredSession } from "@/types/session";
 
+interface Citation {
+  // Matches the [n] marker in the answer text
+  index: number;
+  chunkId: string;
+  snippet: string;
+  sourceDocument: string | null;
+  sourcePage: number | null;
+  topicId: string | null;
+  topicName: string | null;
+  moduleNo: number | null;
+}
+
 interface Message {
   id: string;
   text: string;
   isBot: boolean;
+  // Set on replies a tutor wrote into the conversation after a handoff
+  tutorName?: string | null;
   timestamp: Date;
+  citations?: Citation[];
+  // Stored assistant answer id; only answers that have one can be rated
+  messageId?: string;
+  rating?: AnswerRating;
+}
+
+type AnswerRating = "up" | "down";
+
+interface Handoff {
+  handoffId: string;
+  status: "open" | "resolved";
 }
 
+interface TranscriptMessage {
+  messageId: string;
+  role: "user" | "assistant" | "tutor";
+  content: string;
+  citations: Citation[] | null;
+  authorName: string | null;
+  createdAt: string;
+}
+
+// How often an open handoff is checked for tutor replies while the chat is open
+const HANDOFF_POLL_MS = 20000;
+
+const toMessage = (message: TranscriptMessage): Message => ({
+  id: message.messageId,
+  text: message.content,
+  isBot: message.role !== "user",
+  timestamp: new Date(message.createdAt),
+  citations: Array.isArray(message.citations) ? message.citations : undefined,
+  messageId: message.role === "assistant" ? message.messageId : undefined,
+  tutorName: message.role === "tutor" ? message.authorName ?? "Tutor" : undefined,
+});
+
 interface ChatBotProps {
   courseName?: string;
   courseId?: string;
+  topicId?: string;
+  // Supplied by the course player so a citation can jump to the lesson it came from
+  onOpenTopic?: (topicId: string) => void;
 }
 
+const describeCitation = (citation: Citation) =>
+  [
+    citation.moduleNo !== null ? `Module ${citation.moduleNo}` : null,
+    citation.topicName,
+    citation.sourcePage !== null ? `p. ${citation.sourcePage}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ") || citation.sourceDocument || "Course material";
+
+const THUMBS_DOWN_REASONS = ["Incorrect", "Not in the course material", "Unclear", "Didn't answer my question"];
+
 const createIntroMessage = (courseName?: string): Message => ({
   id: "assistant-intro",
   text: `Hi! I'm your AI learning assistant for ${courseName ?? "this course"}. Ask anything about the lessons and I'll answer based on the official course material.`,
@@ -28,12 +88,17 @@ const createIntroMessage = (courseName?: string): Message => ({
   timestamp: new Date(),
 });
 
-export default function ChatBot({ courseName, courseId }: ChatBotProps) {
+export default function ChatBot({ courseName, courseId, topicId, onOpenTopic }: ChatBotProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>(() => [createIntroMessage(courseName)]);
   const [inputValue, setInputValue] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [session, setSession] = useState<StoredSession | null>(null);
+  // Bot message awaiting an optional reason after a thumbs-down
+  const [reasonFor, setReasonFor] = useState<string | null>(null);
+  const [handoff, setHandoff] = useState<Handoff | null>(null);
+  // The next message asks a tutor to take over instead of going to the assistant
+  const [isEscalating, setIsEscalating] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
   const isAuthenticated = Boolean(session?.accessToken);
@@ -45,6 +110,36 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
     return () => unsubscribe();
   }, []);
 
+  const isWithTutor = handoff?.status === "open";
+
+  // Load the stored conversation, tutor replies included, and keep checking while a tutor has it
+  useEffect(() => {
+    if (!isOpen || !courseId || !topicId || !session?.accessToken) {
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const conversation = await fetchConversation({ courseId, topicId, accessToken: session.accessToken });
+        if (cancelled) {
+          return;
+        }
+        setHandoff(conversation.handoff);
+        if (conversation.messages.length > 0) {
+          setMessages([createIntroMessage(courseName), ...conversation.messages.map(toMessage)]);
+        }
+      } catch (error) {
+        console.error("Failed to load assistant conversation", error);
+      }
+    };
+    void load();
+    const timer = isWithTutor ? window.setInterval(() => void load(), HANDOFF_POLL_MS) : undefined;
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [isOpen, courseId, topicId, courseName, session?.accessToken, isWithTutor]);
+
   // Auto scroll to bottom when new messages arrive
   useEffect(() => {
     const scrollContainer = scrollAreaRef.current?.querySelector("[data-radix-scroll-area-viewport]");
@@ -54,14 +149,14 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
   }, [messages, isTyping]);
 
   const disabledReason = useMemo(() => {
-    if (!courseId) {
+    if (!courseId || !topicId) {
       return "The assistant needs a course context to answer questions.";
     }
     if (!isAuthenticated) {
       return "Sign in to chat with the course assistant.";
     }
     return null;
-  }, [courseId, isAuthenticated]);
+  }, [courseId, topicId, isAuthenticated]);
 
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isTyping) {
@@ -90,19 +185,23 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
         setSession(freshSession);
       }
 
-      const answer = await requestAssistantAnswer({
+      // While a tutor has the conversation, messages go to them rather than the assistant
+      if (isWithTutor && handoff) {
+        await sendHandoffMessage({ handoffId: handoff.handoffId, content: question, accessToken: freshSession.accessToken });
+        return;
+      }
+      if (isEscalating) {
+        setHandoff(await requestHandoff({ courseId, topicId, message: question, accessToken: freshSession.accessToken }));
+        setIsEscalating(false);
+        return;
+      }
+
+      const { answer, citations, messageId } = await requestAssistantAnswer({
         courseId,
+        topicId,
         courseName,
         question,
         accessToken: freshSession.accessToken,
-        // Send up to 10 previous messages for context
-        history: messages
-          .filter(m => m.id !== "assistant-intro") // Don't send the intro
-          .slice(-10) // Limit context window
-          .map(m => ({
-            role: m.isBot ? "assistant" : "user" as const,
-            content: m.text
-          })),
       });
 
       const botResponse: Message = {
@@ -110,6 +209,8 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
         text: answer,
         isBot: true,
         timestamp: new Date(),
+        citations,
+        messageId,
       };
       setMessages((prev) => [...prev, botResponse]);
     } catch (error) {
@@ -128,6 +229,31 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
     }
   };
 
+  const handleRate = async (message: Message, rating: AnswerRating, reason?: string) => {
+    if (!message.messageId) {
+      return;
+    }
+    setReasonFor(null);
+    const previous = message.rating;
+    setMessages((prev) => prev.map((item) => (item.id === message.id ? { ...item, rating } : item)));
+
+    try {
+      const freshSession = await ensureSessionFresh(session);
+      if (!freshSession?.accessToken) {
+        throw new Error("Please sign in to rate answers.");
+      }
+      await sendAnswerFeedback({
+        messageId: message.messageId,
+        rating,
+        reason,
+        accessToken: freshSession.accessToken,
+      });
+    } catch (error) {
+      console.error("Failed to save answer feedback", error);
+      setMessages((prev) => prev.map((item) => (item.id === message.id ? { ...item, rating: previous } : item)));
+    }
+  };
+
   const handleKeyPress = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key === "Enter" && !event.shiftKey) {
       event.preventDefault();
@@ -172,16 +298,92 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
                   {messages.map((message) => (
                     <div key={message.id} className={`flex ${message.isBot ? "justify-start" : "justify-end"}`}>
                       <div
-                        className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm shadow-md ${message.isBot
-                          ? "bg-muted text-foreground"
-                          : "bg-gradient-to-r from-blue-500 to-purple-600 text-white"
+                        className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm shadow-md ${message.tutorName
+                          ? "bg-amber-50 text-foreground border border-amber-200"
+                          : message.isBot
+                            ? "bg-muted text-foreground"
+                            : "bg-gradient-to-r from-blue-500 to-purple-600 text-white"
                           }`}
                       >
                         <div className="flex items-center gap-2 mb-1 text-xs opacity-80">
-                          {message.isBot ? <Bot className="h-3 w-3" /> : <User className="h-3 w-3" />}
+                          {message.tutorName ? (
+                            <>
+                              <GraduationCap className="h-3 w-3 text-amber-700" />
+                              <span className="font-semibold text-amber-800">{message.tutorName} · Tutor</span>
+                            </>
+                          ) : message.isBot ? (
+                            <Bot className="h-3 w-3" />
+                          ) : (
+                            <User className="h-3 w-3" />
+                          )}
                           <span>{message.timestamp.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</span>
                         </div>
                         <p className="whitespace-pre-line leading-relaxed">{message.text}</p>
+                        {message.citations && message.citations.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-border/60 space-y-1">
+                            <p className="text-[10px] font-semibold uppercase tracking-wide opacity-70">Sources</p>
+                            {message.citations.map((citation) => {
+                              const canOpen = Boolean(onOpenTopic && citation.topicId);
+                              return (
+                                <button
+                                  key={citation.chunkId}
+                                  type="button"
+                                  disabled={!canOpen}
+                                  onClick={() => citation.topicId && onOpenTopic?.(citation.topicId)}
+                                  title={citation.snippet}
+                                  className={`flex w-full items-start gap-1.5 text-left text-xs ${canOpen ? "text-blue-600 hover:underline" : "cursor-default opacity-80"}`}
+                                >
+                                  <FileText className="h-3 w-3 mt-0.5 shrink-0" />
+                                  <span>
+                                    [{citation.index}] {describeCitation(citation)}
+                                  </span>
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
+                        {message.messageId && (
+                          <div className="mt-2 flex items-center gap-1 text-xs opacity-80">
+                            <span className="mr-1">Helpful?</span>
+                            <button
+                              type="button"
+                              aria-label="Helpful answer"
+                              onClick={() => void handleRate(message, "up")}
+                              className={`rounded p-1 hover:bg-background/60 ${message.rating === "up" ? "text-green-600" : ""}`}
+                            >
+                              <ThumbsUp className="h-3 w-3" />
+                            </button>
+                            <button
+                              type="button"
+                              aria-label="Unhelpful answer"
+                              onClick={() => setReasonFor(reasonFor === message.id ? null : message.id)}
+                              className={`rounded p-1 hover:bg-background/60 ${message.rating === "down" ? "text-red-600" : ""}`}
+                            >
+                              <ThumbsDown className="h-3 w-3" />
+                            </button>
+                          </div>
+                        )}
+                        {reasonFor === message.id && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {THUMBS_DOWN_REASONS.map((reason) => (
+                              <button
+                                key={reason}
+                                type="button"
+                                onClick={() => void handleRate(message, "down", reason)}
+                                className="rounded-full border border-border bg-background px-2 py-0.5 text-[11px] hover:bg-muted"
+                              >
+                                {reason}
+                              </button>
+                            ))}
+                            <button
+                              type="button"
+                              onClick={() => void handleRate(message, "down")}
+                              className="rounded-full px-2 py-0.5 text-[11px] underline opacity-70"
+                            >
+                              Skip
+                            </button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -190,7 +392,7 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
                     <div className="flex justify-start">
                       <div className="max-w-[80%] rounded-2xl px-4 py-3 text-sm bg-muted text-foreground shadow-md flex items-center gap-2">
                         <Loader2 className="h-4 w-4 animate-spin" />
-                        <span>The assistant is thinking...</span>
+                        <span>{isWithTutor || isEscalating ? "Sending to your tutor..." : "The assistant is thinking..."}</span>
                       </div>
                     </div>
                   )}
@@ -201,12 +403,33 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
                 {disabledReason && (
                   <p className="text-xs text-muted-foreground flex-1 text-center">{disabledReason}</p>
                 )}
+                {!disabledReason && isWithTutor && (
+                  <p className="text-xs text-amber-800 text-center">
+                    A tutor has this conversation. Your messages go to them until they close it.
+                  </p>
+                )}
+                {!disabledReason && !isWithTutor && (
+                  <button
+                    type="button"
+                    onClick={() => setIsEscalating((value) => !value)}
+                    className="flex w-full items-center justify-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    <GraduationCap className="h-3 w-3" />
+                    {isEscalating ? "Cancel, keep asking the assistant" : "Still stuck? Ask a tutor"}
+                  </button>
+                )}
                 <div className="flex items-center gap-2">
                   <Input
                     value={inputValue}
                     onChange={(event) => setInputValue(event.target.value)}
                     onKeyDown={handleKeyPress}
-                    placeholder="Ask me anything about this course..."
+                    placeholder={
+                      isWithTutor
+                        ? "Reply to your tutor..."
+                        : isEscalating
+                          ? "Tell your tutor what you're stuck on..."
+                          : "Ask me anything about this course..."
+                    }
                     className="flex-1"
                     disabled={Boolean(disabledReason) || isTyping}
                   />
@@ -230,22 +453,29 @@ export default function ChatBot({ courseName, courseId }: ChatBotProps) {
 
 async function requestAssistantAnswer(params: {
   courseId?: string;
+  topicId?: string;
   courseName?: string;
   question: string;
   accessToken: string;
-  history?: Array<{ role: "user" | "assistant"; content: string }>;
-}): Promise<string> {
-  if (!params.courseId) {
-    throw new Error("I need to know which course you're viewing before I can help.");
+}): Promise<{ answer: string; citations: Citation[]; messageId?: string }> {
+  if (!params.courseId || !params.topicId) {
+    throw new Error("I need to know which lesson you're viewing before I can help.");
   }
 
-  const response = await apiRequest("POST", "/api/assistant/query", {
-    question: params.question,
-    courseId: params.courseId,
-    courseTitle: params.courseName,
-    history: params.history,
-  }, {
-    headers: { Authorization: `Bearer ${params.accessToken}` },
+  // Conversation history lives server-side in the per-topic chat session
+  const response = await fetch(buildApiUrl("/api/assistant/query"), {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${params.accessToken}`,
+    },
+    body: JSON.stringify({
+      question: params.question,
+      courseId: params.courseId,
+      topicId: params.topicId,
+      courseTitle: params.courseName,
+    }),
   });
 
   if (response.status === 401) {
@@ -259,7 +489,10 @@ async function requestAssistantAnswer(params: {
   }
 
   if (response.status === 429) {
-    throw new Error("You are asking very quickly. Please wait a moment before trying again.");
+    const payload = await response.json().catch(() => null);
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    const message = payload?.message ?? "You are asking very quickly. Please wait a moment before trying again.";
+    throw new Error(retryAfter > 0 ? `${message} You can ask again in ${retryAfter}s.` : message);
   }
 
   const payload = await response.json().catch(() => null);
@@ -271,5 +504,100 @@ async function requestAssistantAnswer(params: {
     throw new Error("I couldn't find an answer in the course material. Try rephrasing your question.");
   }
 
-  return payload.answer as string;
+  return {
+    answer: payload.answer as string,
+    citations: Array.isArray(payload.citations) ? (payload.citations as Citation[]) : [],
+    messageId: typeof payload.messageId === "string" ? payload.messageId : undefined,
+  };
+}
+
+async function sendAnswerFeedback(params: {
+  messageId: string;
+  rating: AnswerRating;
+  reason?: string;
+  accessToken: string;
+}): Promise<void> {
+  const response = await fetch(buildApiUrl(`/api/assistant/messages/${params.messageId}/feedback`), {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${params.accessToken}`,
+    },
+    body: JSON.stringify({ rating: params.rating, reason: params.reason }),
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.message ?? "Could not save your feedback.");
+  }
+}
+
+async function fetchConversation(params: {
+  courseId: string;
+  topicId: string;
+  accessToken: string;
+}): Promise<{ handoff: Handoff | null; messages: TranscriptMessage[] }> {
+  const query = new URLSearchParams({ courseId: params.courseId, topicId: params.topicId });
+  const response = await fetch(buildApiUrl(`/api/assistant/conversation?${query.toString()}`), {
+    credentials: "include",
+    headers: { Authorization: `Bearer ${params.accessToken}` },
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.message ?? "Could not load the conversation.");
+  }
+  return {
+    handoff: payload?.handoff ?? null,
+    messages: Array.isArray(payload?.messages) ? (payload.messages as TranscriptMessage[]) : [],
+  };
+}
+
+async function requestHandoff(params: {
+  courseId?: string;
+  topicId?: string;
+  message: string;
+  accessToken: string;
+}): Promise<Handoff> {
+  if (!params.courseId || !params.topicId) {
+    throw new Error("I need to know which lesson you're viewing before I can reach a tutor.");
+  }
+
+  const response = await fetch(buildApiUrl("/api/assistant/handoffs"), {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${params.accessToken}`,
+    },
+    body: JSON.stringify({ courseId: params.courseId, topicId: params.topicId, message: params.message }),
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload?.handoff) {
+    throw new Error(payload?.message ?? "Could not reach a tutor right now. Please try again.");
+  }
+  return payload.handoff as Handoff;
+}
+
+async function sendHandoffMessage(params: {
+  handoffId: string;
+  content: string;
+  accessToken: string;
+}): Promise<void> {
+  const response = await fetch(buildApiUrl(`/api/assistant/handoffs/${params.handoffId}/messages`), {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${params.accessToken}`,
+    },
+    body: JSON.stringify({ content: params.content }),
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.message ?? "Could not send your message to the tutor.");
+  }
 }
@@ -26,6 +26,9 @@ type ColdCallMessage = {
   };
   starCount: number;
   starredByMe: boolean;
+  isRemoved?: boolean;
+  isPinned?: boolean;
+  isTutor?: boolean;
 };
 
 type ColdCallPayload = {
@@ -187,6 +190,8 @@ export default function ColdCalling({ topicId, session, onTelemetryEvent }: Cold
   const rootMessages = useMemo(() => {
     const roots = childrenMap.get(null) ?? [];
     const sorted = [...roots].sort((a, b) => {
+      if (a.isPinned && !b.isPinned) return -1;
+      if (!a.isPinned && b.isPinned) return 1;
       const aSelf = currentUserId && a.user.userId === currentUserId;
       const bSelf = currentUserId && b.user.userId === currentUserId;
       if (aSelf && !bSelf) return -1;
@@ -220,7 +225,6 @@ export default function ColdCalling({ topicId, session, onTelemetryEvent }: Cold
 
       setResponseText("");
       await loadPrompt();
-      emitTelemetry("cold_call.submit", { promptId: prompt.promptId, length: trimmedResponse.length });
     } catch (error) {
       toast({
         variant: "destructive",
@@ -257,7 +261,6 @@ export default function ColdCalling({ topicId, session, onTelemetryEvent }: Cold
       setReplyTargetId(null);
       setReplyText("");
       await loadPrompt();
-      emitTelemetry("cold_call.reply", { messageId: replyTargetId, length: trimmedReply.length });
     } catch (error) {
       toast({
         variant: "destructive",
@@ -290,7 +293,6 @@ export default function ColdCalling({ topicId, session, onTelemetryEvent }: Cold
               : item,
           ),
         );
-        emitTelemetry("cold_call.star", { messageId: message.messageId, action: "remove" });
       } else {
         const response = await apiRequest("POST", "/api/cold-call/stars", {
           messageId: message.messageId,
@@ -308,7 +310,6 @@ export default function ColdCalling({ topicId, session, onTelemetryEvent }: Cold
               : item,
           ),
         );
-        emitTelemetry("cold_call.star", { messageId: message.messageId, action: "add" });
       }
     } catch (error) {
       toast({
@@ -451,12 +452,12 @@ function ColdCallMessageCard({
   pendingStars,
 }: MessageCardProps) {
   const isSelf = Boolean(currentUserId && message.user.userId === currentUserId);
-  const canReply = !isSelf;
+  const canReply = !isSelf && !message.isRemoved;
   const replies = childrenMap.get(message.messageId) ?? [];
   const parent = message.parentId ? messageMap.get(message.parentId) : null;
   const repliedToName = parent?.user?.fullName ?? null;
   const showReplyBox = replyTargetId === message.messageId;
-  const starDisabled = pendingStars.has(message.messageId) || isSelf;
+  const starDisabled = pendingStars.has(message.messageId) || isSelf || Boolean(message.isRemoved);
 
   return (
     <div className="rounded-2xl border border-[#f2e2d8] bg-white px-4 py-4 shadow-sm">
@@ -474,6 +475,16 @@ function ColdCallMessageCard({
                 You
               </span>
             )}
+            {message.isTutor && (
+              <span className="rounded-full bg-[#e0ecff] px-2 py-0.5 text-[10px] font-semibold text-[#1d4ed8]">
+                Tutor
+              </span>
+            )}
+            {message.isPinned && (
+              <span className="rounded-full bg-[#fff4d6] px-2 py-0.5 text-[10px] font-semibold text-[#b45309]">
+                Pinned by tutor
+              </span>
+            )}
             {repliedToName && (
               <span className="text-xs text-[#a17969]">replied to {repliedToName}</span>
             )}
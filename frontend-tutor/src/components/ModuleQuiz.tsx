@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import QuizCard from '@/components/QuizCard';
+import type { QuizAnswer, QuizAttemptResult } from '@/lib/quizAttemptService';
+
+export interface ModuleQuizQuestion {
+  id: string;
+  question: string;
+  options: Array<{ id: string; text: string; isCorrect?: boolean }>;
+}
+
+interface ModuleQuizProps {
+  courseId: string;
+  moduleNo: number;
+  questions: ModuleQuizQuestion[];
+  onSubmitted?: (result: QuizAttemptResult) => void;
+}
+
+/**
+ * Steps through a module's quiz one question at a time; the last card submits the whole attempt.
+ */
+export default function ModuleQuiz({ courseId, moduleNo, questions, onSubmitted }: ModuleQuizProps) {
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [startedAt] = useState(() => new Date().toISOString());
+
+  const current = questions[index];
+  if (!current) {
+    return null;
+  }
+  const isLastQuestion = index === questions.length - 1;
+
+  const handleAnswer = (selectedOptionId: string) => {
+    // The last card posts the attempt itself, so the quiz stays on it to show the result
+    if (isLastQuestion) {
+      return;
+    }
+    setAnswers((previous) => [
+      ...previous,
+      {
+        questionId: current.id,
+        selectedOptionId,
+        isCorrect: Boolean(current.options.find((option) => option.id === selectedOptionId)?.isCorrect),
+      },
+    ]);
+    setIndex(index + 1);
+  };
+
+  return (
+    <QuizCard
+      key={current.id}
+      questionId={current.id}
+      question={current.question}
+      options={current.options}
+      onAnswer={handleAnswer}
+      questionNumber={index + 1}
+      totalQuestions={questions.length}
+      attempt={{ courseId, moduleNo, previousAnswers: answers, startedAt, onSubmitted }}
+    />
+  );
+}
@@ -3,7 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
-import { CheckCircle, XCircle } from 'lucide-react';
+import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { submitModuleQuizAttempt } from '@/lib/quizAttemptService';
+import type { QuizAnswer, QuizAttemptResult } from '@/lib/quizAttemptService';
 
 interface QuizOption {
   id: string;
@@ -11,7 +13,16 @@ interface QuizOption {
   isCorrect?: boolean;
 }
 
+interface QuizAttemptContext {
+  courseId: string;
+  moduleNo: number;
+  previousAnswers: QuizAnswer[];
+  startedAt?: string;
+  onSubmitted?: (result: QuizAttemptResult) => void;
+}
+
 interface QuizCardProps {
+  questionId?: string;
   question: string;
   options: QuizOption[];
   onAnswer: (selectedOptionId: string) => void;
@@ -19,23 +30,56 @@ interface QuizCardProps {
   selectedAnswer?: string;
   questionNumber: number;
   totalQuestions: number;
+  attempt?: QuizAttemptContext;
 }
 
 export default function QuizCard({
+  questionId,
   question,
   options,
   onAnswer,
   showResult = false,
   selectedAnswer,
   questionNumber,
-  totalQuestions
+  totalQuestions,
+  attempt
 }: QuizCardProps) {
   const [selectedOption, setSelectedOption] = useState<string>(selectedAnswer || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [attemptResult, setAttemptResult] = useState<QuizAttemptResult | null>(null);
+  const [attemptError, setAttemptError] = useState<string | null>(null);
+
+  const isLastQuestion = questionNumber === totalQuestions;
+
+  const handleSubmit = async () => {
+    if (!selectedOption) {
+      return;
+    }
+    onAnswer(selectedOption);
+
+    // The final answer completes the attempt, which is scored and stored server-side
+    if (!attempt || !isLastQuestion) {
+      return;
+    }
+    const answers: QuizAnswer[] = [
+      ...attempt.previousAnswers,
+      {
+        questionId: questionId ?? `q${questionNumber}`,
+        selectedOptionId: selectedOption,
+        isCorrect: Boolean(options.find((option) => option.id === selectedOption)?.isCorrect),
+      },
+    ];
 
-  const handleSubmit = () => {
-    if (selectedOption) {
-      onAnswer(selectedOption);
-      console.log('Quiz answer submitted:', selectedOption);
+    setIsSaving(true);
+    setAttemptError(null);
+    try {
+      const result = await submitModuleQuizAttempt(attempt.courseId, attempt.moduleNo, answers, attempt.startedAt);
+      setAttemptResult(result);
+      attempt.onSubmitted?.(result);
+    } catch (error) {
+      setAttemptError(error instanceof Error ? error.message : 'Could not save your quiz results.');
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -111,10 +155,11 @@ export default function QuizCard({
           <div className="flex justify-end">
             <Button
               onClick={handleSubmit}
-              disabled={!selectedOption}
+              disabled={!selectedOption || isSaving}
               className="min-w-24"
               data-testid="button-submit-answer"
             >
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               Submit
             </Button>
           </div>
@@ -131,6 +176,33 @@ export default function QuizCard({
             </p>
           </div>
         )}
+
+        {attemptResult && (
+          <div
+            className={`p-4 rounded-lg border ${
+              attemptResult.passed
+                ? 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950'
+                : 'border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950'
+            }`}
+            data-testid="text-attempt-result"
+          >
+            <p className="text-sm font-medium">
+              {attemptResult.passed ? 'Module quiz passed' : 'Not passed yet'} with {attemptResult.score ?? 0}%
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Attempt {attemptResult.attemptNumber} · {attemptResult.passThreshold}% needed to pass
+            </p>
+            {attemptResult.selfReported && (
+              <p className="text-xs text-muted-foreground" data-testid="text-attempt-provisional">
+                Provisional: your tutor has not published this quiz's answers yet, so the score may change.
+              </p>
+            )}
+          </div>
+        )}
+
+        {attemptError && (
+          <p className="text-sm text-red-600" data-testid="text-attempt-error">{attemptError}</p>
+        )}
       </CardContent>
     </Card>
   );
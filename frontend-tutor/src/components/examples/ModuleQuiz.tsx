@@ -0,0 +1,35 @@
+import ModuleQuiz from '../ModuleQuiz';
+
+export default function ModuleQuizExample() {
+  const mockQuestions = [
+    {
+      id: 'hooks-benefit',
+      question: 'Which of the following is the primary benefit of using React hooks?',
+      options: [
+        { id: 'a', text: 'Better performance in all cases', isCorrect: false },
+        { id: 'b', text: 'Simplified state management and lifecycle methods', isCorrect: true },
+        { id: 'c', text: 'Automatic code optimization', isCorrect: false },
+      ],
+    },
+    {
+      id: 'effect-cleanup',
+      question: 'When does the cleanup function returned from useEffect run?',
+      options: [
+        { id: 'a', text: 'Before the effect runs again and on unmount', isCorrect: true },
+        { id: 'b', text: 'Only on the first render', isCorrect: false },
+        { id: 'c', text: 'Never, it is optional', isCorrect: false },
+      ],
+    },
+  ];
+
+  return (
+    <div className="p-8 bg-background min-h-screen">
+      <ModuleQuiz
+        courseId="00000000-0000-0000-0000-000000000000"
+        moduleNo={1}
+        questions={mockQuestions}
+        onSubmitted={(result) => console.log('Quiz attempt saved:', result)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * Answer Review Card Component
+ *
+ * Queue of assistant answers learners gave a thumbs-down, with the question and
+ * the course material the answer was built from, so tutors can add a curated
+ * answer, flag missing material, or dismiss the report.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAnswerReviews, resolveAnswerReview } from '@/lib/answerReviewService';
+import type { AnswerReview, AnswerReviewResolution } from '@/lib/answerReviewService';
+
+interface AnswerReviewCardProps {
+  courseId: string;
+  headers?: Headers;
+}
+
+type ResolutionAction = AnswerReviewResolution['action'];
+
+const VISIBLE_REVIEWS = 6;
+
+const ACTION_TITLES: Record<ResolutionAction, string> = {
+  curated_answer: 'Add a curated answer',
+  missing_material: 'Flag missing material',
+  dismissed: 'Dismiss report',
+};
+
+export function AnswerReviewCard({ courseId, headers }: AnswerReviewCardProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<{ review: AnswerReview; action: ResolutionAction } | null>(null);
+  const [promptText, setPromptText] = useState('');
+  const [text, setText] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+
+  const { data: reviews, isLoading, refetch } = useQuery<AnswerReview[]>({
+    queryKey: ['answer-reviews', courseId],
+    enabled: Boolean(courseId) && Boolean(headers),
+    queryFn: () => fetchAnswerReviews(courseId, 'open', headers),
+    retry: 1
+  });
+
+  const openResolve = (review: AnswerReview, action: ResolutionAction) => {
+    setSelected({ review, action });
+    setPromptText(review.question ?? '');
+    setText('');
+  };
+
+  const buildResolution = (action: ResolutionAction): AnswerReviewResolution => {
+    if (action === 'curated_answer') {
+      return { action, promptText: promptText.trim() || undefined, answer: text };
+    }
+    if (action === 'missing_material') {
+      return { action, note: text };
+    }
+    return { action, note: text.trim() || undefined };
+  };
+
+  const handleResolve = async () => {
+    if (!selected) {
+      return;
+    }
+    setIsResolving(true);
+    try {
+      await resolveAnswerReview(courseId, selected.review.feedbackId, buildResolution(selected.action), headers);
+      toast({ title: ACTION_TITLES[selected.action], description: selected.review.topicName });
+      setSelected(null);
+      await refetch();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not resolve this review',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const requiresText = selected?.action === 'curated_answer' || selected?.action === 'missing_material';
+
+  return (
+    <Card className="border-[#E6EAF0] bg-white shadow-sm overflow-hidden">
+      <CardHeader className="pb-3 border-b border-slate-100/50 bg-slate-50/30">
+        <CardTitle className="text-sm font-semibold text-[#1A202C]">Answer Reviews</CardTitle>
+        <p className="text-[10px] text-[#718096]">
+          Assistant answers learners marked unhelpful, with the material they were generated from
+        </p>
+      </CardHeader>
+      <CardContent className="p-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full rounded-lg" />
+            <Skeleton className="h-16 w-full rounded-lg" />
+          </div>
+        ) : !reviews || reviews.length === 0 ? (
+          <p className="text-xs text-[#718096]">No unhelpful answers waiting for review.</p>
+        ) : (
+          <ul className="space-y-2">
+            {reviews.slice(0, VISIBLE_REVIEWS).map((review) => (
+              <li key={review.feedbackId} className="rounded-lg border border-[#E6EAF0] p-3 space-y-1.5">
+                <p className="text-[10px] text-[#718096]">
+                  Module {review.moduleNo} · {review.topicName} · {review.learnerName}
+                  {review.reason ? ` · "${review.reason}"` : ''}
+                </p>
+                <p className="text-xs font-medium text-[#2D3748]">{review.question ?? 'Question unavailable'}</p>
+                <p className="line-clamp-3 text-xs text-[#4A5568]">{review.answer}</p>
+                {review.contexts.length > 0 && (
+                  <details className="text-[10px] text-[#718096]">
+                    <summary className="cursor-pointer">
+                      {review.contexts.length} retrieved passage{review.contexts.length === 1 ? '' : 's'}
+                    </summary>
+                    <ul className="mt-1 space-y-1">
+                      {review.contexts.map((context) => (
+                        <li key={context.chunkId} className="rounded bg-slate-50 p-2">
+                          <p className="font-medium">
+                            {context.sourceDocument ?? 'Course material'}
+                            {context.sourcePage !== null ? ` · p. ${context.sourcePage}` : ''}
+                          </p>
+                          <p className="line-clamp-3">{context.content}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <Button size="sm" className="h-7 text-[11px]" onClick={() => openResolve(review, 'curated_answer')}>
+                    Curated answer
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-[11px]"
+                    onClick={() => openResolve(review, 'missing_material')}
+                  >
+                    Missing material
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-[11px]"
+                    onClick={() => openResolve(review, 'dismissed')}
+                  >
+                    Dismiss
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(selected)} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{selected ? ACTION_TITLES[selected.action] : ''}</DialogTitle>
+            <DialogDescription>
+              {selected?.action === 'curated_answer'
+                ? `Learners on ${selected.review.topicName} will see this prompt, answered with the text below.`
+                : selected?.action === 'missing_material'
+                  ? 'Note what the course material is missing so it can be added.'
+                  : 'Optionally note why this report needs no action.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {selected?.action === 'curated_answer' && (
+              <Input value={promptText} onChange={(event) => setPromptText(event.target.value)} placeholder="Prompt" />
+            )}
+            <Textarea
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+              placeholder={selected?.action === 'curated_answer' ? 'Curated answer' : 'Note'}
+              rows={selected?.action === 'curated_answer' ? 6 : 3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)} disabled={isResolving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => void handleResolve()}
+              disabled={
+                isResolving ||
+                (requiresText && !text.trim()) ||
+                (selected?.action === 'curated_answer' && !promptText.trim())
+              }
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
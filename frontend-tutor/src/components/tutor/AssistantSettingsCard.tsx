@@ -0,0 +1,77 @@
+/**
+ * Assistant Settings Card Component
+ *
+ * Lets tutors keep the learner assistant from answering with material
+ * from modules the learner has not reached yet.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAssistantSettings, updateAssistantSettings } from '@/lib/assistantSettingsService';
+import type { AssistantSettings } from '@/lib/assistantSettingsService';
+
+interface AssistantSettingsCardProps {
+  courseId: string;
+  headers?: Headers;
+}
+
+export function AssistantSettingsCard({ courseId, headers }: AssistantSettingsCardProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: settings, isLoading, refetch } = useQuery<AssistantSettings>({
+    queryKey: ['assistant-settings', courseId],
+    enabled: Boolean(courseId) && Boolean(headers),
+    queryFn: () => fetchAssistantSettings(courseId, headers),
+    retry: 1
+  });
+
+  const handleNoSpoilersChange = async (noSpoilers: boolean) => {
+    setIsSaving(true);
+    try {
+      await updateAssistantSettings(courseId, { noSpoilers }, headers);
+      await refetch();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not update assistant settings',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-[#E6EAF0] bg-white shadow-sm overflow-hidden">
+      <CardHeader className="pb-3 border-b border-slate-100/50 bg-slate-50/30">
+        <CardTitle className="text-sm font-semibold text-[#1A202C]">Assistant Scope</CardTitle>
+        <p className="text-[10px] text-[#718096]">
+          Answers favour the learner's current topic and earlier modules, widening to the whole course when needed
+        </p>
+      </CardHeader>
+      <CardContent className="p-4">
+        {isLoading || !settings ? (
+          <Skeleton className="h-10 w-full rounded-lg" />
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-xs font-medium text-[#2D3748]">No spoilers beyond the current module</p>
+              <p className="text-[11px] text-[#718096]">Never use material from later modules, even when widening the search.</p>
+            </div>
+            <Switch
+              checked={settings.noSpoilers}
+              disabled={isSaving}
+              onCheckedChange={(checked) => void handleNoSpoilersChange(checked)}
+              aria-label="No spoilers beyond the current module"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Cohort Performance Factors Card Component
+ *
+ * Ranks the activity, quiz, chatbot and time-of-day signals that set the
+ * selected cohort apart from the rest of the course, by effect size.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDownRight, ArrowUpRight, Minus, Zap } from 'lucide-react';
+import { fetchCohortPerformanceFactors } from '@/lib/cohortPerformanceService';
+import type { CohortPerformanceAnalysis, PerformanceFactor } from '@/lib/cohortPerformanceService';
+
+interface CohortPerformanceFactorsCardProps {
+  courseId: string;
+  cohortId?: string | null;
+  headers?: Headers;
+}
+
+const WINDOW_OPTIONS = [14, 30, 90];
+const MAX_FACTORS = 8;
+
+const impactStyles: Record<PerformanceFactor['impact'], string> = {
+  positive: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  negative: 'bg-rose-50 text-rose-700 border-rose-200',
+  neutral: 'bg-slate-50 text-slate-600 border-slate-200',
+};
+
+const formatValue = (value: number | null, unit: PerformanceFactor['unit']) => {
+  if (value === null) {
+    return '—';
+  }
+  return unit === 'percent' ? `${Math.round(value)}%` : value.toFixed(unit === 'ratio' ? 2 : 1);
+};
+
+export function CohortPerformanceFactorsCard({ courseId, cohortId, headers }: CohortPerformanceFactorsCardProps) {
+  const [days, setDays] = useState(30);
+
+  const {
+    data: analysis,
+    isLoading,
+    error
+  } = useQuery<CohortPerformanceAnalysis>({
+    queryKey: ['cohort-performance-factors', courseId, cohortId, days],
+    enabled: Boolean(courseId) && Boolean(cohortId) && Boolean(headers),
+    queryFn: () => fetchCohortPerformanceFactors(courseId, cohortId!, days, headers),
+    retry: 1
+  });
+
+  if (!cohortId) {
+    return null;
+  }
+
+  const comparable = (analysis?.factors ?? []).filter((factor) => factor.effectSize !== null).slice(0, MAX_FACTORS);
+
+  return (
+    <Card className="border-[#E6EAF0] bg-white shadow-sm overflow-hidden">
+      <CardHeader className="pb-3 border-b border-slate-100/50 bg-slate-50/30">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <CardTitle className="text-sm font-semibold text-[#1A202C]">Performance Factors</CardTitle>
+            <p className="text-[10px] text-[#718096]">
+              {analysis
+                ? `${analysis.cohort.name} (${analysis.cohortLearners} learners) vs rest of course (${analysis.baselineLearners} learners)`
+                : 'How this cohort differs from the rest of the course'}
+            </p>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[130px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOW_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)} className="text-xs">
+                  Last {option} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-[160px] w-full rounded-xl" />
+        ) : error || !analysis ? (
+          <p className="text-xs text-red-600 font-medium flex items-center gap-2">
+            <Zap className="w-3.5 h-3.5" /> Failed to load performance factors. Please try refreshing.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="rounded-lg bg-slate-50 p-3">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-[#718096]">Cohort completion</span>
+                <p className="text-lg font-semibold text-[#1A202C]">{analysis.averageCompletion.cohort}%</p>
+              </div>
+              <div className="rounded-lg bg-slate-50 p-3">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-[#718096]">Rest of course</span>
+                <p className="text-lg font-semibold text-[#1A202C]">
+                  {analysis.averageCompletion.baseline === null ? '—' : `${analysis.averageCompletion.baseline}%`}
+                </p>
+              </div>
+            </div>
+
+            {comparable.length === 0 ? (
+              <p className="text-sm text-[#718096]">
+                Not enough learners on both sides to compare yet.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {comparable.map((factor) => (
+                  <div key={factor.key} className="flex items-center gap-3 rounded-lg border border-slate-100 p-3">
+                    <div className="text-[#718096]">
+                      {factor.direction === 'higher' ? (
+                        <ArrowUpRight className="w-4 h-4" />
+                      ) : factor.direction === 'lower' ? (
+                        <ArrowDownRight className="w-4 h-4" />
+                      ) : (
+                        <Minus className="w-4 h-4" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-medium text-[#2D3748]">{factor.label}</p>
+                      <p className="text-[11px] text-[#718096]">
+                        {formatValue(factor.cohortValue, factor.unit)} vs {formatValue(factor.baselineValue, factor.unit)}
+                        {' · '}d = {factor.effectSize!.toFixed(2)}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="text-[10px] capitalize">{factor.magnitude}</Badge>
+                    <Badge variant="outline" className={`text-[10px] capitalize ${impactStyles[factor.impact]}`}>
+                      {factor.impact}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
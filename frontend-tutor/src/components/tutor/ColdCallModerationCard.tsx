@@ -0,0 +1,310 @@
+/**
+ * Cold-Call Moderation Card Component
+ *
+ * Lets tutors review a cohort's cold-call thread for one prompt,
+ * hide or restore messages, pin an exemplary answer, reply as the tutor,
+ * and see how each learner participated.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Star, Pin, PinOff, EyeOff, Eye, Reply, MessagesSquare, Loader2 } from 'lucide-react';
+import {
+  fetchColdCallPrompts,
+  fetchModerationThread,
+  moderateColdCallMessage,
+  postTutorColdCallReply,
+} from '@/lib/coldCallModerationService';
+import type { ModerationMessage } from '@/lib/coldCallModerationService';
+
+interface ColdCallModerationCardProps {
+  courseId: string;
+  cohortId?: string | null;
+  headers?: Headers;
+}
+
+export function ColdCallModerationCard({ courseId, cohortId, headers }: ColdCallModerationCardProps) {
+  const { toast } = useToast();
+  const [selectedPromptId, setSelectedPromptId] = useState<string | null>(null);
+  const [replyTargetId, setReplyTargetId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [pendingMessageId, setPendingMessageId] = useState<string | null>(null);
+
+  const { data: prompts, isLoading: promptsLoading } = useQuery({
+    queryKey: ['cold-call-prompts', courseId],
+    enabled: Boolean(courseId) && Boolean(headers),
+    queryFn: () => fetchColdCallPrompts(courseId, headers),
+    retry: 1
+  });
+
+  useEffect(() => {
+    if (prompts && prompts.length > 0 && !prompts.some((prompt) => prompt.promptId === selectedPromptId)) {
+      setSelectedPromptId(prompts[0].promptId);
+    }
+  }, [prompts, selectedPromptId]);
+
+  const {
+    data: thread,
+    isLoading: threadLoading,
+    error: threadError,
+    refetch: refetchThread
+  } = useQuery({
+    queryKey: ['cold-call-thread', courseId, selectedPromptId, cohortId],
+    enabled: Boolean(courseId) && Boolean(selectedPromptId) && Boolean(cohortId) && Boolean(headers),
+    queryFn: () => fetchModerationThread(courseId, selectedPromptId!, cohortId!, headers),
+    retry: 1
+  });
+
+  const childrenMap = useMemo(() => {
+    const map = new Map<string | null, ModerationMessage[]>();
+    (thread?.messages ?? []).forEach((message) => {
+      const key = message.parentId ?? null;
+      map.set(key, [...(map.get(key) ?? []), message]);
+    });
+    return map;
+  }, [thread?.messages]);
+
+  const rootMessages = useMemo(() => {
+    const roots = childrenMap.get(null) ?? [];
+    return [...roots].sort((a, b) => {
+      if (a.pinnedAt && !b.pinnedAt) return -1;
+      if (!a.pinnedAt && b.pinnedAt) return 1;
+      return b.starCount - a.starCount;
+    });
+  }, [childrenMap]);
+
+  const runAction = async (messageId: string, action: () => Promise<void>, failureTitle: string) => {
+    setPendingMessageId(messageId);
+    try {
+      await action();
+      await refetchThread();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: failureTitle,
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setPendingMessageId(null);
+    }
+  };
+
+  const submitReply = async (messageId: string) => {
+    const body = replyText.trim();
+    if (!body) {
+      return;
+    }
+    await runAction(messageId, async () => {
+      await postTutorColdCallReply(courseId, messageId, body, headers);
+      setReplyText('');
+      setReplyTargetId(null);
+    }, 'Reply failed');
+  };
+
+  if (promptsLoading) {
+    return <Skeleton className="h-[300px] w-full rounded-xl" />;
+  }
+
+  if (!prompts || prompts.length === 0) {
+    return (
+      <Card className="border-[#E6EAF0] bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-sm font-semibold text-[#1A202C]">Cold-Call Discussions</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center justify-center p-8 text-center">
+          <div className="bg-slate-50 p-3 rounded-full mb-3">
+            <MessagesSquare className="w-6 h-6 text-slate-300" />
+          </div>
+          <p className="text-sm text-[#718096]">No cold-call prompts have been set up for this course.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const renderMessage = (message: ModerationMessage, depth: number) => {
+    const isHidden = message.status !== 'active' || Boolean(message.deletedAt);
+    const isPending = pendingMessageId === message.messageId;
+    const replies = childrenMap.get(message.messageId) ?? [];
+
+    return (
+      <div key={message.messageId} className={depth > 0 ? 'ml-6 border-l border-slate-100 pl-4' : ''}>
+        <div className={`rounded-lg border p-3 ${isHidden ? 'border-dashed border-slate-200 bg-slate-50 opacity-70' : 'border-slate-100 bg-white'}`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-semibold text-[#2D3748]">{message.user.fullName}</span>
+            {message.isTutor && <Badge variant="secondary" className="text-[10px]">Tutor</Badge>}
+            {message.pinnedAt && <Badge className="text-[10px] bg-amber-100 text-amber-700 hover:bg-amber-100">Pinned</Badge>}
+            {isHidden && (
+              <Badge variant="outline" className="text-[10px]">
+                {message.status === 'deleted' ? 'Deleted by learner' : 'Hidden'}
+              </Badge>
+            )}
+            <span className="ml-auto flex items-center gap-1 text-[10px] text-[#718096]">
+              <Star className="w-3 h-3 text-amber-400" /> {message.starCount}
+            </span>
+          </div>
+          <p className="mt-1 text-xs text-[#4A5568] whitespace-pre-wrap">{message.body}</p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-[11px]"
+              disabled={isPending}
+              onClick={() => runAction(
+                message.messageId,
+                () => moderateColdCallMessage(courseId, message.messageId, { status: isHidden ? 'active' : 'hidden' }, headers),
+                isHidden ? 'Restore failed' : 'Hide failed'
+              )}
+            >
+              {isHidden ? <Eye className="w-3 h-3 mr-1" /> : <EyeOff className="w-3 h-3 mr-1" />}
+              {isHidden ? 'Restore' : 'Hide'}
+            </Button>
+            {!message.parentId && !isHidden && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-[11px]"
+                disabled={isPending}
+                onClick={() => runAction(
+                  message.messageId,
+                  () => moderateColdCallMessage(courseId, message.messageId, { pinned: !message.pinnedAt }, headers),
+                  'Pin failed'
+                )}
+              >
+                {message.pinnedAt ? <PinOff className="w-3 h-3 mr-1" /> : <Pin className="w-3 h-3 mr-1" />}
+                {message.pinnedAt ? 'Unpin' : 'Pin'}
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-[11px]"
+              disabled={isPending}
+              onClick={() => {
+                setReplyTargetId(replyTargetId === message.messageId ? null : message.messageId);
+                setReplyText('');
+              }}
+            >
+              <Reply className="w-3 h-3 mr-1" /> Reply
+            </Button>
+            {isPending && <Loader2 className="w-3 h-3 animate-spin text-slate-400 self-center" />}
+          </div>
+          {replyTargetId === message.messageId && (
+            <div className="mt-2 space-y-2">
+              <Textarea
+                value={replyText}
+                onChange={(event) => setReplyText(event.target.value)}
+                placeholder="Reply as tutor..."
+                className="min-h-[60px] text-xs"
+              />
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  className="h-7 text-[11px]"
+                  disabled={isPending || !replyText.trim()}
+                  onClick={() => submitReply(message.messageId)}
+                >
+                  Post reply
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+        {replies.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {replies.map((reply) => renderMessage(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="border-[#E6EAF0] bg-white shadow-sm overflow-hidden">
+      <CardHeader className="pb-3 border-b border-slate-100/50 bg-slate-50/30">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <CardTitle className="text-sm font-semibold text-[#1A202C]">Cold-Call Discussions</CardTitle>
+            <p className="text-[10px] text-[#718096]">Moderate cohort threads and track participation</p>
+          </div>
+          <Select value={selectedPromptId ?? undefined} onValueChange={setSelectedPromptId}>
+            <SelectTrigger className="w-[280px] h-8 text-xs">
+              <SelectValue placeholder="Select prompt" />
+            </SelectTrigger>
+            <SelectContent>
+              {prompts.map((prompt) => (
+                <SelectItem key={prompt.promptId} value={prompt.promptId} className="text-xs">
+                  M{prompt.moduleNo} · {prompt.topicName} ({prompt.answerCount})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-6">
+        {!cohortId ? (
+          <p className="text-sm text-[#718096]">Select a cohort to moderate its discussion.</p>
+        ) : threadLoading ? (
+          <Skeleton className="h-[200px] w-full rounded-xl" />
+        ) : threadError || !thread ? (
+          <p className="text-sm text-red-600">There was a problem loading this discussion.</p>
+        ) : (
+          <>
+            <div className="rounded-lg bg-slate-50 p-3">
+              <p className="text-xs font-semibold text-[#2D3748]">{thread.prompt.promptText}</p>
+              {thread.prompt.helperText && (
+                <p className="text-[11px] text-[#718096] mt-1">{thread.prompt.helperText}</p>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              {rootMessages.length === 0 ? (
+                <p className="text-sm text-[#718096]">No responses from {thread.cohort.name} yet.</p>
+              ) : (
+                rootMessages.map((message) => renderMessage(message, 0))
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-[#718096]">Participation</span>
+                <span className="text-[10px] bg-blue-50 text-blue-600 px-2 py-0.5 rounded-full font-bold">
+                  {thread.participation.participationRate}% answered
+                </span>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-[11px]">Learner</TableHead>
+                    <TableHead className="text-[11px]">Answered</TableHead>
+                    <TableHead className="text-[11px] text-right">Replies</TableHead>
+                    <TableHead className="text-[11px] text-right">Stars received</TableHead>
+                    <TableHead className="text-[11px] text-right">Stars given</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {thread.participation.learners.map((learner) => (
+                    <TableRow key={learner.email}>
+                      <TableCell className="text-xs">{learner.fullName ?? learner.email}</TableCell>
+                      <TableCell className="text-xs">{learner.hasAnswered ? 'Yes' : 'No'}</TableCell>
+                      <TableCell className="text-xs text-right">{learner.replyCount}</TableCell>
+                      <TableCell className="text-xs text-right">{learner.starsReceived}</TableCell>
+                      <TableCell className="text-xs text-right">{learner.starsGiven}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,298 @@
+/**
+ * Cold-Call Prompt Editor Card Component
+ *
+ * Lets tutors author, edit, reorder and retire the cold-call
+ * discussion prompts shown to learners on each topic.
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowUp, ArrowDown, Pencil, Trash2, Plus, Loader2 } from 'lucide-react';
+import {
+  fetchTopicColdCallPrompts,
+  createTopicColdCallPrompt,
+  updateTopicColdCallPrompt,
+  deleteTopicColdCallPrompt,
+  reorderTopicColdCallPrompts,
+} from '@/lib/coldCallModerationService';
+import type { EditableColdCallPrompt } from '@/lib/coldCallModerationService';
+
+interface ColdCallPromptEditorCardProps {
+  courseId: string;
+  topics: Array<{ topicId: string; topicName: string; moduleNo: number }>;
+  headers?: Headers;
+}
+
+type DraftPrompt = {
+  promptText: string;
+  helperText: string;
+};
+
+const emptyDraft: DraftPrompt = { promptText: '', helperText: '' };
+
+export function ColdCallPromptEditorCard({ courseId, topics, headers }: ColdCallPromptEditorCardProps) {
+  const { toast } = useToast();
+  const [topicId, setTopicId] = useState<string | null>(null);
+  const [newDraft, setNewDraft] = useState<DraftPrompt>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<DraftPrompt>(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (topics.length > 0 && !topics.some((topic) => topic.topicId === topicId)) {
+      setTopicId(topics[0].topicId);
+    }
+  }, [topics, topicId]);
+
+  const {
+    data: prompts,
+    isLoading,
+    refetch
+  } = useQuery<EditableColdCallPrompt[]>({
+    queryKey: ['cold-call-topic-prompts', courseId, topicId],
+    enabled: Boolean(courseId) && Boolean(topicId) && Boolean(headers),
+    queryFn: () => fetchTopicColdCallPrompts(courseId, topicId!, headers),
+    retry: 1
+  });
+
+  const save = async (action: () => Promise<void>, failureTitle: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await refetch();
+      return true;
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: failureTitle,
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!topicId || !newDraft.promptText.trim()) {
+      return;
+    }
+    const saved = await save(
+      () => createTopicColdCallPrompt(courseId, topicId, {
+        promptText: newDraft.promptText.trim(),
+        helperText: newDraft.helperText.trim() || null,
+      }, headers),
+      'Could not add prompt'
+    );
+    if (saved) {
+      setNewDraft(emptyDraft);
+    }
+  };
+
+  const handleUpdate = async (promptId: string) => {
+    if (!topicId || !editDraft.promptText.trim()) {
+      return;
+    }
+    const saved = await save(
+      () => updateTopicColdCallPrompt(courseId, topicId, promptId, {
+        promptText: editDraft.promptText.trim(),
+        helperText: editDraft.helperText.trim() || null,
+      }, headers),
+      'Could not update prompt'
+    );
+    if (saved) {
+      setEditingId(null);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    if (!topicId || !prompts) {
+      return;
+    }
+    const target = index + direction;
+    if (target < 0 || target >= prompts.length) {
+      return;
+    }
+    const ids = prompts.map((prompt) => prompt.promptId);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    await save(() => reorderTopicColdCallPrompts(courseId, topicId, ids, headers), 'Could not reorder prompts');
+  };
+
+  if (topics.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-[#E6EAF0] bg-white shadow-sm overflow-hidden">
+      <CardHeader className="pb-3 border-b border-slate-100/50 bg-slate-50/30">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <CardTitle className="text-sm font-semibold text-[#1A202C]">Discussion Prompts</CardTitle>
+            <p className="text-[10px] text-[#718096]">Learners see the first active prompt on each topic</p>
+          </div>
+          <Select value={topicId ?? undefined} onValueChange={(value) => { setTopicId(value); setEditingId(null); }}>
+            <SelectTrigger className="w-[280px] h-8 text-xs">
+              <SelectValue placeholder="Select topic" />
+            </SelectTrigger>
+            <SelectContent>
+              {topics.map((topic) => (
+                <SelectItem key={topic.topicId} value={topic.topicId} className="text-xs">
+                  M{topic.moduleNo} · {topic.topicName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-[120px] w-full rounded-xl" />
+        ) : (prompts ?? []).length === 0 ? (
+          <p className="text-sm text-[#718096]">No prompts for this topic yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {(prompts ?? []).map((prompt, index) => (
+              <div key={prompt.promptId} className="rounded-lg border border-slate-100 p-3">
+                {editingId === prompt.promptId ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={editDraft.promptText}
+                      onChange={(event) => setEditDraft({ ...editDraft, promptText: event.target.value })}
+                      className="min-h-[60px] text-xs"
+                    />
+                    <Input
+                      value={editDraft.helperText}
+                      onChange={(event) => setEditDraft({ ...editDraft, helperText: event.target.value })}
+                      placeholder="Helper text (optional)"
+                      className="h-8 text-xs"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="ghost" className="h-7 text-[11px]" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="h-7 text-[11px]"
+                        disabled={isSaving || !editDraft.promptText.trim()}
+                        onClick={() => handleUpdate(prompt.promptId)}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-3">
+                    <div className="flex flex-col">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        disabled={isSaving || index === 0}
+                        onClick={() => handleMove(index, -1)}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        disabled={isSaving || index === (prompts ?? []).length - 1}
+                        onClick={() => handleMove(index, 1)}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-medium text-[#2D3748]">{prompt.promptText}</p>
+                      {prompt.helperText && <p className="text-[11px] text-[#718096] mt-0.5">{prompt.helperText}</p>}
+                      <div className="mt-1 flex items-center gap-2">
+                        {!prompt.isActive && <Badge variant="outline" className="text-[10px]">Inactive</Badge>}
+                        <span className="text-[10px] text-[#718096]">{prompt._count.messages} messages</span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={prompt.isActive}
+                        disabled={isSaving}
+                        onCheckedChange={(checked) => save(
+                          () => updateTopicColdCallPrompt(courseId, topicId!, prompt.promptId, { isActive: checked }, headers),
+                          'Could not update prompt'
+                        )}
+                        aria-label="Active"
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        disabled={isSaving}
+                        onClick={() => {
+                          setEditingId(prompt.promptId);
+                          setEditDraft({ promptText: prompt.promptText, helperText: prompt.helperText ?? '' });
+                        }}
+                        aria-label="Edit prompt"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        disabled={isSaving || prompt._count.messages > 0}
+                        title={prompt._count.messages > 0 ? 'Prompts with responses can only be deactivated' : undefined}
+                        onClick={() => save(
+                          () => deleteTopicColdCallPrompt(courseId, topicId!, prompt.promptId, headers),
+                          'Could not delete prompt'
+                        )}
+                        aria-label="Delete prompt"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 rounded-lg bg-slate-50 p-3">
+          <span className="text-[10px] font-bold uppercase tracking-wider text-[#718096]">New prompt</span>
+          <Textarea
+            value={newDraft.promptText}
+            onChange={(event) => setNewDraft({ ...newDraft, promptText: event.target.value })}
+            placeholder="Ask learners a question about this topic..."
+            className="min-h-[60px] text-xs bg-white"
+          />
+          <Input
+            value={newDraft.helperText}
+            onChange={(event) => setNewDraft({ ...newDraft, helperText: event.target.value })}
+            placeholder="Helper text (optional)"
+            className="h-8 text-xs bg-white"
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              className="h-7 text-[11px]"
+              disabled={isSaving || !newDraft.promptText.trim()}
+              onClick={handleCreate}
+            >
+              {isSaving ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Plus className="w-3 h-3 mr-1" />}
+              Add prompt
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
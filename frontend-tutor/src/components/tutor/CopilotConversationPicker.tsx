@@ -0,0 +1,162 @@
+/**
+ * Copilot Conversation Picker Component
+ *
+ * Lets tutors switch between their saved copilot threads for a course,
+ * start a new one, and rename or delete the current thread.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import {
+  fetchCopilotConversations,
+  renameCopilotConversation,
+  deleteCopilotConversation,
+} from '@/lib/tutorCopilotConversationService';
+import type { CopilotConversation } from '@/lib/tutorCopilotConversationService';
+
+interface CopilotConversationPickerProps {
+  courseId: string;
+  activeConversationId: string | null;
+  // Changes whenever the active conversation gains a turn, so the list re-sorts
+  refreshKey: number;
+  disabled?: boolean;
+  headers?: Headers;
+  onSelect: (conversationId: string | null) => void;
+}
+
+export function CopilotConversationPicker({
+  courseId,
+  activeConversationId,
+  refreshKey,
+  disabled,
+  headers,
+  onSelect,
+}: CopilotConversationPickerProps) {
+  const { toast } = useToast();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: conversations, refetch } = useQuery<CopilotConversation[]>({
+    queryKey: ['copilot-conversations', courseId, refreshKey],
+    enabled: Boolean(courseId) && Boolean(headers),
+    queryFn: () => fetchCopilotConversations(courseId, headers),
+    retry: 1
+  });
+
+  const active = (conversations ?? []).find((conversation) => conversation.conversationId === activeConversationId);
+
+  const save = async (action: () => Promise<void>, failureTitle: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await refetch();
+      return true;
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: failureTitle,
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!activeConversationId || !titleDraft.trim()) {
+      return;
+    }
+    const saved = await save(
+      () => renameCopilotConversation(courseId, activeConversationId, titleDraft.trim(), headers),
+      'Could not rename conversation'
+    );
+    if (saved) {
+      setIsRenaming(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeConversationId) {
+      return;
+    }
+    const deleted = await save(
+      () => deleteCopilotConversation(courseId, activeConversationId, headers),
+      'Could not delete conversation'
+    );
+    if (deleted) {
+      onSelect(null);
+    }
+  };
+
+  if (isRenaming && active) {
+    return (
+      <div className="flex items-center gap-2">
+        <Input
+          value={titleDraft}
+          onChange={(event) => setTitleDraft(event.target.value)}
+          maxLength={120}
+          className="h-8 text-xs"
+          autoFocus
+        />
+        <Button size="icon" variant="ghost" className="h-8 w-8" disabled={isSaving || !titleDraft.trim()} onClick={handleRename} aria-label="Save title">
+          <Check className="w-3.5 h-3.5" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setIsRenaming(false)} aria-label="Cancel rename">
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={activeConversationId ?? undefined}
+        onValueChange={(value) => onSelect(value)}
+        disabled={disabled || (conversations ?? []).length === 0}
+      >
+        <SelectTrigger className="h-8 flex-1 min-w-0 text-xs">
+          <SelectValue placeholder={(conversations ?? []).length === 0 ? 'No past conversations' : 'Past conversations'} />
+        </SelectTrigger>
+        <SelectContent>
+          {(conversations ?? []).map((conversation) => (
+            <SelectItem key={conversation.conversationId} value={conversation.conversationId} className="text-xs">
+              {conversation.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {active && (
+        <>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            disabled={disabled || isSaving}
+            onClick={() => {
+              setTitleDraft(active.title);
+              setIsRenaming(true);
+            }}
+            aria-label="Rename conversation"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8" disabled={disabled || isSaving} onClick={handleDelete} aria-label="Delete conversation">
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </>
+      )}
+      <Button size="sm" variant="outline" className="h-8 text-xs" disabled={disabled} onClick={() => onSelect(null)}>
+        <Plus className="w-3.5 h-3.5 mr-1" />
+        New
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * Course Budget Card Component
+ *
+ * Shows how much of the course's monthly AI budget the learner assistant
+ * and copilot have used, with a cumulative burn-down for the month.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Zap } from 'lucide-react';
+import { fetchCourseBudget } from '@/lib/courseBudgetService';
+import type { CourseBudget } from '@/lib/courseBudgetService';
+
+interface CourseBudgetCardProps {
+  courseId: string;
+  headers?: Headers;
+}
+
+const stateStyles: Record<CourseBudget['state'], { label: string; badge: string; bar: string }> = {
+  unbudgeted: { label: 'No cap', badge: 'bg-slate-50 text-slate-600 border-slate-200', bar: 'bg-slate-400' },
+  ok: { label: 'On track', badge: 'bg-emerald-50 text-emerald-700 border-emerald-200', bar: 'bg-emerald-500' },
+  warning: { label: 'Nearing cap', badge: 'bg-amber-50 text-amber-700 border-amber-200', bar: 'bg-amber-500' },
+  exceeded: { label: 'Cap reached', badge: 'bg-rose-50 text-rose-700 border-rose-200', bar: 'bg-rose-500' },
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 10 ? 2 : 0)}`;
+
+export function CourseBudgetCard({ courseId, headers }: CourseBudgetCardProps) {
+  const {
+    data: budget,
+    isLoading,
+    error
+  } = useQuery<CourseBudget>({
+    queryKey: ['course-llm-budget', courseId],
+    enabled: Boolean(courseId) && Boolean(headers),
+    queryFn: () => fetchCourseBudget(courseId, headers),
+    retry: 1
+  });
+
+  const style = stateStyles[budget?.state ?? 'unbudgeted'];
+  const limit = budget?.monthlyLimitUsd ?? null;
+  // Scale the burn-down to whichever is larger so overspend stays visible
+  const chartMax = Math.max(limit ?? 0, budget?.spentUsd ?? 0, 0.01);
+
+  return (
+    <Card className="border-[#E6EAF0] bg-white shadow-sm overflow-hidden">
+      <CardHeader className="pb-3 border-b border-slate-100/50 bg-slate-50/30">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <CardTitle className="text-sm font-semibold text-[#1A202C]">AI Budget</CardTitle>
+            <p className="text-[10px] text-[#718096]">Learner assistant and copilot spend this month</p>
+          </div>
+          {budget && (
+            <Badge variant="outline" className={`text-[10px] ${style.badge}`}>{style.label}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-[120px] w-full rounded-xl" />
+        ) : error || !budget ? (
+          <p className="text-xs text-red-600 font-medium flex items-center gap-2">
+            <Zap className="w-3.5 h-3.5" /> Failed to load the AI budget. Please try refreshing.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg bg-slate-50 p-3">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-[#718096]">Spent</span>
+                <p className="text-lg font-semibold text-[#1A202C]">{formatUsd(budget.spentUsd)}</p>
+              </div>
+              <div className="rounded-lg bg-slate-50 p-3">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-[#718096]">Monthly cap</span>
+                <p className="text-lg font-semibold text-[#1A202C]">{limit === null ? '—' : formatUsd(limit)}</p>
+              </div>
+              <div className="rounded-lg bg-slate-50 p-3">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-[#718096]">Projected</span>
+                <p className="text-lg font-semibold text-[#1A202C]">{formatUsd(budget.projectedUsd)}</p>
+              </div>
+            </div>
+
+            {limit !== null && budget.percentUsed !== null && (
+              <div className="space-y-1">
+                <div className="relative h-2 rounded-full bg-slate-100">
+                  <div
+                    className={`h-2 rounded-full ${style.bar}`}
+                    style={{ width: `${Math.min(budget.percentUsed, 100)}%` }}
+                  />
+                  {budget.softLimitPercent !== null && budget.softLimitPercent < 100 && (
+                    <div
+                      className="absolute top-[-2px] h-3 w-px bg-amber-600"
+                      style={{ left: `${budget.softLimitPercent}%` }}
+                      title={`Warning at ${budget.softLimitPercent}%`}
+                    />
+                  )}
+                </div>
+                <p className="text-[11px] text-[#718096]">
+                  {budget.percentUsed}% used · warning at {budget.softLimitPercent}% · hard stop at {budget.hardLimitPercent}%
+                </p>
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-end gap-px h-16">
+                {budget.days.map((day) => (
+                  <div
+                    key={day.day}
+                    className={`flex-1 rounded-t-sm ${limit !== null && day.cumulativeUsd >= limit ? 'bg-rose-300' : 'bg-[#CBD5E0]'}`}
+                    style={{ height: `${Math.max((day.cumulativeUsd / chartMax) * 100, 2)}%` }}
+                    title={`${day.day}: ${formatUsd(day.costUsd)} (total ${formatUsd(day.cumulativeUsd)})`}
+                  />
+                ))}
+              </div>
+              <p className="mt-1 text-[10px] text-[#718096]">Cumulative spend by day</p>
+            </div>
+
+            {budget.state === 'exceeded' && (
+              <p className="text-xs text-rose-700">
+                Learners only get answers to suggested prompts and the copilot is paused until next month.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * FAQ Clusters Card Component
+ *
+ * Shows the questions learners across the course keep asking the assistant,
+ * grouped per topic, and lets tutors promote one into a suggested prompt
+ * with a curated answer.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { RefreshCw } from 'lucide-react';
+import { fetchFaqClusters, promoteFaqCluster, refreshFaqClusters } from '@/lib/faqClusterService';
+import type { FaqCluster } from '@/lib/faqClusterService';
+
+interface FaqClustersCardProps {
+  courseId: string;
+  headers?: Headers;
+}
+
+const VISIBLE_CLUSTERS = 8;
+
+export function FaqClustersCard({ courseId, headers }: FaqClustersCardProps) {
+  const { toast } = useToast();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [selected, setSelected] = useState<FaqCluster | null>(null);
+  const [promptText, setPromptText] = useState('');
+  const [answer, setAnswer] = useState('');
+  const [isPromoting, setIsPromoting] = useState(false);
+
+  const { data: clusters, isLoading, refetch } = useQuery<FaqCluster[]>({
+    queryKey: ['faq-clusters', courseId],
+    enabled: Boolean(courseId) && Boolean(headers),
+    queryFn: () => fetchFaqClusters(courseId, headers),
+    retry: 1
+  });
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await refreshFaqClusters(courseId, headers);
+      await refetch();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not refresh recurring questions',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const openPromote = (cluster: FaqCluster) => {
+    setSelected(cluster);
+    setPromptText(cluster.representativeQuestion);
+    setAnswer('');
+  };
+
+  const handlePromote = async () => {
+    if (!selected) {
+      return;
+    }
+    setIsPromoting(true);
+    try {
+      await promoteFaqCluster(courseId, selected.clusterId, { promptText, answer }, headers);
+      toast({ title: 'Added as a suggested prompt', description: selected.topicName });
+      setSelected(null);
+      await refetch();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not promote this question',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsPromoting(false);
+    }
+  };
+
+  return (
+    <Card className="border-[#E6EAF0] bg-white shadow-sm overflow-hidden">
+      <CardHeader className="pb-3 border-b border-slate-100/50 bg-slate-50/30">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-sm font-semibold text-[#1A202C]">Recurring Questions</CardTitle>
+            <p className="text-[10px] text-[#718096]">
+              What learners keep asking the assistant beyond the suggested prompts, grouped per topic
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-[11px]"
+            disabled={isRefreshing || !headers}
+            onClick={() => void handleRefresh()}
+          >
+            <RefreshCw className={`mr-1 h-3 w-3 ${isRefreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full rounded-lg" />
+            <Skeleton className="h-12 w-full rounded-lg" />
+          </div>
+        ) : !clusters || clusters.length === 0 ? (
+          <p className="text-xs text-[#718096]">No recurring questions yet. Refresh after learners have used the assistant.</p>
+        ) : (
+          <ul className="space-y-2">
+            {clusters.slice(0, VISIBLE_CLUSTERS).map((cluster) => (
+              <li key={cluster.clusterId} className="rounded-lg border border-[#E6EAF0] p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium text-[#2D3748]">{cluster.representativeQuestion}</p>
+                    <p className="text-[10px] text-[#718096]">
+                      Module {cluster.moduleNo} · {cluster.topicName} · asked {cluster.questionCount} times by{' '}
+                      {cluster.learnerCount} learner{cluster.learnerCount === 1 ? '' : 's'}
+                    </p>
+                    {cluster.sampleQuestions.length > 1 && (
+                      <p className="mt-1 truncate text-[10px] italic text-[#A0AEC0]">
+                        Also: {cluster.sampleQuestions.slice(1, 3).join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                  <Button size="sm" className="h-7 shrink-0 text-[11px]" onClick={() => openPromote(cluster)}>
+                    Promote
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(selected)} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Promote to suggested prompt</DialogTitle>
+            <DialogDescription>
+              Learners on {selected?.topicName} will see this prompt, answered with the text below.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input value={promptText} onChange={(event) => setPromptText(event.target.value)} placeholder="Prompt" />
+            <Textarea
+              value={answer}
+              onChange={(event) => setAnswer(event.target.value)}
+              placeholder="Curated answer"
+              rows={6}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)} disabled={isPromoting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => void handlePromote()}
+              disabled={isPromoting || !promptText.trim() || !answer.trim()}
+            >
+              Promote
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
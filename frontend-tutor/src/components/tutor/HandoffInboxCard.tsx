@@ -0,0 +1,226 @@
+/**
+ * Handoff Inbox Card Component
+ *
+ * Assistant conversations learners handed to a tutor. Tutors read the whole
+ * transcript, reply inside the learner's chat, and close the handoff when the
+ * learner is unstuck.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchHandoffInbox,
+  fetchHandoffTranscript,
+  resolveHandoff,
+  sendHandoffReply,
+} from '@/lib/tutorHandoffService';
+import type { HandoffMessage, HandoffTranscript, TutorHandoff } from '@/lib/tutorHandoffService';
+
+interface HandoffInboxCardProps {
+  courseId: string;
+  headers?: Headers;
+}
+
+const INBOX_REFRESH_MS = 30_000;
+
+const ROLE_STYLES: Record<HandoffMessage['role'], string> = {
+  user: 'ml-auto bg-blue-50 text-[#2D3748]',
+  assistant: 'bg-slate-50 text-[#4A5568]',
+  tutor: 'bg-amber-50 text-[#2D3748] border border-amber-200',
+};
+
+const describeAuthor = (message: HandoffMessage, learnerName: string) =>
+  message.role === 'user' ? learnerName : message.role === 'tutor' ? `${message.authorName ?? 'Tutor'} (tutor)` : 'Assistant';
+
+export function HandoffInboxCard({ courseId, headers }: HandoffInboxCardProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const { data: inbox, isLoading, refetch } = useQuery<{ handoffs: TutorHandoff[]; unreadCount: number }>({
+    queryKey: ['handoff-inbox', courseId],
+    enabled: Boolean(courseId) && Boolean(headers),
+    queryFn: () => fetchHandoffInbox(courseId, 'open', headers),
+    refetchInterval: INBOX_REFRESH_MS,
+    retry: 1
+  });
+
+  const { data: transcript, refetch: refetchTranscript } = useQuery<HandoffTranscript>({
+    queryKey: ['handoff-transcript', courseId, selectedId],
+    enabled: Boolean(selectedId) && Boolean(headers),
+    queryFn: () => fetchHandoffTranscript(courseId, selectedId as string, headers),
+    refetchInterval: INBOX_REFRESH_MS,
+    retry: 1
+  });
+
+  const openHandoff = (handoff: TutorHandoff) => {
+    setSelectedId(handoff.handoffId);
+    setReply('');
+  };
+
+  const closeDialog = () => {
+    setSelectedId(null);
+    // Opening a transcript marks it read, so the unread counts change
+    void refetch();
+  };
+
+  const handleReply = async () => {
+    if (!selectedId) {
+      return;
+    }
+    setIsSending(true);
+    try {
+      await sendHandoffReply(courseId, selectedId, reply, headers);
+      setReply('');
+      await refetchTranscript();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not send your reply',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!selectedId) {
+      return;
+    }
+    setIsSending(true);
+    try {
+      await resolveHandoff(courseId, selectedId, headers);
+      toast({ title: 'Handoff closed', description: 'The learner is back with the assistant.' });
+      closeDialog();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not close this handoff',
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handoffs = inbox?.handoffs ?? [];
+  const learnerName = transcript?.handoff.learnerName ?? 'Learner';
+
+  return (
+    <Card className="border-[#E6EAF0] bg-white shadow-sm overflow-hidden">
+      <CardHeader className="pb-3 border-b border-slate-100/50 bg-slate-50/30">
+        <div className="flex items-center gap-2">
+          <CardTitle className="text-sm font-semibold text-[#1A202C]">Tutor Handoffs</CardTitle>
+          {Boolean(inbox?.unreadCount) && (
+            <Badge className="h-5 bg-red-500 px-1.5 text-[10px] text-white hover:bg-red-500">
+              {inbox?.unreadCount} unread
+            </Badge>
+          )}
+        </div>
+        <p className="text-[10px] text-[#718096]">Learners who asked for a tutor from the assistant chat</p>
+      </CardHeader>
+      <CardContent className="p-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full rounded-lg" />
+            <Skeleton className="h-12 w-full rounded-lg" />
+          </div>
+        ) : handoffs.length === 0 ? (
+          <p className="text-xs text-[#718096]">No learners are waiting for a tutor.</p>
+        ) : (
+          <ul className="space-y-2">
+            {handoffs.map((handoff) => (
+              <li key={handoff.handoffId}>
+                <button
+                  type="button"
+                  onClick={() => openHandoff(handoff)}
+                  className="w-full rounded-lg border border-[#E6EAF0] p-3 text-left hover:bg-slate-50"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <p className={`text-xs text-[#2D3748] ${handoff.unreadCount > 0 ? 'font-semibold' : 'font-medium'}`}>
+                      {handoff.learnerName}
+                    </p>
+                    {handoff.unreadCount > 0 && (
+                      <span className="rounded-full bg-red-500 px-1.5 text-[10px] font-semibold text-white">
+                        {handoff.unreadCount}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-[10px] text-[#718096]">
+                    Module {handoff.moduleNo} · {handoff.topicName} ·{' '}
+                    {new Date(handoff.lastMessageAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  </p>
+                  {handoff.lastMessage && (
+                    <p className="mt-1 truncate text-[11px] text-[#4A5568]">
+                      {handoff.lastMessage.role === 'tutor' ? 'You: ' : ''}
+                      {handoff.lastMessage.preview}
+                    </p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(selectedId)} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{learnerName}</DialogTitle>
+            <DialogDescription>
+              {transcript
+                ? `Module ${transcript.handoff.moduleNo} · ${transcript.handoff.topicName}. Replies appear in the learner's assistant chat.`
+                : 'Loading conversation...'}
+            </DialogDescription>
+          </DialogHeader>
+          {transcript?.handoff.sessionSummary && (
+            <p className="rounded bg-slate-50 p-2 text-[11px] italic text-[#718096]">
+              Earlier in this chat: {transcript.handoff.sessionSummary}
+            </p>
+          )}
+          <div className="max-h-[360px] space-y-2 overflow-y-auto pr-1">
+            {transcript?.messages.map((message) => (
+              <div key={message.messageId} className={`max-w-[85%] rounded-lg p-2 ${ROLE_STYLES[message.role]}`}>
+                <p className="text-[10px] font-semibold text-[#718096]">
+                  {describeAuthor(message, learnerName)} ·{' '}
+                  {new Date(message.createdAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                </p>
+                <p className="whitespace-pre-line text-xs">{message.content}</p>
+              </div>
+            ))}
+          </div>
+          <Textarea
+            value={reply}
+            onChange={(event) => setReply(event.target.value)}
+            placeholder="Reply to the learner"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => void handleResolve()} disabled={isSending}>
+              Close handoff
+            </Button>
+            <Button onClick={() => void handleReply()} disabled={isSending || !reply.trim()}>
+              Send reply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { apiRequest } from './queryClient';
+
+export type AnswerReviewStatus = 'open' | 'curated_answer' | 'missing_material' | 'dismissed';
+
+export interface AnswerReviewContext {
+    chunkId: string;
+    content: string;
+    score: number;
+    sourceDocument: string | null;
+    sourcePage: number | null;
+    topicId: string | null;
+    moduleNo: number | null;
+}
+
+export interface AnswerReview {
+    feedbackId: string;
+    messageId: string;
+    topicId: string;
+    topicName: string;
+    moduleNo: number;
+    moduleName: string;
+    learnerName: string;
+    reason: string | null;
+    reviewStatus: AnswerReviewStatus;
+    resolutionNote: string | null;
+    question: string | null;
+    answer: string;
+    answeredAt: string;
+    contexts: AnswerReviewContext[];
+    createdAt: string;
+}
+
+export type AnswerReviewResolution =
+    | { action: 'curated_answer'; promptText?: string; answer: string }
+    | { action: 'missing_material'; note: string }
+    | { action: 'dismissed'; note?: string };
+
+/**
+ * Fetch thumbs-down assistant answers for a course, newest first
+ */
+export async function fetchAnswerReviews(
+    courseId: string,
+    status: AnswerReviewStatus | 'all' = 'open',
+    headers?: Headers
+): Promise<AnswerReview[]> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/answer-reviews?status=${status}`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.reviews;
+}
+
+/**
+ * Close a review with a curated answer, a missing-material flag, or a dismissal
+ */
+export async function resolveAnswerReview(
+    courseId: string,
+    feedbackId: string,
+    resolution: AnswerReviewResolution,
+    headers?: Headers
+): Promise<void> {
+    await apiRequest(
+        'POST',
+        `/api/tutors/${courseId}/answer-reviews/${feedbackId}/resolve`,
+        resolution,
+        headers ? { headers } : undefined
+    );
+}
@@ -0,0 +1,39 @@
+import { apiRequest } from './queryClient';
+
+export interface AssistantSettings {
+    noSpoilers: boolean;
+}
+
+/**
+ * Fetch how the learner assistant is scoped for a course
+ */
+export async function fetchAssistantSettings(courseId: string, headers?: Headers): Promise<AssistantSettings> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/assistant-settings`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.settings;
+}
+
+/**
+ * Update how the learner assistant is scoped for a course
+ */
+export async function updateAssistantSettings(
+    courseId: string,
+    settings: AssistantSettings,
+    headers?: Headers
+): Promise<AssistantSettings> {
+    const response = await apiRequest(
+        'PUT',
+        `/api/tutors/${courseId}/assistant-settings`,
+        settings,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.settings;
+}
@@ -0,0 +1,53 @@
+import { apiRequest } from './queryClient';
+
+export type EffectMagnitude = 'negligible' | 'small' | 'medium' | 'large';
+
+export interface PerformanceFactor {
+    key: string;
+    label: string;
+    category: 'activity' | 'quiz' | 'chatbot' | 'time_of_day';
+    unit: 'count' | 'percent' | 'ratio';
+    cohortValue: number | null;
+    baselineValue: number | null;
+    cohortSampleSize: number;
+    baselineSampleSize: number;
+    effectSize: number | null;
+    magnitude: EffectMagnitude | null;
+    direction: 'higher' | 'lower' | 'same' | null;
+    impact: 'positive' | 'negative' | 'neutral';
+}
+
+export interface CohortPerformanceAnalysis {
+    cohort: {
+        cohortId: string;
+        name: string;
+    };
+    windowDays: number;
+    cohortLearners: number;
+    baselineLearners: number;
+    averageCompletion: {
+        cohort: number;
+        baseline: number | null;
+    };
+    factors: PerformanceFactor[];
+}
+
+/**
+ * Fetch the ranked factors that set a cohort apart from the rest of the course
+ */
+export async function fetchCohortPerformanceFactors(
+    courseId: string,
+    cohortId: string,
+    days: number,
+    headers?: Headers
+): Promise<CohortPerformanceAnalysis> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/cohorts/${cohortId}/performance-factors?days=${days}`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.analysis;
+}
@@ -0,0 +1,209 @@
+import { apiRequest } from './queryClient';
+
+export interface ColdCallPromptSummary {
+    promptId: string;
+    topicId: string;
+    topicName: string;
+    moduleNo: number;
+    promptText: string;
+    isActive: boolean;
+    answerCount: number;
+}
+
+export interface ModerationMessage {
+    messageId: string;
+    body: string;
+    parentId: string | null;
+    rootId: string | null;
+    status: string;
+    createdAt: string;
+    deletedAt: string | null;
+    pinnedAt: string | null;
+    user: {
+        userId: string;
+        fullName: string;
+        email: string;
+    };
+    isTutor: boolean;
+    starCount: number;
+}
+
+export interface ParticipationRow {
+    userId: string | null;
+    fullName: string | null;
+    email: string;
+    hasAnswered: boolean;
+    replyCount: number;
+    starsReceived: number;
+    starsGiven: number;
+}
+
+export interface ModerationThread {
+    prompt: {
+        promptId: string;
+        promptText: string;
+        helperText: string | null;
+        topicId: string;
+    };
+    cohort: {
+        cohortId: string;
+        name: string;
+    };
+    messages: ModerationMessage[];
+    participation: {
+        participationRate: number;
+        learners: ParticipationRow[];
+    };
+}
+
+/**
+ * Fetch cold-call prompts for a course
+ */
+export async function fetchColdCallPrompts(
+    courseId: string,
+    headers?: Headers
+): Promise<ColdCallPromptSummary[]> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/cold-call/prompts`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.prompts || [];
+}
+
+/**
+ * Fetch the full moderation view of one prompt's thread within a cohort
+ */
+export async function fetchModerationThread(
+    courseId: string,
+    promptId: string,
+    cohortId: string,
+    headers?: Headers
+): Promise<ModerationThread> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/cold-call/prompts/${promptId}/threads?cohortId=${cohortId}`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    return response.json();
+}
+
+/**
+ * Hide/restore a message or pin/unpin a top-level answer
+ */
+export async function moderateColdCallMessage(
+    courseId: string,
+    messageId: string,
+    update: { status?: 'active' | 'hidden'; pinned?: boolean },
+    headers?: Headers
+): Promise<void> {
+    await apiRequest(
+        'PATCH',
+        `/api/tutors/${courseId}/cold-call/messages/${messageId}`,
+        update,
+        headers ? { headers } : undefined
+    );
+}
+
+/**
+ * Post a reply as the tutor
+ */
+export async function postTutorColdCallReply(
+    courseId: string,
+    messageId: string,
+    body: string,
+    headers?: Headers
+): Promise<void> {
+    await apiRequest(
+        'POST',
+        `/api/tutors/${courseId}/cold-call/messages/${messageId}/replies`,
+        { body },
+        headers ? { headers } : undefined
+    );
+}
+
+export interface EditableColdCallPrompt {
+    promptId: string;
+    topicId: string;
+    promptText: string;
+    helperText: string | null;
+    displayOrder: number;
+    isActive: boolean;
+    _count: { messages: number };
+}
+
+export interface ColdCallPromptInput {
+    promptText?: string;
+    helperText?: string | null;
+    isActive?: boolean;
+}
+
+const topicPromptsPath = (courseId: string, topicId: string) =>
+    `/api/tutors/${courseId}/topics/${topicId}/cold-call-prompts`;
+
+/**
+ * Fetch all cold-call prompts for a topic in display order
+ */
+export async function fetchTopicColdCallPrompts(
+    courseId: string,
+    topicId: string,
+    headers?: Headers
+): Promise<EditableColdCallPrompt[]> {
+    const response = await apiRequest('GET', topicPromptsPath(courseId, topicId), undefined, headers ? { headers } : undefined);
+    const data = await response.json();
+    return data.prompts || [];
+}
+
+/**
+ * Create a cold-call prompt at the end of the topic's list
+ */
+export async function createTopicColdCallPrompt(
+    courseId: string,
+    topicId: string,
+    input: ColdCallPromptInput,
+    headers?: Headers
+): Promise<void> {
+    await apiRequest('POST', topicPromptsPath(courseId, topicId), input, headers ? { headers } : undefined);
+}
+
+/**
+ * Update a cold-call prompt's text or active state
+ */
+export async function updateTopicColdCallPrompt(
+    courseId: string,
+    topicId: string,
+    promptId: string,
+    input: ColdCallPromptInput,
+    headers?: Headers
+): Promise<void> {
+    await apiRequest('PATCH', `${topicPromptsPath(courseId, topicId)}/${promptId}`, input, headers ? { headers } : undefined);
+}
+
+/**
+ * Delete a cold-call prompt that has no learner responses
+ */
+export async function deleteTopicColdCallPrompt(
+    courseId: string,
+    topicId: string,
+    promptId: string,
+    headers?: Headers
+): Promise<void> {
+    await apiRequest('DELETE', `${topicPromptsPath(courseId, topicId)}/${promptId}`, undefined, headers ? { headers } : undefined);
+}
+
+/**
+ * Save a new display order for every prompt in a topic
+ */
+export async function reorderTopicColdCallPrompts(
+    courseId: string,
+    topicId: string,
+    promptIds: string[],
+    headers?: Headers
+): Promise<void> {
+    await apiRequest('PUT', `${topicPromptsPath(courseId, topicId)}/order`, { promptIds }, headers ? { headers } : undefined);
+}
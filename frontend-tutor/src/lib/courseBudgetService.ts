@@ -0,0 +1,39 @@
+import { apiRequest } from './queryClient';
+
+export type CourseBudgetState = 'unbudgeted' | 'ok' | 'warning' | 'exceeded';
+
+export interface CourseBudgetDay {
+    day: string;
+    costUsd: number;
+    cumulativeUsd: number;
+}
+
+export interface CourseBudget {
+    courseId: string;
+    monthlyLimitUsd: number | null;
+    softLimitPercent: number | null;
+    hardLimitPercent: number | null;
+    periodStart: string;
+    periodEnd: string;
+    spentUsd: number;
+    percentUsed: number | null;
+    projectedUsd: number;
+    state: CourseBudgetState;
+    days: CourseBudgetDay[];
+    canEdit: boolean;
+}
+
+/**
+ * Fetch the course's monthly AI budget and its day-by-day burn-down
+ */
+export async function fetchCourseBudget(courseId: string, headers?: Headers): Promise<CourseBudget> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/llm-budget`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.budget;
+}
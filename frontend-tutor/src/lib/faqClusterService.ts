@@ -0,0 +1,64 @@
+import { apiRequest } from './queryClient';
+
+export interface FaqCluster {
+    clusterId: string;
+    topicId: string;
+    topicName: string;
+    moduleNo: number;
+    moduleName: string;
+    representativeQuestion: string;
+    sampleQuestions: string[];
+    questionCount: number;
+    learnerCount: number;
+    firstAskedAt: string;
+    lastAskedAt: string;
+    promotedSuggestionId: string | null;
+    computedAt: string;
+}
+
+/**
+ * Fetch the recurring learner questions mined for a course, most asked first
+ */
+export async function fetchFaqClusters(courseId: string, headers?: Headers): Promise<FaqCluster[]> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/faq-clusters`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.clusters;
+}
+
+/**
+ * Re-mine recurring learner questions from recent assistant chats
+ */
+export async function refreshFaqClusters(courseId: string, headers?: Headers): Promise<FaqCluster[]> {
+    const response = await apiRequest(
+        'POST',
+        `/api/tutors/${courseId}/faq-clusters/refresh`,
+        {},
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.clusters;
+}
+
+/**
+ * Turn a question cluster into a suggested prompt with a curated answer
+ */
+export async function promoteFaqCluster(
+    courseId: string,
+    clusterId: string,
+    input: { promptText: string; answer: string },
+    headers?: Headers
+): Promise<void> {
+    await apiRequest(
+        'POST',
+        `/api/tutors/${courseId}/faq-clusters/${clusterId}/promote`,
+        input,
+        headers ? { headers } : undefined
+    );
+}
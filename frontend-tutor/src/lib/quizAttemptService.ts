@@ -0,0 +1,45 @@
+import { apiRequest } from './queryClient';
+import { ensureSessionFresh, readStoredSession } from '@/utils/session';
+
+export interface QuizAnswer {
+    questionId: string;
+    selectedOptionId: string;
+    isCorrect: boolean;
+}
+
+export interface QuizAttemptResult {
+    attemptId: string;
+    moduleNo: number;
+    attemptNumber: number;
+    score: number | null;
+    passed: boolean;
+    // True when the module has no answer key yet: the result counts, but is regraded once a key is added
+    selfReported: boolean;
+    submittedAt: string;
+    passThreshold: number;
+}
+
+/**
+ * Submit a learner's answers for a module quiz and get back the scored attempt
+ */
+export async function submitModuleQuizAttempt(
+    courseId: string,
+    moduleNo: number,
+    answers: QuizAnswer[],
+    startedAt?: string
+): Promise<QuizAttemptResult> {
+    const session = await ensureSessionFresh(readStoredSession());
+    if (!session?.accessToken) {
+        throw new Error('Please sign in to save your quiz results.');
+    }
+
+    const response = await apiRequest(
+        'POST',
+        `/api/lessons/courses/${encodeURIComponent(courseId)}/modules/${moduleNo}/quiz-attempts`,
+        { answers, startedAt },
+        { headers: { Authorization: `Bearer ${session.accessToken}` } }
+    );
+
+    const data = await response.json();
+    return { ...data.attempt, passThreshold: data.passThreshold };
+}
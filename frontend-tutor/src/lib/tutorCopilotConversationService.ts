@@ -0,0 +1,90 @@
+import { apiRequest } from './queryClient';
+import type { CopilotToolTrace } from './tutorCopilotStream';
+
+export interface CopilotConversation {
+    conversationId: string;
+    courseId: string;
+    title: string;
+    lastMessageAt: string | null;
+    createdAt: string;
+    messageCount: number;
+}
+
+export interface CopilotConversationMessage {
+    messageId: string;
+    role: 'user' | 'assistant';
+    content: string;
+    cohortId: string | null;
+    trace: CopilotToolTrace[] | null;
+    createdAt: string;
+}
+
+/**
+ * Fetch the tutor's past copilot conversations for a course
+ */
+export async function fetchCopilotConversations(
+    courseId: string,
+    headers?: Headers
+): Promise<CopilotConversation[]> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/assistant/conversations`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.conversations || [];
+}
+
+/**
+ * Fetch every stored turn of one copilot conversation
+ */
+export async function fetchCopilotConversationMessages(
+    courseId: string,
+    conversationId: string,
+    headers?: Headers
+): Promise<CopilotConversationMessage[]> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/assistant/conversations/${conversationId}/messages`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.messages || [];
+}
+
+/**
+ * Rename a copilot conversation
+ */
+export async function renameCopilotConversation(
+    courseId: string,
+    conversationId: string,
+    title: string,
+    headers?: Headers
+): Promise<void> {
+    await apiRequest(
+        'PATCH',
+        `/api/tutors/${courseId}/assistant/conversations/${conversationId}`,
+        { title },
+        headers ? { headers } : undefined
+    );
+}
+
+/**
+ * Delete a copilot conversation and all of its messages
+ */
+export async function deleteCopilotConversation(
+    courseId: string,
+    conversationId: string,
+    headers?: Headers
+): Promise<void> {
+    await apiRequest(
+        'DELETE',
+        `/api/tutors/${courseId}/assistant/conversations/${conversationId}`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+}
@@ -0,0 +1,114 @@
+import { apiRequest } from './queryClient';
+
+export interface CopilotToolTrace {
+    iteration: number;
+    name: string;
+    arguments: Record<string, unknown>;
+    status: 'ok' | 'error' | 'skipped';
+    error?: string;
+    durationMs: number;
+}
+
+export interface TutorCopilotResult {
+    conversationId: string;
+    answer: string;
+    trace: CopilotToolTrace[];
+    usage: {
+        iterations: number;
+        toolCalls: number;
+        totalTokens: number;
+    };
+}
+
+export interface TutorCopilotQuery {
+    courseId: string;
+    cohortId?: string | null;
+    question: string;
+    // Omit to start a new conversation; the server keeps the history
+    conversationId?: string | null;
+}
+
+export interface TutorCopilotStreamHandlers {
+    onToolCall?: (event: { iteration: number; name: string; arguments: Record<string, unknown>; label: string }) => void;
+    onToolResult?: (step: CopilotToolTrace) => void;
+    onToken?: (delta: string) => void;
+}
+
+/**
+ * Ask the tutor copilot a question and follow its progress as server-sent events.
+ * Resolves with the final answer and trace once the stream reports done.
+ */
+export async function streamTutorCopilotAnswer(
+    query: TutorCopilotQuery,
+    handlers: TutorCopilotStreamHandlers,
+    headers?: Headers
+): Promise<TutorCopilotResult> {
+    const response = await apiRequest(
+        'POST',
+        '/api/tutors/assistant/query/stream',
+        query,
+        headers ? { headers } : undefined
+    );
+
+    if (!response.body) {
+        throw new Error('Streaming is not supported in this browser.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: TutorCopilotResult | null = null;
+
+    const dispatch = (block: string) => {
+        let event = 'message';
+        const dataLines: string[] = [];
+        block.split('\n').forEach((line) => {
+            if (line.startsWith('event:')) {
+                event = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+                dataLines.push(line.slice(5).trimStart());
+            }
+        });
+        if (dataLines.length === 0) {
+            return;
+        }
+
+        const data = JSON.parse(dataLines.join('\n'));
+        switch (event) {
+            case 'tool_call':
+                handlers.onToolCall?.(data);
+                break;
+            case 'tool_result':
+                handlers.onToolResult?.(data.step);
+                break;
+            case 'token':
+                handlers.onToken?.(data.delta);
+                break;
+            case 'done':
+                result = data;
+                break;
+            case 'error':
+                throw new Error(data.message || 'Tutor assistant is unavailable right now.');
+        }
+    };
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+            break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            dispatch(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+        }
+    }
+
+    if (!result) {
+        throw new Error('The assistant stopped before finishing its answer.');
+    }
+    return result;
+}
@@ -0,0 +1,102 @@
+import { apiRequest } from './queryClient';
+
+export type HandoffStatus = 'open' | 'resolved';
+
+export interface TutorHandoff {
+    handoffId: string;
+    sessionId: string;
+    learnerId: string;
+    learnerName: string;
+    learnerEmail: string;
+    topicId: string;
+    topicName: string;
+    moduleNo: number;
+    status: HandoffStatus;
+    escalatedAt: string;
+    lastMessageAt: string;
+    resolvedAt: string | null;
+    lastMessage: { role: 'user' | 'assistant' | 'tutor'; preview: string } | null;
+    unreadCount: number;
+}
+
+export interface HandoffMessage {
+    messageId: string;
+    role: 'user' | 'assistant' | 'tutor';
+    content: string;
+    handoffId: string | null;
+    authorName: string | null;
+    createdAt: string;
+}
+
+export interface HandoffTranscript {
+    handoff: Omit<TutorHandoff, 'lastMessage' | 'unreadCount'> & { sessionSummary: string | null };
+    messages: HandoffMessage[];
+}
+
+/**
+ * Fetch the course's handoff inbox with the number of unread learner messages
+ */
+export async function fetchHandoffInbox(
+    courseId: string,
+    status: HandoffStatus | 'all' = 'open',
+    headers?: Headers
+): Promise<{ handoffs: TutorHandoff[]; unreadCount: number }> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/handoffs?status=${status}`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    return response.json();
+}
+
+/**
+ * Fetch the full learner conversation behind a handoff and mark it read
+ */
+export async function fetchHandoffTranscript(
+    courseId: string,
+    handoffId: string,
+    headers?: Headers
+): Promise<HandoffTranscript> {
+    const response = await apiRequest(
+        'GET',
+        `/api/tutors/${courseId}/handoffs/${handoffId}`,
+        undefined,
+        headers ? { headers } : undefined
+    );
+
+    return response.json();
+}
+
+/**
+ * Reply to the learner inside their assistant conversation
+ */
+export async function sendHandoffReply(
+    courseId: string,
+    handoffId: string,
+    content: string,
+    headers?: Headers
+): Promise<HandoffMessage> {
+    const response = await apiRequest(
+        'POST',
+        `/api/tutors/${courseId}/handoffs/${handoffId}/messages`,
+        { content },
+        headers ? { headers } : undefined
+    );
+
+    const data = await response.json();
+    return data.message;
+}
+
+/**
+ * Close a handoff, returning the learner's conversation to the assistant
+ */
+export async function resolveHandoff(courseId: string, handoffId: string, headers?: Headers): Promise<void> {
+    await apiRequest(
+        'POST',
+        `/api/tutors/${courseId}/handoffs/${handoffId}/resolve`,
+        {},
+        headers ? { headers } : undefined
+    );
+}
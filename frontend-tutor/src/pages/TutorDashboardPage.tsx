@@ -7,6 +7,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { streamTutorCopilotAnswer } from '@/lib/tutorCopilotStream';
+import type { CopilotToolTrace } from '@/lib/tutorCopilotStream';
+import { fetchCopilotConversationMessages } from '@/lib/tutorCopilotConversationService';
 import { readStoredSession, clearStoredSession, resetSessionHeartbeat } from '@/utils/session';
 import { SiteLayout } from '@/components/layout/SiteLayout';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -52,6 +55,15 @@ import remarkGfm from 'remark-gfm';
 import { ChatbotStatsCard } from '@/components/tutor/ChatbotStatsCard';
 import { ChatbotOverviewCard } from '@/components/tutor/ChatbotOverviewCard';
 import { PerLearnerStatsCard } from '@/components/tutor/PerLearnerStatsCard';
+import { CohortPerformanceFactorsCard } from '@/components/tutor/CohortPerformanceFactorsCard';
+import { CourseBudgetCard } from '@/components/tutor/CourseBudgetCard';
+import { AssistantSettingsCard } from '@/components/tutor/AssistantSettingsCard';
+import { FaqClustersCard } from '@/components/tutor/FaqClustersCard';
+import { AnswerReviewCard } from '@/components/tutor/AnswerReviewCard';
+import { HandoffInboxCard } from '@/components/tutor/HandoffInboxCard';
+import { ColdCallModerationCard } from '@/components/tutor/ColdCallModerationCard';
+import { ColdCallPromptEditorCard } from '@/components/tutor/ColdCallPromptEditorCard';
+import { CopilotConversationPicker } from '@/components/tutor/CopilotConversationPicker';
 
 
 
@@ -75,6 +87,24 @@ type EnrollmentRow = {
 
 
 
+type CompletionForecast = {
+  status: 'completed' | 'not_started' | 'forecast';
+  estimatedCompletionDate: string | null;
+  range: { earliest: string; latest: string } | null;
+  confidence: 'low' | 'medium' | 'high' | null;
+  cohortEndsAt: string | null;
+  cohortOutlook: 'on_track' | 'at_risk' | 'off_track' | null;
+  projectedToMissCohortEnd: boolean | null;
+};
+
+// Stored risk score shared with the copilot; null until the course has been scored
+type LearnerRisk = {
+  score: number;
+  level: 'low' | 'medium' | 'high';
+  reasons: string[];
+  computedAt: string;
+};
+
 type ProgressRow = {
   userId: string;
   fullName: string;
@@ -83,8 +113,19 @@ type ProgressRow = {
   completedModules: number;
   totalModules: number;
   percent: number;
+  forecast?: CompletionForecast | null;
+  risk?: LearnerRisk | null;
+};
+
+const RISK_BADGES: Record<LearnerRisk['level'], { dot: string; color: string; label: string }> = {
+  high: { dot: 'bg-red-500', color: '#EF4444', label: 'High risk' },
+  medium: { dot: 'bg-amber-500', color: '#D97706', label: 'Attention' },
+  low: { dot: 'bg-green-500', color: '#10B981', label: 'On Track' },
 };
 
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
 enum LearnerStatus {
   NEEDS_SUPPORT = 'NEEDS_SUPPORT',
   MAKING_PROGRESS = 'MAKING_PROGRESS',
@@ -101,6 +142,7 @@ type TutorAssistantMessage = {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  trace?: CopilotToolTrace[];
 };
 
 type Cohort = {
@@ -175,6 +217,9 @@ export default function TutorDashboardPage() {
   const [assistantMessages, setAssistantMessages] = useState<TutorAssistantMessage[]>([]);
   const [assistantInput, setAssistantInput] = useState('');
   const [assistantLoading, setAssistantLoading] = useState(false);
+  const [assistantActivity, setAssistantActivity] = useState<string | null>(null);
+  const [copilotConversationId, setCopilotConversationId] = useState<string | null>(null);
+  const [copilotRefreshKey, setCopilotRefreshKey] = useState(0);
   const [selectedCohortId, setSelectedCohortId] = useState<string | null>(null);
   const [isEmailModalOpen, setIsEmailModalOpen] = useState(false);
   const [emailFormData, setEmailFormData] = useState({ to: '' as string | string[], fullName: '', subject: '', message: '' });
@@ -257,6 +302,7 @@ export default function TutorDashboardPage() {
 
   useEffect(() => {
     setAssistantMessages([]);
+    setCopilotConversationId(null);
     setSelectedLearnerId(null);
     setSelectedCohortId(null);
   }, [selectedCourseId]);
@@ -314,7 +360,7 @@ export default function TutorDashboardPage() {
     }
   });
 
-  const { data: progressResponse, isLoading: progressLoading } = useQuery<{ learners: ProgressRow[]; totalModules: number }>({
+  const { data: progressResponse, isLoading: progressLoading, refetch: refetchProgress } = useQuery<{ learners: ProgressRow[]; totalModules: number }>({
     queryKey: ['tutor-progress', selectedCourseId, selectedCohortId],
     enabled: Boolean(selectedCourseId) && Boolean(headers),
     queryFn: async () => {
@@ -329,6 +375,30 @@ export default function TutorDashboardPage() {
     }
   });
 
+  const [isRescoringRisk, setIsRescoringRisk] = useState(false);
+  // Scores are only recomputed on Rescore or when the risk:score script runs, so show their age
+  const riskScoredAt = (progressResponse?.learners ?? []).reduce<string | null>(
+    (latest, learner) => (learner.risk && (!latest || learner.risk.computedAt > latest) ? learner.risk.computedAt : latest),
+    null
+  );
+  const handleRescoreRisk = async () => {
+    if (!selectedCourseId) return;
+    setIsRescoringRisk(true);
+    try {
+      await apiRequest(
+        'POST',
+        `/api/tutors/${selectedCourseId}/risk-scores/refresh`,
+        {},
+        headers ? { headers } : undefined
+      );
+      await refetchProgress();
+    } catch (error) {
+      console.error('Failed to rescore learner risk', error);
+    } finally {
+      setIsRescoringRisk(false);
+    }
+  };
+
   const getLearnerStatusEnum = (percent: number): LearnerStatus => {
     if (percent === 100) return LearnerStatus.COMPLETED;
     if (percent > 75) return LearnerStatus.ON_TRACK;
@@ -559,6 +629,7 @@ export default function TutorDashboardPage() {
     'cold_call.response_received': 'Tutor responded to cold-call',
     'tutor.prompt': 'Tutor prompt sent',
     'tutor.response_received': 'Learner is stuck on content',
+    'tutor.handoff': 'Learner asked for a tutor',
   };
 
   const STATUS_REASON_LABELS: Record<string, string> = {
@@ -625,35 +696,49 @@ export default function TutorDashboardPage() {
     // Scroll to bottom when user sends a question
     setTimeout(scrollAssistantToBottom, 100);
 
+    // The answer streams into this message; it stays empty (and hidden) until the first token
+    const assistantId = `${Date.now()}-${Math.random()}`;
+    const updateAssistantMessage = (update: (message: TutorAssistantMessage) => TutorAssistantMessage) => {
+      setAssistantMessages((prev) => prev.map((message) => (message.id === assistantId ? update(message) : message)));
+    };
+
     try {
-      const history = assistantMessages.slice(-10).map(m => ({
-        role: m.role,
-        content: m.content
-      }));
+      setAssistantMessages((prev) => [
+        ...prev,
+        { id: assistantId, role: 'assistant', content: '', timestamp: new Date().toISOString(), trace: [] }
+      ]);
 
-      const response = await apiRequest(
-        'POST',
-        '/api/tutors/assistant/query',
+      const result = await streamTutorCopilotAnswer(
         {
           courseId: selectedCourseId,
           cohortId: selectedCohortId,
           question: trimmedQuestion,
-          history
+          conversationId: copilotConversationId
         },
-        { headers }
+        {
+          onToolCall: (event) => {
+            setAssistantActivity(event.label);
+            // Anything streamed before a tool call was a preamble, not the answer
+            updateAssistantMessage((message) => ({ ...message, content: '' }));
+          },
+          onToolResult: (step) => {
+            updateAssistantMessage((message) => ({ ...message, trace: [...(message.trace ?? []), step] }));
+          },
+          onToken: (delta) => {
+            setAssistantActivity(null);
+            updateAssistantMessage((message) => ({ ...message, content: message.content + delta }));
+          }
+        },
+        headers
       );
-      const payload = await response.json();
-      const assistantMessage: TutorAssistantMessage = {
-        id: `${Date.now()}-${Math.random()}`,
-        role: 'assistant',
-        content: payload?.answer ?? 'No response available.',
-        timestamp: new Date().toISOString()
-      };
-      setAssistantMessages((prev) => [...prev, assistantMessage]);
+      updateAssistantMessage((message) => ({ ...message, content: result.answer, trace: result.trace }));
+      setCopilotConversationId(result.conversationId);
+      setCopilotRefreshKey((key) => key + 1);
 
       // Scroll to the top of the NEW assistant's response
       setTimeout(scrollAssistantToLastMessage, 100);
     } catch (error: any) {
+      setAssistantMessages((prev) => prev.filter((message) => message.id !== assistantId || message.content));
       toast({
         variant: 'destructive',
         title: 'Assistant unavailable',
@@ -661,6 +746,33 @@ export default function TutorDashboardPage() {
       });
     } finally {
       setAssistantLoading(false);
+      setAssistantActivity(null);
+    }
+  };
+
+  const handleSelectConversation = async (conversationId: string | null) => {
+    setCopilotConversationId(conversationId);
+    if (!conversationId || !selectedCourseId) {
+      setAssistantMessages([]);
+      return;
+    }
+
+    try {
+      const messages = await fetchCopilotConversationMessages(selectedCourseId, conversationId, headers);
+      setAssistantMessages(messages.map((message) => ({
+        id: message.messageId,
+        role: message.role,
+        content: message.content,
+        timestamp: message.createdAt,
+        trace: message.trace ?? undefined
+      })));
+      setTimeout(scrollAssistantToBottom, 100);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not open conversation',
+        description: error?.message ?? 'Please try again.'
+      });
     }
   };
 
@@ -1331,7 +1443,18 @@ export default function TutorDashboardPage() {
                     <span className="text-[#E5E7EB]">•</span>
                     <div className="flex items-center gap-1.5 text-[#F59E0B]">
                       <span>⚠️</span>
-                      <span>{(progressResponse?.learners ?? []).filter(l => l.percent < 30).length} need attention</span>
+                      <span>{(progressResponse?.learners ?? []).filter(l => l.risk && l.risk.level !== 'low').length} at risk</span>
+                      <button
+                        type="button"
+                        onClick={() => void handleRescoreRisk()}
+                        disabled={isRescoringRisk || !headers}
+                        className="text-[11px] text-[#6B7280] underline-offset-2 hover:underline disabled:opacity-50"
+                      >
+                        {isRescoringRisk ? 'Rescoring...' : 'Rescore'}
+                      </button>
+                      <span className="text-[11px] text-[#9CA3AF]">
+                        {riskScoredAt ? `scored ${formatTimestamp(riskScoredAt)}` : 'not scored yet'}
+                      </span>
                     </div>
                     <span className="text-[#E5E7EB]">•</span>
                     <div className="flex items-center gap-1.5 text-[#9CA3AF]">
@@ -1490,12 +1613,22 @@ export default function TutorDashboardPage() {
                                               <span className="text-[11px]">✉️</span>
                                               {learner.email}
                                             </div>
-                                            <div className="flex items-center gap-1.5 mt-1 font-bold text-[10px] uppercase tracking-wider">
-                                              <span className={`h-1.5 w-1.5 rounded-full ${learner.percent === 0 ? 'bg-gray-400' : learner.percent < 30 ? 'bg-red-500' : 'bg-green-500'}`} />
-                                              <span style={{ color: learner.percent === 0 ? '#9CA3AF' : learner.percent < 30 ? '#EF4444' : '#10B981' }}>
-                                                {learner.percent === 0 ? 'Not started' : learner.percent < 30 ? 'Attention' : 'On Track'}
-                                              </span>
-                                            </div>
+                                            {learner.risk ? (
+                                              <div
+                                                className="flex items-center gap-1.5 mt-1 font-bold text-[10px] uppercase tracking-wider"
+                                                title={learner.risk.reasons.length > 0 ? learner.risk.reasons.join('\n') : 'No risk factors'}
+                                              >
+                                                <span className={`h-1.5 w-1.5 rounded-full ${RISK_BADGES[learner.risk.level].dot}`} />
+                                                <span style={{ color: RISK_BADGES[learner.risk.level].color }}>
+                                                  {RISK_BADGES[learner.risk.level].label} · {learner.risk.score}
+                                                </span>
+                                              </div>
+                                            ) : (
+                                              <div className="flex items-center gap-1.5 mt-1 font-bold text-[10px] uppercase tracking-wider">
+                                                <span className="h-1.5 w-1.5 rounded-full bg-gray-400" />
+                                                <span style={{ color: '#9CA3AF' }}>Not scored yet</span>
+                                              </div>
+                                            )}
                                           </div>
                                         </div>
                                       </div>
@@ -1546,6 +1679,26 @@ export default function TutorDashboardPage() {
                                           <div className="text-[10px] font-bold pl-0.5 uppercase tracking-wide" style={{ color: theme.messageColor }}>
                                             {theme.message}
                                           </div>
+                                          {learner.forecast?.status === 'forecast' && learner.forecast.estimatedCompletionDate && (
+                                            <div
+                                              className="flex items-center gap-1.5 pl-0.5 text-[10px]"
+                                              title={learner.forecast.range
+                                                ? `Likely between ${formatShortDate(learner.forecast.range.earliest)} and ${formatShortDate(learner.forecast.range.latest)} (${learner.forecast.confidence} confidence)`
+                                                : undefined}
+                                            >
+                                              <span className="text-[#6B7280]">
+                                                Est. finish {formatShortDate(learner.forecast.estimatedCompletionDate)}
+                                              </span>
+                                              {learner.forecast.projectedToMissCohortEnd && (
+                                                <span className="font-bold text-[#EF4444]">
+                                                  · Misses cohort end{learner.forecast.cohortEndsAt ? ` (${formatShortDate(learner.forecast.cohortEndsAt)})` : ''}
+                                                </span>
+                                              )}
+                                              {learner.forecast.cohortOutlook === 'at_risk' && (
+                                                <span className="font-bold text-[#D97706]">· Cutting it close</span>
+                                              )}
+                                            </div>
+                                          )}
                                         </div>
                                       </div>
                                     </div>
@@ -2046,8 +2199,66 @@ export default function TutorDashboardPage() {
               headers={headers}
             />
 
+            {/* What sets this cohort apart */}
+            <CohortPerformanceFactorsCard
+              courseId={selectedCourseId || ''}
+              cohortId={selectedCohortId}
+              headers={headers}
+            />
+
+            {/* Monthly AI spend against the course cap */}
+            <CourseBudgetCard
+              courseId={selectedCourseId || ''}
+              headers={headers}
+            />
+
+            {/* How far the learner assistant may look beyond the current module */}
+            <AssistantSettingsCard
+              courseId={selectedCourseId || ''}
+              headers={headers}
+            />
+
+            {/* Questions the whole course keeps asking, ready to become suggested prompts */}
+            <FaqClustersCard
+              courseId={selectedCourseId || ''}
+              headers={headers}
+            />
+
+            {/* Assistant answers learners marked unhelpful, waiting for a tutor */}
+            <AnswerReviewCard
+              courseId={selectedCourseId || ''}
+              headers={headers}
+            />
+
+            {/* Learners who asked a tutor to take over their assistant chat */}
+            <HandoffInboxCard
+              courseId={selectedCourseId || ''}
+              headers={headers}
+            />
+
 
           </section>
+
+          {/* Cold-Call Moderation Section */}
+          <section id="cold-call" className="mt-8 space-y-4">
+            <div>
+              <p className="text-[9px] font-bold uppercase tracking-[0.3em] text-[#718096]">Cold Calling</p>
+              <h2 className="text-xl font-semibold text-[#1A202C]">Cohort Discussions</h2>
+              <p className="text-xs text-[#718096]">
+                Review learner responses, highlight strong answers and keep threads on track.
+              </p>
+            </div>
+            <ColdCallModerationCard
+              courseId={selectedCourseId || ''}
+              cohortId={selectedCohortId}
+              headers={headers}
+            />
+            <ColdCallPromptEditorCard
+              courseId={selectedCourseId || ''}
+              topics={topicsResponse?.topics ?? []}
+              headers={headers}
+            />
+          </section>
         </div >
 
         {/* Persistent AI Copilot Button - Anchored horizontally to white surface, fixed to viewport bottom */}
@@ -2098,6 +2309,18 @@ export default function TutorDashboardPage() {
                 <p className="text-[10px] uppercase tracking-[0.3em] font-bold">AI Copilot</p>
               </div>
               <SheetTitle className="text-xl font-bold text-slate-900">Classroom Analyst</SheetTitle>
+              {selectedCourseId && (
+                <div className="pt-3">
+                  <CopilotConversationPicker
+                    courseId={selectedCourseId}
+                    activeConversationId={copilotConversationId}
+                    refreshKey={copilotRefreshKey}
+                    disabled={assistantLoading}
+                    headers={headers}
+                    onSelect={handleSelectConversation}
+                  />
+                </div>
+              )}
             </SheetHeader>
 
             {/* Quick Suggestions */}
@@ -2130,10 +2353,10 @@ export default function TutorDashboardPage() {
                   </p>
                 </div>
               ) : (
-                assistantMessages.map((message, idx) => (
+                assistantMessages.filter((message) => message.content).map((message, idx, visibleMessages) => (
                   <div
                     key={message.id}
-                    ref={idx === assistantMessages.length - 1 ? lastMessageRef : null}
+                    ref={idx === visibleMessages.length - 1 ? lastMessageRef : null}
                     className={`flex flex-col ${message.role === 'assistant' ? 'items-start' : 'items-end'}`}
                   >
                     <div
@@ -2154,15 +2377,32 @@ export default function TutorDashboardPage() {
                           message.content
                         )}
                       </div>
+                      {message.trace && message.trace.length > 0 && (
+                        <details className="mt-2 text-[11px] text-slate-500">
+                          <summary className="cursor-pointer select-none font-medium">
+                            Derived from {message.trace.length} data {message.trace.length === 1 ? 'lookup' : 'lookups'}
+                          </summary>
+                          <ol className="mt-1 space-y-1">
+                            {message.trace.map((step, stepIdx) => (
+                              <li key={stepIdx} className="font-mono break-all">
+                                <span className="text-slate-400">{step.iteration}.</span> {step.name}({JSON.stringify(step.arguments)})
+                                {step.status !== 'ok' && (
+                                  <span className="ml-1 text-amber-600">[{step.status}{step.error ? `: ${step.error}` : ''}]</span>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        </details>
+                      )}
                     </div>
                   </div>
                 ))
               )}
-              {assistantLoading && (
+              {assistantLoading && !assistantMessages[assistantMessages.length - 1]?.content && (
                 <div className="flex items-start">
                   <div className="bg-slate-100 text-slate-900 rounded-2xl rounded-tl-none px-4 py-3 text-sm flex items-center gap-2">
                     <Loader2 className="w-3 h-3 animate-spin opacity-60" />
-                    <span className="text-xs font-medium opacity-60">Analysing classroom data...</span>
+                    <span className="text-xs font-medium opacity-60">{assistantActivity ?? 'Analysing classroom data...'}</span>
                   </div>
                 </div>
               )}
@@ -2,6 +2,7 @@ import { buildApiUrl } from "@/lib/api";
 import { apiRequest } from "@/lib/queryClient";
 
 type TelemetryEvent = {
+  clientEventId?: string;
   courseId: string;
   moduleNo?: number | null;
   topicId?: string | null;
@@ -12,6 +13,9 @@ type TelemetryEvent = {
 
 const BUFFER_FLUSH_INTERVAL_MS = 4000;
 const MAX_BUFFER_SIZE = 20;
+const MAX_RETRY_BUFFER_SIZE = 100;
+// Matches the server-side limit on /api/activity/events
+const MAX_EVENTS_PER_BATCH = 50;
 
 let currentToken: string | null = null;
 let buffer: TelemetryEvent[] = [];
@@ -19,23 +23,45 @@ let flushTimer: any | null = null;
 
 const isBrowser = typeof window !== "undefined";
 
+function createClientEventId(): string {
+  if (isBrowser && typeof window.crypto?.randomUUID === "function") {
+    return window.crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Rejections other than rate limiting mean the batch itself is bad, so re-sending it cannot help
+function isRetryable(error: unknown): boolean {
+  const status = error instanceof Error ? Number.parseInt(error.message, 10) : Number.NaN;
+  return !(status >= 400 && status < 500) || status === 429;
+}
+
 async function flushBuffer(): Promise<void> {
   if (!currentToken || buffer.length === 0) {
     return;
   }
   const events = buffer.slice();
   buffer = [];
-  try {
-    await apiRequest("POST", "/api/activity/events", {
-      events: events.map((event) => ({
-        ...event,
-        occurredAt: event.occurredAt ?? new Date().toISOString(),
-      })),
-    }, {
-      headers: { Authorization: `Bearer ${currentToken}` },
-    });
-  } catch (error) {
-    console.warn("Failed to send telemetry events", error);
+  // The server rejects larger batches, so a retry backlog goes out in several requests
+  for (let start = 0; start < events.length; start += MAX_EVENTS_PER_BATCH) {
+    const batch = events.slice(start, start + MAX_EVENTS_PER_BATCH);
+    try {
+      await apiRequest("POST", "/api/activity/events", {
+        events: batch.map((event) => ({
+          ...event,
+          occurredAt: event.occurredAt ?? new Date().toISOString(),
+        })),
+      }, {
+        headers: { Authorization: `Bearer ${currentToken}` },
+      });
+    } catch (error) {
+      console.warn("Failed to send telemetry events", error);
+      if (isRetryable(error)) {
+        // Events carry client ids, so re-sending a batch the server partly stored is safe
+        buffer = events.slice(start).concat(buffer).slice(-MAX_RETRY_BUFFER_SIZE);
+        return;
+      }
+    }
   }
 }
 
@@ -64,7 +90,7 @@ export function recordTelemetryEvent(event: TelemetryEvent): void {
   if (!currentToken || !isBrowser) {
     return;
   }
-  buffer.push(event);
+  buffer.push({ ...event, clientEventId: event.clientEventId ?? createClientEventId() });
   if (buffer.length >= MAX_BUFFER_SIZE) {
     void flushBuffer();
     return;